@@ -1,8 +1,15 @@
 
 import React from 'react';
 import CriptLatorWidget from './components/CriptLatorWidget';
+import SubtitleOverlay from './components/SubtitleOverlay';
+import { isOverlayView, readOverlayConfig } from './services/overlayConfig';
 
 const App: React.FC = () => {
+  // Browser-source view for OBS and projectors: subtitles only, no chrome
+  if (isOverlayView()) {
+    return <SubtitleOverlay config={readOverlayConfig()} />;
+  }
+
   return (
     <div className="min-h-screen bg-transparent flex items-center justify-center">
       <div className="p-10">
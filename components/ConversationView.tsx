@@ -0,0 +1,89 @@
+import React, { useSyncExternalStore, memo } from 'react';
+import { TranscriptStore, pairTranscript } from '../services/transcriptStore';
+import { LANGUAGE_CODES, SupportLanguage } from '../types';
+
+interface ConversationViewProps {
+  store: TranscriptStore;
+  /** Device owner's language first; the second side faces the person across the table. */
+  languages: [SupportLanguage, SupportLanguage];
+  pushToTalk: boolean;
+  talkingSide: number | null;
+  isActive: boolean;
+  onTalkStart: (side: number) => void;
+  onTalkEnd: (side: number) => void;
+}
+
+interface ConversationLine {
+  id: string;
+  text: string;
+  /** Said by this side, as opposed to interpreted for it. */
+  isOwn: boolean;
+}
+
+// Lines kept on screen per side
+const VISIBLE_LINES = 6;
+
+/**
+ * Split-screen transcript for a two-person conversation on one device. Each half
+ * reads in its own language: what that person said, and the other side
+ * interpreted. The far half is rotated to face the person across the table.
+ */
+const ConversationView: React.FC<ConversationViewProps> = memo(({ store, languages, pushToTalk, talkingSide, isActive, onTalkStart, onTalkEnd }) => {
+  const { records, liveTranslations } = useSyncExternalStore(store.subscribe, store.getSnapshot);
+  const pairs = pairTranscript(records, liveTranslations);
+
+  const linesFor = (side: number): ConversationLine[] => {
+    const language = languages[side];
+    const code = LANGUAGE_CODES[language];
+    return pairs.flatMap(({ source, translations }) => {
+      if (!source) return [];
+      if (source.language === code) return [{ id: source.id, text: source.text, isOwn: true }];
+      const translation = translations.find(t => t.language === language);
+      return [{ id: source.id, text: translation?.text ?? '…', isOwn: false }];
+    }).slice(-VISIBLE_LINES);
+  };
+
+  const renderHalf = (side: number) => {
+    const isTalking = talkingSide === side;
+    return (
+      <div className={`flex-1 min-h-0 flex flex-col gap-3 px-6 py-4 ${side === 1 ? 'rotate-180 border-b border-white/10' : ''}`}>
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] text-white/40 uppercase font-black tracking-[0.3em]">{languages[side]}</span>
+          {pushToTalk && (
+            <button
+              onPointerDown={() => onTalkStart(side)}
+              onPointerUp={() => onTalkEnd(side)}
+              onPointerLeave={() => { if (isTalking) onTalkEnd(side); }}
+              onPointerCancel={() => onTalkEnd(side)}
+              disabled={!isActive || (talkingSide !== null && !isTalking)}
+              className={`px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-[0.2em] border select-none touch-none transition-all ${isTalking ? 'bg-green-500/30 text-green-300 border-green-500/50 scale-105' : 'bg-white/10 text-white/70 border-white/20 hover:bg-white/20 disabled:opacity-20'}`}
+            >
+              {isTalking ? 'Listening...' : 'Hold to Talk'}
+            </button>
+          )}
+        </div>
+        <div className="flex-1 min-h-0 flex flex-col justify-end gap-2 overflow-hidden">
+          {linesFor(side).map(line => (
+            <div
+              key={line.id}
+              className={`max-w-[85%] px-4 py-2 rounded-2xl text-[13px] leading-relaxed ${line.isOwn ? 'self-end bg-white/10 text-white/80' : 'self-start bg-blue-500/10 text-blue-300 font-bold italic'}`}
+            >
+              {line.text}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-[680px] h-[440px] flex flex-col bg-black/60 backdrop-blur-3xl border border-white/10 rounded-3xl shadow-[0_0_40px_rgba(0,0,0,0.5)] overflow-hidden">
+      {renderHalf(1)}
+      {renderHalf(0)}
+    </div>
+  );
+});
+
+ConversationView.displayName = 'ConversationView';
+
+export default ConversationView;
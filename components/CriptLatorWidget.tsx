@@ -1,49 +1,86 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@^2.45.0';
-import { 
-  GeminiLiveService, 
-  decode, 
-  decodeAudioData, 
-  encode 
-} from '../services/geminiLiveService';
-import { SupportLanguage, resolveAutoLanguage, PrebuiltVoice, UserRole } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { GeminiLiveService } from '../services/geminiLiveService';
+import { decode, decodeAudioData, encode } from '../services/audioCodec';
+import { PlaybackQueue } from '../services/playbackScheduler';
+import { SessionTelemetry } from '../services/telemetry';
+import { readRoomCodeFromHash, buildRoomLink, normalizeRoomCode } from '../services/rooms';
+import { RelayKind, RelayPresenceHandle, RelayPresenceState } from '../services/relayTransport';
+import { RoomRoster, summarizeRoster } from '../services/roomPresence';
+import { LiveBackendKind, LiveResponseModality } from '../services/liveBackend';
+import { createLiveBackend } from '../services/liveBackendFactory';
+import { buildOverlayLink } from '../services/overlayConfig';
+import { createRelayTransport } from '../services/relayFactory';
+import { MAX_EXTRA_LANGUAGES, SettingsStore, readSettingsOverrides } from '../services/settingsStore';
+import { SegmentAggregator } from '../services/segmentAggregator';
+import { SegmentSequencer } from '../services/segmentSequencer';
+import { ModerationQueue } from '../services/moderationQueue';
+import { RecordedTrack, RecordedTrackKind, TrackRecorder, isRecordingSupported } from '../services/sessionRecorder';
+import { downloadSessionArchive } from '../services/sessionArchive';
+import { SampleLibrary, SampleLine, SampleScript } from '../services/sampleLibrary';
+import { SamplePlayer } from '../services/samplePlayer';
+import { TranscriptStore } from '../services/transcriptStore';
+import { InterpreterPool, InterpreterPoolCallbacks } from '../services/interpreterPool';
+import { PcmCapture, startPcmCapture } from '../services/audioCapture';
+import { CATCH_UP_POLICIES, CatchUpPolicy, HeldLine, LatencyBudget } from '../services/latencyBudget';
+import { TimeStretcher } from '../services/timeStretch';
+import { MEDIA_FILE_ACCEPT, PcmFileFeeder, decodeAudioFile } from '../services/fileSource';
+import { CaptureSourceKind, SourceMixer, listInputDevices, sourceKindsFor } from '../services/audioSources';
+import { PcmMonitor, isOutputSelectionSupported, listOutputDevices, publishOutputStream, setOutputDevice } from '../services/audioOutput';
+import { SpeechGate } from '../services/voiceActivityDetector';
+import { SourceLanguageDetector, UNDETERMINED_LANGUAGE, isSameLanguage, pickLanguage } from '../services/languageDetection';
+import { checkGlossary, glossaryForLanguage, loadLocalGlossary, mergeGlossaries, saveLocalGlossary } from '../services/glossary';
+import { SupportLanguage, resolveAutoLanguage, PrebuiltVoice, UserRole, Room, LANGUAGE_CODES, SourceType, GlossaryEntry, ListenerOutputMode, TranscriptSegment } from '../types';
 import AudioVisualizer from './AudioVisualizer';
+import ConversationView from './ConversationView';
+import DiagnosticsOverlay from './DiagnosticsOverlay';
+import GlossaryPanel from './GlossaryPanel';
+import LevelMeter from './LevelMeter';
+import ModerationPanel from './ModerationPanel';
+import SamplePanel from './SamplePanel';
+import SettingsPanel from './SettingsPanel';
+import TranscriptHistory from './TranscriptHistory';
 
-const SAMPLES = [
-  {
-    id: 'sample-1',
-    name: 'Sample 1: Tech Summit (English)',
-    sentences: [
-      "Artificial intelligence is transforming the global landscape.",
-      "We are seeing a paradigm shift in how we work and create.",
-      "The integration of neural networks into daily life is accelerating.",
-      "Ethics and safety must remain at the forefront of development.",
-      "Let's explore the future possibilities together in this session."
-    ]
-  },
-  {
-    id: 'sample-2',
-    name: 'Sample 2: Conferencia (Spanish)',
-    sentences: [
-      "La inteligencia artificial está transformando el panorama global.",
-      "Estamos viendo un cambio de paradigma en cómo trabajamos y creamos.",
-      "La integración de redes neuronales en la vida diaria se está acelerando.",
-      "La ética y la seguridad deben seguir siendo la prioridad del desarrollo.",
-      "Exploremos juntos las posibilidades futuras en esta sesión."
-    ]
-  },
-  {
-    id: 'sample-3',
-    name: 'Sample 3: サミット (Japanese)',
-    sentences: [
-      "人工知能はグローバルな展望を変えつつあります。",
-      "仕事や創造のあり方にパラダイムシフトが起きています。",
-      "日常生活へのニューラルネットワークの統合が加速しています。",
-      "開発の最前線には常に倫理と安全性がなければなりません。",
-      "このセッションで、未来の可能性を一緒に探っていきましょう。"
-    ]
-  }
-];
+// Audio sent to Gemini per realtime message
+const CAPTURE_CHUNK_MS = 256;
+
+const SOURCE_LABELS: Record<CaptureSourceKind, string> = {
+  mic: 'Mic',
+  system: 'System',
+};
+
+// Batch transcription feeds the file this many times faster than it plays
+const BATCH_SPEED = 4;
+// After the last chunk: time for transcription to land, then a cap on waiting for translations
+const BATCH_SETTLE_MS = 3000;
+const BATCH_DRAIN_MAX_MS = 30000;
+
+// Moderation auto-approve choices; 0 waits for the operator
+const AUTO_APPROVE_OPTIONS = [0, 4000, 8000, 15000, 30000];
+
+// Read Aloud latency budget choices; 0 never catches up
+const MAX_LAG_OPTIONS = [0, 5000, 10000, 20000, 30000];
+
+const CATCH_UP_LABELS: Record<CatchUpPolicy, string> = {
+  speedUp: 'Speed Up',
+  skip: 'Skip',
+  summarize: 'Summarize',
+};
+
+const CATCH_UP_HINTS: Record<CatchUpPolicy, string> = {
+  speedUp: 'Play faster, keeping the pitch, until the delay is halved',
+  skip: 'Drop queued sentences once a newer one starts',
+  summarize: 'Hold new sentences and read out a short summary of them',
+};
+
+// Captions-only runs text sessions so no audio is generated at all
+const responseModalityFor = (mode: ListenerOutputMode): LiveResponseModality =>
+  mode === ListenerOutputMode.CAPTIONS_ONLY ? 'text' : 'audio';
+
+const RELAY_LABELS: Record<RelayKind, string> = {
+  [RelayKind.SUPABASE]: 'Cloud',
+  [RelayKind.BROADCAST_CHANNEL]: 'This Device',
+  [RelayKind.WEBSOCKET]: 'LAN',
+};
 
 const SpeakerIcon = ({ className }: { className?: string }) => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" className={className}>
@@ -60,47 +97,267 @@ const VolumeIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const GlossaryAlert = ({ missing }: { missing: string[] }) => (
+  <div className="text-[9px] font-black uppercase tracking-[0.15em] text-red-400" title="Glossary terms missing from the last translation">
+    Glossary · {missing.join(', ')}
+  </div>
+);
+
+const OutputDeviceSelect = ({ devices, value, onChange, disabled, title }: { devices: MediaDeviceInfo[]; value: string; onChange: (deviceId: string) => void; disabled?: boolean; title: string }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    disabled={disabled || !isOutputSelectionSupported()}
+    title={title}
+    className="max-w-[200px] truncate bg-transparent text-[10px] font-bold text-white/50 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors disabled:opacity-50"
+  >
+    <option value="" className="bg-gray-900">Default Output</option>
+    {value && !devices.some(d => d.deviceId === value) && <option value={value} className="bg-gray-900">Unavailable Device</option>}
+    {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((d, idx) => (
+      <option key={d.deviceId} value={d.deviceId} className="bg-gray-900">{d.label || `Output ${idx + 1}`}</option>
+    ))}
+  </select>
+);
+
+const SPEAKER_STATUS_LABELS: Record<RoomRoster['speaker'], string> = {
+  live: 'Speaker live',
+  paused: 'Speaker paused',
+  offline: 'Speaker offline',
+};
+
+const SPEAKER_STATUS_COLORS: Record<RoomRoster['speaker'], string> = {
+  live: 'text-green-400',
+  paused: 'text-amber-300',
+  offline: 'text-red-400',
+};
+
+/** The Speaker's view of who is in the room. */
+const ListenerRoster = ({ roster }: { roster: RoomRoster }) => (
+  <div className="flex flex-col gap-0.5 px-1 max-w-[200px]">
+    <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/60">
+      {roster.listeners} listening
+      {roster.health.lagging > 0 && <span className="text-amber-300" title="Listeners whose Read Aloud is behind">{roster.health.lagging} lagging</span>}
+      {roster.health.reconnecting > 0 && <span className="text-red-400" title="Listeners reconnecting to Gemini">{roster.health.reconnecting} reconnecting</span>}
+    </span>
+    {roster.languages.length > 0 && (
+      <span className="text-[9px] font-mono text-white/40 truncate" title={roster.languages.map(l => `${l.language}: ${l.count}`).join('\n')}>
+        {roster.languages.map(l => `${LANGUAGE_CODES[l.language] ?? l.language} ${l.count}`).join(' · ')}
+      </span>
+    )}
+  </div>
+);
+
+const toAudioBuffer = (ctx: BaseAudioContext, samples: Float32Array, sampleRate: number): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+};
+
 const CriptLatorWidget: React.FC = () => {
-  const supabase = useMemo(() => {
-    const url = process.env.SUPABASE_URL;
-    const key = process.env.SUPABASE_ANON_KEY;
-    if (!url || !key) return null;
-    return createClient(url, key);
+  const relay = useMemo(() => createRelayTransport(), []);
+  const transcriptStore = useMemo(() => new TranscriptStore(), []);
+  const liveBackend = useMemo(() => createLiveBackend(), []);
+  const telemetry = useMemo(() => new SessionTelemetry(), []);
+  const settingsStore = useMemo(() => {
+    const overrides = readSettingsOverrides();
+    // A room code in the URL hash means this is a shared Listener link; it should not make Listener the saved role
+    if (readRoomCodeFromHash()) overrides.sessionOnly = { role: UserRole.LISTENER };
+    return new SettingsStore(overrides);
   }, []);
+  const sampleLibrary = useMemo(() => new SampleLibrary(), []);
 
-  const [role, setRole] = useState<UserRole>(UserRole.SPEAKER);
+  // Persisted preferences; URL parameters override them for this load
+  const { settings } = useSyncExternalStore(settingsStore.subscribe, settingsStore.getSnapshot);
+  const { role, sourceLanguage, targetLanguage, selectedVoice, volume, extraLanguages, outputMode, sourceType, micDeviceId, vadEnabled, vadMarginDb, vadHangoverMs, conversationLanguages, pushToTalk, moderation, autoApproveMs, recordAudio, samplePacing, sampleLoop, outputDeviceId, monitorOriginal, originalDeviceId, maxLagMs, catchUpPolicy } = settings;
   const [isActive, setIsActive] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [targetLanguage, setTargetLanguage] = useState<SupportLanguage>(SupportLanguage.AUTO);
-  const [selectedVoice, setSelectedVoice] = useState<PrebuiltVoice>(PrebuiltVoice.KORE);
-  const [volume, setVolume] = useState<number>(0.8);
+  // Languages (or the Speaker session) currently recovering from a dropped socket
+  const [reconnecting, setReconnecting] = useState<Record<string, number>>({});
   const [inputCaption, setInputCaption] = useState<string>('');
   const [outputCaption, setOutputCaption] = useState<string>('');
   const [inputTimestamp, setInputTimestamp] = useState<string>('');
+  // Declared or detected language of the current source line
+  const [inputLanguage, setInputLanguage] = useState<string>('');
   const [outputTimestamp, setOutputTimestamp] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Listener fan-out: extra target languages interpreted alongside the primary one
+  const [sessionLanguages, setSessionLanguages] = useState<string[]>([]);
+  const [audioLanguage, setAudioLanguage] = useState<string>('');
+  const [outputCaptions, setOutputCaptions] = useState<Record<string, string>>({});
+
+  // Speaker capture sources
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [sourceLevels, setSourceLevels] = useState<Record<CaptureSourceKind, number>>({ mic: 1, system: 1 });
+  const [sourceMuted, setSourceMuted] = useState<Record<CaptureSourceKind, boolean>>({ mic: false, system: false });
+  const [sourceAnalysers, setSourceAnalysers] = useState<Partial<Record<CaptureSourceKind, AnalyserNode>>>({});
+
+  // Output routing: Read Aloud and the monitored original can each go to their own device
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const monitorRef = useRef<PcmMonitor | null>(null);
+
+  // Listener Read Aloud lag and how it catches up; the stretcher works on the routed language only.
+  // Built once from the first render's settings; the effect below keeps it in step with them.
+  const [latencyBudget] = useState(() => new LatencyBudget({ maxLagMs, policy: catchUpPolicy }));
+  const [lagMs, setLagMs] = useState(0);
+
+  // Room presence while a session is live
+  const presenceRef = useRef<RelayPresenceHandle | null>(null);
+  const [roster, setRoster] = useState<RoomRoster | null>(null);
+  const stretcherRef = useRef<TimeStretcher | null>(null);
+  // The next routed audio chunk starts a new sentence
+  const turnStartedRef = useRef(true);
+  // Languages whose turn was interrupted; a turnComplete for that same turn must not close the next one
+  const interruptedRef = useRef(new Set<string>());
+
+  // Voice activity gating (Speaker)
+  const [isSpeechActive, setIsSpeechActive] = useState(false);
+
+  // Conversation: which side holds its talk button, and who spoke last
+  const [talkingSide, setTalkingSide] = useState<number | null>(null);
+  const talkingSideRef = useRef<number | null>(null);
+  const lastSideRef = useRef(1);
+
+  // Speaker moderation: finals wait for approval before they are broadcast
+  const [moderationQueue, setModerationQueue] = useState<ModerationQueue | null>(null);
+  const moderationRef = useRef<ModerationQueue | null>(null);
+
+  // Session recording: tracks of the last session, kept for the archive download
+  const recordersRef = useRef<TrackRecorder[]>([]);
+  const [recordedTracks, setRecordedTracks] = useState<RecordedTrack[]>([]);
+  const [isSavingArchive, setIsSavingArchive] = useState(false);
+  const sessionRoomCodeRef = useRef<string | null>(null);
+
+  // File source (Speaker): fed at real-time pace to the room, or faster for a batch transcript
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [batchMode, setBatchMode] = useState(false);
+  const [fileProgress, setFileProgress] = useState<number | null>(null);
+  const feederRef = useRef<PcmFileFeeder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set while a batch run is going; counts interpretations still to come back
+  const batchRef = useRef<{ pending: number } | null>(null);
+
+  // Terminology: this device's list plus, for Listeners, the one shared by the room's Speaker
+  const [localGlossary, setLocalGlossary] = useState<GlossaryEntry[]>(() => loadLocalGlossary());
+  const [roomGlossary, setRoomGlossary] = useState<GlossaryEntry[]>([]);
+  const [showGlossary, setShowGlossary] = useState(false);
+  // Expected renderings missing from the latest finished translation, per language
+  const [glossaryAlerts, setGlossaryAlerts] = useState<Record<string, string[]>>({});
+
+  // Broadcast room state
+  const [room, setRoom] = useState<Room | null>(null);
+  const [roomCodeInput, setRoomCodeInput] = useState<string>(() => readRoomCodeFromHash());
+  const [isJoiningRoom, setIsJoiningRoom] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const roomRef = useRef<Room | null>(null);
+  const ownedRoomRef = useRef<Room | null>(null);
 
-  // Sample playback state
-  const [selectedSampleIndex, setSelectedSampleIndex] = useState<number>(-1);
+  // A conversation is two people at one device: microphone only
+  const captureKinds = sourceKindsFor(role === UserRole.CONVERSATION ? SourceType.MIC : sourceType);
+  const isFileSource = role === UserRole.SPEAKER && sourceType === SourceType.FILE;
+
+  // Sample playback (Listener rehearsal); room sync pauses while a sample is loaded
   const [isSamplePlaying, setIsSamplePlaying] = useState(false);
-  const sampleTimerRef = useRef<number | null>(null);
-  const currentSentenceIdxRef = useRef(0);
+  const [samplePlayer, setSamplePlayer] = useState<SamplePlayer | null>(null);
+  const samplePlayerRef = useRef<SamplePlayer | null>(null);
 
   const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputGainRef = useRef<GainNode | null>(null);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const nextStartTimeRef = useRef<number>(0);
+  const playbackRef = useRef<PlaybackQueue | null>(null);
   const serviceRef = useRef<GeminiLiveService | null>(null);
-  const activeStreamsRef = useRef<MediaStream[]>([]);
+  const poolRef = useRef<InterpreterPool | null>(null);
+  const audioLanguageRef = useRef<string>('');
+  const outputModeRef = useRef<ListenerOutputMode>(outputMode);
+  const mixerRef = useRef<SourceMixer | null>(null);
+  const aggregatorRef = useRef<SegmentAggregator | null>(null);
+  const captureRef = useRef<PcmCapture | null>(null);
+  const gateRef = useRef<SpeechGate | null>(null);
+  const glossaryRef = useRef<GlossaryEntry[]>([]);
+
+  const glossary = useMemo(
+    () => role === UserRole.LISTENER ? mergeGlossaries(roomGlossary, localGlossary) : localGlossary,
+    [role, roomGlossary, localGlossary]
+  );
 
   const formatTime = () => {
     const now = new Date();
     return now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
   };
 
+  // Device labels only appear once capture permission has been granted, so refresh on changes too
+  useEffect(() => {
+    const refresh = () => {
+      listInputDevices().then(setInputDevices).catch(() => {});
+      listOutputDevices().then(setOutputDevices).catch(() => {});
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  // Per-source gain and mute apply live to the mix graph
+  useEffect(() => {
+    const mixer = mixerRef.current;
+    if (!mixer) return;
+    (Object.keys(sourceLevels) as CaptureSourceKind[]).forEach(kind => {
+      mixer.setLevel(kind, sourceLevels[kind]);
+      mixer.setMuted(kind, sourceMuted[kind]);
+    });
+  }, [sourceLevels, sourceMuted, sourceAnalysers]);
+
+  // VAD thresholds apply live
+  useEffect(() => {
+    if (!gateRef.current) return;
+    gateRef.current.setEnabled(vadEnabled);
+    gateRef.current.updateOptions({ energyMarginDb: vadMarginDb, hangoverMs: vadHangoverMs });
+  }, [vadEnabled, vadMarginDb, vadHangoverMs, isActive]);
+
+  useEffect(() => saveLocalGlossary(localGlossary), [localGlossary]);
+
+  useEffect(() => moderationRef.current?.setAutoApproveMs(autoApproveMs), [autoApproveMs]);
+
+  useEffect(() => latencyBudget.update({ maxLagMs, policy: catchUpPolicy }), [latencyBudget, maxLagMs, catchUpPolicy]);
+
+  useEffect(() => {
+    samplePlayerRef.current?.setPacing(samplePacing);
+    samplePlayerRef.current?.setLoop(sampleLoop);
+  }, [samplePacing, sampleLoop]);
+
+  // Running sessions pick the glossary up on their next reconnect; the post-check uses it at once
+  useEffect(() => {
+    glossaryRef.current = glossary;
+    serviceRef.current?.setGlossary(glossary);
+    poolRef.current?.setGlossary(glossary);
+  }, [glossary]);
+
+  // The Speaker shares their glossary with everyone in the room they own
+  useEffect(() => {
+    if (role !== UserRole.SPEAKER || !relay || !room || ownedRoomRef.current !== room) return;
+    relay.updateGlossary(room, localGlossary).catch((err) => console.warn('Relay glossary update failed', err));
+  }, [role, relay, room, localGlossary]);
+
+  // Output mode switches apply mid-session; leaving audio modes silences what is queued
+  useEffect(() => {
+    outputModeRef.current = outputMode;
+    poolRef.current?.setResponseModality(responseModalityFor(outputMode));
+    if (outputMode === ListenerOutputMode.CAPTIONS_ONLY) stopPlayback();
+  }, [outputMode]);
+
+  // Output devices switch live; a missing one leaves audio on the current device
+  useEffect(() => {
+    if (outputAudioCtxRef.current) setOutputDevice(outputAudioCtxRef.current, outputDeviceId).catch((err) => setError(err.message));
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    monitorRef.current?.setDevice(originalDeviceId).catch((err) => setError(err.message));
+  }, [originalDeviceId]);
+
   // Update volume in real-time when the state changes
   useEffect(() => {
     if (outputGainRef.current) {
@@ -108,39 +365,204 @@ const CriptLatorWidget: React.FC = () => {
     }
   }, [volume]);
 
-  // Supabase Sync for Listeners: Watches for new transcriptions from the Speaker
-  useEffect(() => {
-    if (role !== UserRole.LISTENER || !isActive || !supabase || isSamplePlaying) return;
-
-    const channel = supabase
-      .channel('criptlator_broadcast')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'transcriptions' }, (payload) => {
-        const text = payload.new.text;
-        if (text && serviceRef.current) {
-          setInputCaption(text);
-          setInputTimestamp(formatTime());
-          serviceRef.current.sendText(text);
-        }
-      })
-      .subscribe();
+  const stopPlayback = () => {
+    playbackRef.current?.stop();
+    stretcherRef.current?.reset();
+    telemetry.sampleQueueDepth(0);
+  };
 
-    return () => { 
-      if (channel) supabase.removeChannel(channel); 
-    };
-  }, [role, isActive, supabase, isSamplePlaying]);
+  const playAudioChunk = async (base64: string, language: string) => {
+    const ctx = outputAudioCtxRef.current;
+    if (!ctx || !playbackRef.current) return;
+    const receivedAt = Date.now();
+    const decoded = await decodeAudioData(decode(base64), ctx, 24000, 1);
+    const queue = playbackRef.current;
+    if (!queue) return;
+    const buffer = role === UserRole.LISTENER ? applyLatencyBudget(decoded, ctx, queue) : decoded;
+    if (!buffer) return;
+    const startAt = queue.play(buffer);
+    telemetry.playbackScheduled(language, Date.now() - receivedAt + (startAt - ctx.currentTime) * 1000);
+    telemetry.sampleQueueDepth(queue.queuedDuration());
+  };
+
+  /**
+   * Catches the Listener's Read Aloud up once it is over budget: a new sentence
+   * cuts off stale ones under `skip`, and `speedUp` time-stretches every chunk.
+   * Null while the stretcher is still holding back less than a frame.
+   */
+  const applyLatencyBudget = (buffer: AudioBuffer, ctx: AudioContext, queue: PlaybackQueue): AudioBuffer | null => {
+    if (turnStartedRef.current) {
+      turnStartedRef.current = false;
+      if (latencyBudget.shouldSkip(queue.queuedDuration() * 1000)) {
+        stopPlayback();
+        telemetry.increment('skippedTurns');
+      }
+    }
+    const stretcher = stretcherRef.current ?? (stretcherRef.current = new TimeStretcher({ sampleRate: buffer.sampleRate }));
+    stretcher.setRate(latencyBudget.rateFor(queue.queuedDuration() * 1000));
+    const samples = stretcher.process(buffer.getChannelData(0));
+    if (samples.length === 0) return null;
+    return samples === buffer.getChannelData(0) ? buffer : toAudioBuffer(ctx, samples, buffer.sampleRate);
+  };
+
+  // The stretcher holds back a few ms of each sentence until it ends
+  const flushStretcher = () => {
+    const ctx = outputAudioCtxRef.current;
+    const tail = stretcherRef.current?.flush();
+    if (ctx && tail && tail.length > 0) playbackRef.current?.play(toAudioBuffer(ctx, tail, 24000));
+  };
+
+  /** Interprets lines held back while behind as one short summary in `language`. */
+  const summarize = (lines: HeldLine[], language: string) => {
+    if (!poolRef.current?.languages.includes(language)) return;
+    // The summary pairs with the last line it covers
+    transcriptStore.expectTranslation(lines[lines.length - 1].id, [language]);
+    telemetry.interpretIssued(language, lines[lines.length - 1].id);
+    telemetry.increment('summarizedLines', lines.length);
+    poolRef.current.sendText(lines.map(l => l.text).join(' '), [language], 'summarize');
+  };
+
+  /** Sends a source line to every interpretation session and records it in the transcript. */
+  const interpret = (id: string, text: string, sourceLanguage?: string) => {
+    if (!poolRef.current) return;
+    const languages = poolRef.current.languages;
+    // Languages the source is already in get the original instead of an interpretation
+    const same = sourceLanguage ? languages.filter(l => isSameLanguage(sourceLanguage, LANGUAGE_CODES[l] ?? l)) : [];
+    same.forEach(language => showOriginal(id, text, language));
+    const targets = languages.filter(l => !same.includes(l));
+    // Behind on Read Aloud, the routed language's lines may wait to be summarized together
+    const routed = audioLanguageRef.current;
+    const isHeld = role === UserRole.LISTENER && targets.includes(routed)
+      && latencyBudget.hold({ id, text }, (playbackRef.current?.queuedDuration() ?? 0) * 1000);
+    const sendNow = isHeld ? targets.filter(l => l !== routed) : targets;
+    if (sendNow.length > 0) requestInterpretation(id, text, sendNow);
+  };
+
+  const requestInterpretation = (id: string, text: string, languages: string[]) => {
+    if (!poolRef.current) return;
+    transcriptStore.expectTranslation(id, languages);
+    if (batchRef.current) batchRef.current.pending += languages.length;
+    languages.forEach(language => telemetry.interpretIssued(language, id));
+    poolRef.current.sendText(text, languages);
+  };
+
+  const showOriginal = (id: string, text: string, language: string) => {
+    transcriptStore.addOriginal(id, language);
+    setOutputCaptions(prev => ({ ...prev, [language]: text }));
+    setGlossaryAlerts(prev => ({ ...prev, [language]: [] }));
+    if (language === audioLanguageRef.current) {
+      setOutputCaption(text);
+      setOutputTimestamp(formatTime());
+    }
+  };
+
+  /** Closes the streamed translation and flags glossary terms it failed to render. */
+  const finishTranslation = (language: string) => {
+    if (batchRef.current) batchRef.current.pending = Math.max(0, batchRef.current.pending - 1);
+    const record = transcriptStore.completeTranslation(language);
+    const source = record?.sourceId ? transcriptStore.getRecord(record.sourceId) : undefined;
+    if (!record || !source) return;
+    // Batch translations take their source's place in the file rather than when they arrived
+    if (batchRef.current) transcriptStore.annotate(record.id, { startTime: source.startTime, endTime: source.endTime });
+    const missing = checkGlossary(source.text, record.text, glossaryForLanguage(glossaryRef.current, language)).map(v => v.expected);
+    if (missing.length > 0) transcriptStore.annotate(record.id, { glossaryViolations: missing });
+    setGlossaryAlerts(prev => ({ ...prev, [language]: missing }));
+  };
+
+  // Only one language plays aloud; switching drops whatever is queued from the previous one
+  const routeAudioTo = (language: string) => {
+    if (language === audioLanguageRef.current) return;
+    // Lines held for a summary still belong to the language they were held from
+    const held = latencyBudget.release(0);
+    if (held.length > 0) summarize(held, audioLanguageRef.current);
+    audioLanguageRef.current = language;
+    setAudioLanguage(language);
+    setOutputCaption(outputCaptions[language] || '');
+    stopPlayback();
+  };
+
+  // Picking the other side's language swaps the two
+  const setConversationLanguage = (side: number, language: SupportLanguage) => {
+    settingsStore.set('conversationLanguages', ([own, guest]) => {
+      if (side === 0) return language === guest ? [guest, own] : [language, guest];
+      return language === own ? [guest, own] : [own, language];
+    });
+  };
+
+  // Push-to-talk: holding a side's button opens the mic for that side and cuts off the read-aloud
+  const startTalking = (side: number) => {
+    talkingSideRef.current = side;
+    lastSideRef.current = side;
+    setTalkingSide(side);
+    stopPlayback();
+  };
+
+  const stopTalking = (side: number) => {
+    if (talkingSideRef.current !== side) return;
+    talkingSideRef.current = null;
+    setTalkingSide(null);
+    serviceRef.current?.endAudioStream();
+    aggregatorRef.current?.requestBreak();
+  };
 
   const stopSession = useCallback(() => {
     setIsActive(false);
     setIsConnecting(false);
+    setReconnecting({});
+    talkingSideRef.current = null;
+    setTalkingSide(null);
     setIsSamplePlaying(false);
-    if (sampleTimerRef.current) window.clearInterval(sampleTimerRef.current);
+    samplePlayerRef.current?.stop();
+    samplePlayerRef.current = null;
+    setSamplePlayer(null);
+    feederRef.current?.cancel();
+    feederRef.current = null;
+    latencyBudget.reset();
+    stretcherRef.current = null;
+    turnStartedRef.current = true;
+    batchRef.current = null;
+    setFileProgress(null);
+
+    // Publish the sentence still in flight before the room goes away
+    if (aggregatorRef.current) {
+      aggregatorRef.current.flush();
+      aggregatorRef.current.dispose();
+      aggregatorRef.current = null;
+    }
+    if (moderationRef.current) {
+      moderationRef.current.flush();
+      moderationRef.current = null;
+      setModerationQueue(null);
+    }
     
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    gateRef.current = null;
+    setIsSpeechActive(false);
     if (serviceRef.current) serviceRef.current.disconnect();
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-    activeStreamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
-    activeStreamsRef.current = [];
+    if (poolRef.current) {
+      poolRef.current.stop();
+      poolRef.current = null;
+    }
+    stopPlayback();
+    playbackRef.current = null;
+    // Recorders take their last slice before the graphs they tap are torn down
+    if (recordersRef.current.length > 0) {
+      const recorders = recordersRef.current;
+      recordersRef.current = [];
+      Promise.all(recorders.map(r => r.stop())).then(setRecordedTracks).catch((err) => console.warn('Recording failed', err));
+    }
+    if (mixerRef.current) {
+      mixerRef.current.stop();
+      mixerRef.current = null;
+    }
+    setSourceAnalysers({});
+    if (monitorRef.current) {
+      monitorRef.current.close();
+      monitorRef.current = null;
+    }
     if (inputAudioCtxRef.current) {
       inputAudioCtxRef.current.close().catch(() => {});
       inputAudioCtxRef.current = null;
@@ -149,95 +571,467 @@ const CriptLatorWidget: React.FC = () => {
       outputAudioCtxRef.current.close().catch(() => {});
       outputAudioCtxRef.current = null;
     }
-  }, []);
+    if (window.criptlatorOutputStream) publishOutputStream(null);
+    // Speakers own their room: closing the session closes it for every Listener
+    if (ownedRoomRef.current && relay) {
+      relay.closeRoom(ownedRoomRef.current).catch(() => {});
+      ownedRoomRef.current = null;
+      roomRef.current = null;
+      setRoom(null);
+    }
+  }, [relay]);
 
-  const playNextSampleSentence = useCallback(() => {
-    if (selectedSampleIndex === -1) return;
-    const sample = SAMPLES[selectedSampleIndex];
-    const sentence = sample.sentences[currentSentenceIdxRef.current];
-    
-    setInputCaption(sentence);
-    setInputTimestamp(formatTime());
-    if (serviceRef.current) {
-      serviceRef.current.sendText(sentence);
+  // Room Sync for Listeners: Watches for new transcriptions from the Speaker of the joined room
+  useEffect(() => {
+    if (role !== UserRole.LISTENER || !isActive || !relay || !room || isSamplePlaying) return;
+
+    // Partials only update the caption; finals are interpreted once, in seq order
+    const sequencer = new SegmentSequencer({
+      onPartial: (segment) => {
+        setInputCaption(segment.text);
+        setInputTimestamp(formatTime());
+        setInputLanguage(segment.sourceLanguage);
+      },
+      onFinal: (segment) => {
+        if (!poolRef.current) return;
+        setInputCaption(segment.text);
+        setInputTimestamp(formatTime());
+        setInputLanguage(segment.sourceLanguage);
+        transcriptStore.addSource({ ...segment, language: segment.sourceLanguage });
+        interpret(segment.id, segment.text, segment.sourceLanguage);
+      },
+      onDrop: (_segment, reason) => telemetry.increment(reason === 'duplicate' ? 'duplicateSegments' : 'staleSegments'),
+    });
+
+    const unsubscribe = relay.subscribe(room, {
+      onSegment: (segment) => {
+        telemetry.segmentReceived(segment);
+        sequencer.push(segment);
+      },
+      onRoomClosed: () => {
+        roomRef.current = null;
+        setRoom(null);
+        setError('Room closed by the speaker');
+        stopSession();
+      },
+      onGlossary: setRoomGlossary,
+    });
+
+    return () => {
+      unsubscribe();
+      sequencer.dispose();
+    };
+  }, [role, isActive, relay, room, isSamplePlaying, stopSession, transcriptStore, telemetry]);
+
+  // The audio queue drains between chunks; sample it while diagnostics are open
+  useEffect(() => {
+    if (!showDiagnostics || !isActive) return;
+    const timer = window.setInterval(() => {
+      if (playbackRef.current) telemetry.sampleQueueDepth(playbackRef.current.queuedDuration());
+    }, 500);
+    return () => window.clearInterval(timer);
+  }, [showDiagnostics, isActive, telemetry]);
+
+  // Listener lag readout; held lines go out as a summary once Read Aloud has caught up
+  useEffect(() => {
+    if (role !== UserRole.LISTENER || !isActive) return;
+    const timer = window.setInterval(() => {
+      const lag = (playbackRef.current?.queuedDuration() ?? 0) * 1000;
+      // Only whole tenths above a second show, so the widget does not re-render on every sample
+      setLagMs(lag < 1000 ? 0 : Math.round(lag / 100) * 100);
+      const held = latencyBudget.release(lag);
+      if (held.length > 0) summarize(held, audioLanguageRef.current);
+    }, 500);
+    return () => {
+      window.clearInterval(timer);
+      setLagMs(0);
+    };
+  }, [role, isActive, latencyBudget]);
+
+  // What this client tells the room: Speakers whether their audio gets through, Listeners how they keep up
+  const isLagging = latencyBudget.isOverBudget(lagMs);
+  const isSessionReconnecting = Object.keys(reconnecting).length > 0;
+  const allSourcesMuted = sourceKindsFor(sourceType).length > 0 && sourceKindsFor(sourceType).every(kind => sourceMuted[kind]);
+  const presenceState = useMemo<RelayPresenceState>(() => role === UserRole.SPEAKER
+    ? { role, languages: [sourceLanguage], status: allSourcesMuted || isSessionReconnecting ? 'paused' : 'live' }
+    : {
+      role,
+      languages: [audioLanguage, ...sessionLanguages.filter(l => l !== audioLanguage)].filter(Boolean),
+      health: isSessionReconnecting ? 'reconnecting' : isLagging ? 'lagging' : 'good',
+    }, [role, sourceLanguage, allSourcesMuted, isSessionReconnecting, audioLanguage, sessionLanguages, isLagging]);
+  const presenceStateRef = useRef(presenceState);
+  presenceStateRef.current = presenceState;
+
+  // Announce this client in the room while a session is live
+  useEffect(() => {
+    if (!isActive || !relay || !room) return;
+    const presence = relay.trackPresence(room, presenceStateRef.current, (peers) => setRoster(summarizeRoster(peers)));
+    presenceRef.current = presence;
+    return () => {
+      presence.leave();
+      presenceRef.current = null;
+      setRoster(null);
+    };
+  }, [role, isActive, relay, room]);
+
+  useEffect(() => presenceRef.current?.update(presenceState), [presenceState]);
+
+  // Close the relay connection with the widget
+  useEffect(() => () => { relay?.close(); }, [relay]);
+
+  // Best effort: close the Speaker's room if the tab goes away mid-broadcast
+  useEffect(() => {
+    const handleUnload = () => {
+      if (ownedRoomRef.current && relay) relay.closeRoom(ownedRoomRef.current);
+    };
+    window.addEventListener('beforeunload', handleUnload);
+    return () => window.removeEventListener('beforeunload', handleUnload);
+  }, [relay]);
+
+  const joinRoom = async (): Promise<Room | null> => {
+    if (!relay) {
+      setError('Broadcast relay is not configured');
+      return null;
+    }
+    try {
+      setIsJoiningRoom(true);
+      setError(null);
+      const joined = await relay.joinRoom(roomCodeInput);
+      roomRef.current = joined;
+      setRoom(joined);
+      setRoomGlossary(joined.glossary ?? []);
+      window.location.hash = `room=${joined.code}`;
+      return joined;
+    } catch (err: any) {
+      roomRef.current = null;
+      setRoom(null);
+      setError(err.message || 'Room lookup failed');
+      return null;
+    } finally {
+      setIsJoiningRoom(false);
     }
+  };
 
-    currentSentenceIdxRef.current = (currentSentenceIdxRef.current + 1) % sample.sentences.length;
-  }, [selectedSampleIndex]);
-
-  const toggleSamplePlayback = () => {
-    if (!isActive) return;
-    if (isSamplePlaying) {
-      setIsSamplePlaying(false);
-      if (sampleTimerRef.current) window.clearInterval(sampleTimerRef.current);
-    } else {
-      if (selectedSampleIndex === -1) {
-        setError("Please select a sample first.");
-        return;
-      }
-      setIsSamplePlaying(true);
-      currentSentenceIdxRef.current = 0;
-      playNextSampleSentence();
-      // Interpretation cycles every 6 seconds for better read-aloud flow
-      sampleTimerRef.current = window.setInterval(playNextSampleSentence, 6000);
+  const copyRoomLink = () => {
+    if (!room) return;
+    navigator.clipboard.writeText(buildRoomLink(room.code)).then(() => {
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  // Subtitle overlay for OBS / projectors, in this Listener's target language
+  const copyOverlayLink = () => {
+    if (!room) return;
+    const language = targetLanguage === SupportLanguage.AUTO ? resolveAutoLanguage() : targetLanguage;
+    navigator.clipboard.writeText(buildOverlayLink(room.code, LANGUAGE_CODES[language] ?? language)).then(() => {
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  const playSampleLine = (script: SampleScript, line: SampleLine) => {
+    setInputCaption(line.text);
+    setInputTimestamp(formatTime());
+    setInputLanguage(script.language);
+    if (!poolRef.current) return;
+    const now = Date.now();
+    const id = crypto.randomUUID();
+    transcriptStore.addSource({ id, text: line.text, timestamp: now, startTime: now, endTime: now, language: script.language });
+    interpret(id, line.text, script.language);
+    // The routed language gets the original, so there is no interpretation to wait for
+    const routed = audioLanguageRef.current;
+    if (isSameLanguage(script.language, LANGUAGE_CODES[routed] ?? routed)) samplePlayerRef.current?.lineFinished();
+  };
+
+  const startSamplePlayback = () => {
+    if (!isActive || samplePlayerRef.current) return;
+    const script = sampleLibrary.get(settings.sampleId);
+    if (!script) {
+      setError("Please select a sample first.");
+      return;
     }
+    const player = new SamplePlayer(script, {
+      pacing: samplePacing,
+      loop: sampleLoop,
+      onLine: (line) => playSampleLine(script, line),
+      onEnd: () => stopSamplePlayback(),
+    });
+    samplePlayerRef.current = player;
+    setSamplePlayer(player);
+    setIsSamplePlaying(true);
+    player.play();
+  };
+
+  const stopSamplePlayback = () => {
+    samplePlayerRef.current?.stop();
+    samplePlayerRef.current = null;
+    setSamplePlayer(null);
+    setIsSamplePlaying(false);
+  };
+
+  // Transcription and translation trail the fed audio; the run closes once both are in
+  const finishBatch = (batch: { pending: number }) => {
+    window.setTimeout(() => {
+      // Cancelled in the meantime
+      if (batchRef.current !== batch) return;
+      aggregatorRef.current?.flush();
+      const deadline = Date.now() + BATCH_DRAIN_MAX_MS;
+      const poll = window.setInterval(() => {
+        if (batchRef.current === batch && batch.pending > 0 && Date.now() < deadline) return;
+        window.clearInterval(poll);
+        if (batchRef.current !== batch) return;
+        stopSession();
+        setShowHistory(true);
+      }, 250);
+    }, BATCH_SETTLE_MS);
   };
 
   const startSession = async () => {
+    if (isFileSource && !sourceFile) {
+      setError('Choose an audio or video file first');
+      return;
+    }
+    const isBatch = isFileSource && batchMode;
     try {
       setIsConnecting(true);
       setError(null);
       setInputCaption('');
       setOutputCaption('');
       setInputTimestamp('');
+      setInputLanguage('');
       setOutputTimestamp('');
+      setGlossaryAlerts({});
+      transcriptStore.startSession();
+      interruptedRef.current.clear();
+      telemetry.startSession();
+      setRecordedTracks([]);
+      const fileSamples = isFileSource && sourceFile ? await decodeAudioFile(sourceFile) : null;
+
+      if (role === UserRole.LISTENER && relay && roomCodeInput && !roomRef.current) {
+        const joined = await joinRoom();
+        if (!joined) {
+          setIsConnecting(false);
+          return;
+        }
+      }
+
+      // A batch run only produces a transcript, so no room is opened
+      if (role === UserRole.SPEAKER && relay && !isBatch) {
+        const opened = await relay.openRoom();
+        ownedRoomRef.current = opened;
+        roomRef.current = opened;
+        // The join link is shared through "Copy Link"; in the Speaker's own URL it would reopen them as a Listener
+        setRoom(opened);
+      }
+      sessionRoomCodeRef.current = roomRef.current?.code ?? null;
+
+      const shouldRecord = recordAudio && isRecordingSupported();
+      const startRecording = (node: AudioNode, kind: RecordedTrackKind) => {
+        const recorder = new TrackRecorder(node, kind);
+        recorder.start();
+        recordersRef.current.push(recorder);
+      };
 
       const resolvedLang = targetLanguage === SupportLanguage.AUTO ? resolveAutoLanguage() : targetLanguage;
-      serviceRef.current = new GeminiLiveService(process.env.API_KEY || '', resolvedLang);
-      
-      await serviceRef.current.connect({
+      const sessionCallbacks = {
         onOpen: () => {
           setIsConnecting(false);
           setIsActive(true);
         },
-        onInputTranscription: (text) => {
-          setInputCaption(text);
-          setInputTimestamp(formatTime());
-          if (role === UserRole.SPEAKER && supabase) {
-            supabase.from('transcriptions').insert([{ text }]).then();
-          }
-        },
-        onOutputTranscription: (text) => {
-          setOutputCaption(text);
-          setOutputTimestamp(formatTime());
+        onReconnecting: (key: string, attempt: number) => {
+          telemetry.increment('reconnectAttempts');
+          setReconnecting(prev => ({ ...prev, [key]: attempt }));
         },
-        onAudioData: async (base64) => {
-          if (role === UserRole.SPEAKER) return; 
-
-          if (!outputAudioCtxRef.current) return;
-          const buffer = await decodeAudioData(decode(base64), outputAudioCtxRef.current, 24000, 1);
-          const source = outputAudioCtxRef.current.createBufferSource();
-          source.buffer = buffer;
-          source.connect(outputGainRef.current!);
-          
-          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioCtxRef.current.currentTime);
-          source.start(nextStartTimeRef.current);
-          nextStartTimeRef.current += buffer.duration;
-          
-          sourcesRef.current.add(source);
-          source.onended = () => sourcesRef.current.delete(source);
-        },
-        onInterrupted: () => {
-          sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-          sourcesRef.current.clear();
-          if (outputAudioCtxRef.current) nextStartTimeRef.current = outputAudioCtxRef.current.currentTime;
+        onReconnected: (key: string) => {
+          setReconnecting(({ [key]: _done, ...rest }) => rest);
         },
-        onError: (err) => {
+        onError: (err: any) => {
           setError(err.message || 'Network error');
           stopSession();
         },
         onClose: () => stopSession()
-      }, selectedVoice);
+      };
+
+      // A conversation reads every language aloud; a Listener only the routed one
+      const speaksAll = role === UserRole.CONVERSATION;
+      const poolCallbacks: InterpreterPoolCallbacks = {
+        onOpen: sessionCallbacks.onOpen,
+        onOutputTranscription: (language, text) => {
+          telemetry.outputText(language);
+          interruptedRef.current.delete(language);
+          transcriptStore.appendTranslation(text, language);
+          const caption = transcriptStore.getLiveTranslation(language)?.text ?? text;
+          setOutputCaptions(prev => ({ ...prev, [language]: caption }));
+          if (speaksAll || language === audioLanguageRef.current) {
+            setOutputCaption(caption);
+            setOutputTimestamp(formatTime());
+          }
+        },
+        onAudioData: (language, base64) => {
+          telemetry.outputAudio(language);
+          const isRouted = language === audioLanguageRef.current && outputModeRef.current !== ListenerOutputMode.CAPTIONS_ONLY;
+          if (speaksAll || isRouted) playAudioChunk(base64, language);
+        },
+        onTurnComplete: (language) => {
+          telemetry.turnEnded(language);
+          if (!interruptedRef.current.delete(language)) finishTranslation(language);
+          if (language === audioLanguageRef.current) {
+            flushStretcher();
+            turnStartedRef.current = true;
+          }
+          // Sample pacing waits for the routed language's read-aloud to drain
+          if (language === audioLanguageRef.current) samplePlayerRef.current?.lineFinished((playbackRef.current?.queuedDuration() ?? 0) * 1000);
+        },
+        onInterrupted: (language) => {
+          telemetry.turnEnded(language);
+          interruptedRef.current.add(language);
+          finishTranslation(language);
+          if (language === audioLanguageRef.current) turnStartedRef.current = true;
+          if (speaksAll || language === audioLanguageRef.current) stopPlayback();
+        },
+        onReconnecting: (language, attempt) => sessionCallbacks.onReconnecting(language, attempt),
+        onReconnected: (language) => sessionCallbacks.onReconnected(language),
+        onError: (_language, err) => sessionCallbacks.onError(err),
+        onClose: () => sessionCallbacks.onClose(),
+      };
+
+      if (role === UserRole.SPEAKER) {
+        const publish = (segment: TranscriptSegment) => {
+          if (!relay || !roomRef.current) return;
+          telemetry.increment('segmentsPublished');
+          relay.publishSegment(roomRef.current, { ...segment, sentAt: Date.now() }).catch((err) => console.warn('Relay publish failed', err));
+        };
+        // Approved finals are numbered afresh so dropped or merged lines leave no seq gaps for Listeners
+        let approvedSeq = 0;
+        const queue = moderation && !isBatch ? new ModerationQueue({
+          autoApproveMs,
+          onApprove: (segment, originalText) => {
+            transcriptStore.addSource({ ...segment, language: segment.sourceLanguage, ...(segment.text !== originalText && { originalText }) });
+            approvedSeq += 1;
+            publish({ ...segment, seq: approvedSeq });
+          },
+        }) : null;
+        moderationRef.current = queue;
+        setModerationQueue(queue);
+
+        // Batch runs translate each sentence in a text session, keyed to its source line
+        if (isBatch) {
+          audioLanguageRef.current = resolvedLang;
+          setAudioLanguage(resolvedLang);
+          poolRef.current = new InterpreterPool(process.env.API_KEY || '', selectedVoice, liveBackend);
+          poolRef.current.setGlossary(glossaryRef.current);
+          poolRef.current.setResponseModality('text');
+          await poolRef.current.start([resolvedLang], poolCallbacks);
+          batchRef.current = { pending: 0 };
+        }
+
+        const isAutoSource = sourceLanguage === SupportLanguage.AUTO;
+        // Without a declared language each segment is tagged with a running detection
+        const detector = isAutoSource ? new SourceLanguageDetector() : null;
+        serviceRef.current = new GeminiLiveService(process.env.API_KEY || '', resolvedLang, { backend: liveBackend });
+        serviceRef.current.setGlossary(glossaryRef.current);
+        serviceRef.current.setSourceLanguage(isAutoSource ? null : sourceLanguage);
+        aggregatorRef.current = new SegmentAggregator({
+          speakerId: crypto.randomUUID(),
+          sourceLanguage: isAutoSource ? UNDETERMINED_LANGUAGE : LANGUAGE_CODES[sourceLanguage] ?? sourceLanguage,
+          onSegment: (raw) => {
+            const segment = detector ? { ...raw, sourceLanguage: detector.observe(raw.text, raw.isFinal) } : raw;
+            setInputCaption(segment.text);
+            setInputTimestamp(formatTime());
+            setInputLanguage(segment.sourceLanguage);
+            if (isBatch) {
+              if (!segment.isFinal) return;
+              // Timed by position in the file, so exported cues line up with it rather than with the faster feed
+              const feeder = feederRef.current;
+              const { sessionStart } = transcriptStore.getSnapshot();
+              const timed = feeder ? { ...segment, startTime: sessionStart + feeder.offsetAt(segment.startTime), endTime: sessionStart + feeder.offsetAt(segment.endTime) } : segment;
+              transcriptStore.addSource({ ...timed, language: segment.sourceLanguage });
+              interpret(segment.id, segment.text, segment.sourceLanguage);
+              return;
+            }
+            // Under moderation partials stay local and finals wait in the queue
+            if (queue) {
+              if (segment.isFinal) queue.enqueue(segment);
+              return;
+            }
+            if (segment.isFinal) transcriptStore.addSource({ ...segment, language: segment.sourceLanguage });
+            publish(segment);
+          },
+        });
+
+        await serviceRef.current.connect({
+          ...sessionCallbacks,
+          onInputTranscription: (text) => {
+            telemetry.inputTranscribed();
+            aggregatorRef.current?.push(text);
+          },
+          onOutputTranscription: (text) => {
+            // In a batch run the caption follows the per-sentence translations instead
+            if (isBatch) return;
+            setOutputCaption(text);
+            setOutputTimestamp(formatTime());
+          },
+          onAudioData: () => {},
+          onTurnComplete: () => aggregatorRef.current?.flush(),
+          onInterrupted: () => {},
+          onReconnecting: (attempt) => sessionCallbacks.onReconnecting(resolvedLang, attempt),
+          onReconnected: () => sessionCallbacks.onReconnected(resolvedLang),
+        }, selectedVoice);
+      } else if (role === UserRole.CONVERSATION) {
+        const codes = conversationLanguages.map(l => LANGUAGE_CODES[l] ?? l);
+        setSessionLanguages([...conversationLanguages]);
+        setOutputCaptions({});
+
+        poolRef.current = new InterpreterPool(process.env.API_KEY || '', selectedVoice, liveBackend);
+        poolRef.current.setGlossary(glossaryRef.current);
+        await poolRef.current.start(conversationLanguages, poolCallbacks);
+
+        serviceRef.current = new GeminiLiveService(process.env.API_KEY || '', conversationLanguages[0], { backend: liveBackend });
+        serviceRef.current.setSourceLanguage(conversationLanguages.join(' or '));
+        aggregatorRef.current = new SegmentAggregator({
+          speakerId: crypto.randomUUID(),
+          sourceLanguage: UNDETERMINED_LANGUAGE,
+          onSegment: (segment) => {
+            // Push-to-talk names the side; otherwise detect it, assuming turns alternate when unsure
+            const detected = pickLanguage(segment.text, codes);
+            const side = pushToTalk ? lastSideRef.current : detected ? codes.indexOf(detected) : 1 - lastSideRef.current;
+            setInputCaption(segment.text);
+            setInputTimestamp(formatTime());
+            setInputLanguage(codes[side]);
+            if (!segment.isFinal) return;
+            lastSideRef.current = side;
+            transcriptStore.addSource({ ...segment, language: codes[side] });
+            requestInterpretation(segment.id, segment.text, [conversationLanguages[1 - side]]);
+          },
+        });
+
+        await serviceRef.current.connect({
+          ...sessionCallbacks,
+          onInputTranscription: (text) => {
+            telemetry.inputTranscribed();
+            aggregatorRef.current?.push(text);
+          },
+          onOutputTranscription: () => {},
+          onAudioData: () => {},
+          onTurnComplete: () => aggregatorRef.current?.flush(),
+          onInterrupted: () => {},
+          onReconnecting: (attempt) => sessionCallbacks.onReconnecting('transcription', attempt),
+          onReconnected: () => sessionCallbacks.onReconnected('transcription'),
+        }, selectedVoice);
+      } else {
+        const languages = [resolvedLang, ...extraLanguages.filter(l => l !== resolvedLang)];
+        const routed = languages.includes(audioLanguageRef.current) ? audioLanguageRef.current : resolvedLang;
+        audioLanguageRef.current = routed;
+        setAudioLanguage(routed);
+        setSessionLanguages(languages);
+        setOutputCaptions({});
+
+        poolRef.current = new InterpreterPool(process.env.API_KEY || '', selectedVoice, liveBackend);
+        poolRef.current.setGlossary(glossaryRef.current);
+        poolRef.current.setResponseModality(responseModalityFor(outputModeRef.current));
+        await poolRef.current.start(languages, poolCallbacks);
+      }
 
       // Output setup for Gemini Read Aloud
       outputAudioCtxRef.current = new AudioContext({ sampleRate: 24000 });
@@ -249,41 +1043,88 @@ const CriptLatorWidget: React.FC = () => {
       // Chain: Source -> Gain -> Analyser (Visualize) -> Destination (Speakers)
       outputGainRef.current.connect(outputAnalyserRef.current);
       outputAnalyserRef.current.connect(outputAudioCtxRef.current.destination);
+      playbackRef.current = new PlaybackQueue(outputAudioCtxRef.current, outputGainRef.current);
+      if (role !== UserRole.SPEAKER) {
+        if (shouldRecord) startRecording(outputGainRef.current, 'interpretation');
+        // A device that has gone away leaves Read Aloud on the default rather than failing the session
+        await setOutputDevice(outputAudioCtxRef.current, outputDeviceId).catch((err) => setError(err.message));
+        // The interpretation as a MediaStream, for embedding pages and tabs opened from this one
+        const outputStream = outputAudioCtxRef.current.createMediaStreamDestination();
+        outputGainRef.current.connect(outputStream);
+        publishOutputStream(outputStream.stream);
+      }
 
-      if (role === UserRole.SPEAKER) {
-        inputAudioCtxRef.current = new AudioContext({ sampleRate: 16000 });
-        inputAnalyserRef.current = inputAudioCtxRef.current.createAnalyser();
-        const mixedDest = inputAudioCtxRef.current.createMediaStreamDestination();
-
-        try {
-          const mic = await navigator.mediaDevices.getUserMedia({ audio: true });
-          activeStreamsRef.current.push(mic);
-          inputAudioCtxRef.current.createMediaStreamSource(mic).connect(mixedDest);
-        } catch(e) { console.warn("Mic capture failed"); }
-
-        try {
-          const sys = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true });
-          if (sys.getAudioTracks().length > 0) {
-            activeStreamsRef.current.push(sys);
-            inputAudioCtxRef.current.createMediaStreamSource(sys).connect(mixedDest);
-            sys.getVideoTracks().forEach(t => t.stop());
-          }
-        } catch (e) { console.warn("System audio capture declined"); }
-
-        const processor = inputAudioCtxRef.current.createScriptProcessor(4096, 1, 1);
-        const source = inputAudioCtxRef.current.createMediaStreamSource(mixedDest.stream);
-        source.connect(inputAnalyserRef.current);
-        source.connect(processor);
-        processor.connect(inputAudioCtxRef.current.destination);
-
-        processor.onaudioprocess = (e) => {
-          const inputData = e.inputBuffer.getChannelData(0);
-          const pcm16 = new Int16Array(inputData.length);
-          for(let i=0; i<inputData.length; i++) {
-            pcm16[i] = Math.max(-1, Math.min(1, inputData[i])) * 0x7FFF;
-          }
-          serviceRef.current?.sendAudio(encode(new Uint8Array(pcm16.buffer)));
+      if (role !== UserRole.LISTENER) {
+        // Across the table, the device must not transcribe its own read-aloud
+        const isMicOpen = () => role !== UserRole.CONVERSATION
+          || (pushToTalk ? talkingSideRef.current !== null : !playbackRef.current?.queuedDuration());
+
+        // Silence never reaches Gemini; gate closures double as sentence breaks
+        const gate = new SpeechGate({
+          onSend: (pcm) => {
+            if (!isMicOpen()) return;
+            telemetry.audioSent();
+            serviceRef.current?.sendAudio(encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)));
+          },
+          onSpeechStart: () => setIsSpeechActive(true),
+          onSpeechEnd: () => {
+            setIsSpeechActive(false);
+            // With VAD off the audio keeps streaming, so a pause is not the end of it
+            if (!gate.isEnabled) return;
+            serviceRef.current?.endAudioStream();
+            aggregatorRef.current?.requestBreak();
+          },
+        }, { energyMarginDb: vadMarginDb, hangoverMs: vadHangoverMs });
+        gate.setEnabled(vadEnabled);
+        gateRef.current = gate;
+
+        // The original goes out exactly as Gemini hears it; a batch run is too fast to listen to
+        if (role === UserRole.SPEAKER && monitorOriginal && !isBatch) monitorRef.current = await PcmMonitor.open(originalDeviceId);
+        const monitor = monitorRef.current;
+        const feed = (pcm: Int16Array) => {
+          monitor?.push(pcm);
+          gate.push(pcm);
         };
+
+        if (fileSamples) {
+          // The decoded file takes the place of the capture graph
+          inputAnalyserRef.current = null;
+          const feeder = new PcmFileFeeder(fileSamples, {
+            chunkMs: CAPTURE_CHUNK_MS,
+            speed: isBatch ? BATCH_SPEED : 1,
+            onChunk: feed,
+            onProgress: setFileProgress,
+            onDone: () => {
+              serviceRef.current?.endAudioStream();
+              aggregatorRef.current?.requestBreak();
+              if (batchRef.current) finishBatch(batchRef.current);
+            },
+          });
+          feederRef.current = feeder;
+          setFileProgress(0);
+          feeder.start();
+        } else {
+          // Native rate; the capture worklet resamples to 16 kHz itself
+          inputAudioCtxRef.current = new AudioContext();
+          inputAnalyserRef.current = inputAudioCtxRef.current.createAnalyser();
+
+          // Chain: Sources -> per-source Gain/Analyser -> Mix -> Analyser + PCM capture
+          const kinds = captureKinds;
+          mixerRef.current = new SourceMixer(inputAudioCtxRef.current);
+          await mixerRef.current.open(kinds, micDeviceId || undefined);
+          const mixer = mixerRef.current;
+          setSourceAnalysers(Object.fromEntries(kinds.map(kind => [kind, mixer.getAnalyser(kind)])));
+          if (kinds.includes('mic')) listInputDevices().then(setInputDevices).catch(() => {});
+
+          const source = mixer.output;
+          source.connect(inputAnalyserRef.current);
+          if (shouldRecord) startRecording(source, 'source');
+
+          captureRef.current = await startPcmCapture(inputAudioCtxRef.current, source, {
+            chunkDurationMs: CAPTURE_CHUNK_MS,
+            onChunk: feed,
+          });
+        }
       }
     } catch (err: any) {
       setError(err.message || 'Access denied');
@@ -291,60 +1132,152 @@ const CriptLatorWidget: React.FC = () => {
     }
   };
 
+  const saveSessionArchive = async () => {
+    setIsSavingArchive(true);
+    try {
+      await downloadSessionArchive({
+        transcript: transcriptStore.getSnapshot(),
+        tracks: recordedTracks,
+        details: {
+          role,
+          room: sessionRoomCodeRef.current,
+          sourceLanguage: role === UserRole.SPEAKER ? sourceLanguage : undefined,
+          languages: role === UserRole.SPEAKER ? undefined : sessionLanguages,
+        },
+      });
+    } catch (err: any) {
+      setError(err.message || 'Could not build the session archive');
+    } finally {
+      setIsSavingArchive(false);
+    }
+  };
+
   const isListener = role === UserRole.LISTENER;
+  const isConversation = role === UserRole.CONVERSATION;
+  const reconnectAttempt = Math.max(0, ...Object.values<number>(reconnecting));
+  const isReconnecting = isActive && reconnectAttempt > 0;
 
   return (
     <div className="flex flex-col items-center gap-10 w-full relative">
       
       {/* Top Left: Sample Dropdown (Listener only) */}
       <div className={`absolute top-0 left-0 transition-all duration-700 z-50 ${isListener ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-10 pointer-events-none'}`}>
+        <SamplePanel
+          library={sampleLibrary}
+          selectedId={settings.sampleId}
+          onSelect={(id) => settingsStore.set('sampleId', id)}
+          player={samplePlayer}
+          isActive={isActive}
+          pacing={samplePacing}
+          onPacingChange={(pacing) => settingsStore.set('samplePacing', pacing)}
+          loop={sampleLoop}
+          onLoopChange={(loop) => settingsStore.set('sampleLoop', loop)}
+          onStart={startSamplePlayback}
+          onStop={stopSamplePlayback}
+          onError={setError}
+        />
+      </div>
+
+      {/* Top Right: Room Panel (not used by a local conversation) */}
+      <div className={`absolute top-0 right-0 transition-all duration-700 z-50 ${isConversation ? 'opacity-0 translate-x-10 pointer-events-none' : 'opacity-100 translate-x-0'}`}>
         <div className="bg-black/60 backdrop-blur-3xl border border-white/10 rounded-2xl p-4 flex items-center gap-4 shadow-[0_0_40px_rgba(0,0,0,0.5)]">
-          <div className="flex flex-col gap-1">
-            <span className="text-[9px] text-white/40 uppercase font-black tracking-widest pl-1">Source Stream</span>
-            <select 
-              value={selectedSampleIndex}
-              onChange={(e) => setSelectedSampleIndex(Number(e.target.value))}
-              disabled={isActive && isSamplePlaying}
-              className="bg-white/5 text-[11px] font-bold text-white/90 rounded-xl px-4 py-2 outline-none border border-white/10 cursor-pointer hover:bg-white/10 transition-all focus:ring-2 focus:ring-blue-500/50"
-            >
-              <option value={-1} className="bg-gray-900">Choose Sample...</option>
-              {SAMPLES.map((s, idx) => (
-                <option key={s.id} value={idx} className="bg-gray-900">{s.name}</option>
-              ))}
-            </select>
-          </div>
-          
-          <button 
-            onClick={toggleSamplePlayback}
-            disabled={!isActive || selectedSampleIndex === -1}
-            title={isSamplePlaying ? "Stop Interpretation" : "Start Interpretation"}
-            className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-500 ${!isActive || selectedSampleIndex === -1 ? 'opacity-20' : 'hover:scale-110 active:scale-95 shadow-2xl'} ${isSamplePlaying ? 'bg-red-500/30 text-red-400 border border-red-500/50 animate-pulse' : 'bg-white/10 text-white border border-white/20 hover:bg-white/20'}`}
-          >
-            {isSamplePlaying ? (
-              <div className="w-3.5 h-3.5 bg-current rounded-sm shadow-[0_0_10px_currentColor]" />
-            ) : (
-              <div className="w-0 h-0 border-t-[7px] border-t-transparent border-l-[12px] border-l-current border-b-[7px] border-b-transparent ml-1 drop-shadow-[0_0_5px_rgba(255,255,255,0.5)]" />
-            )}
-          </button>
+          {!relay ? (
+            <div className="flex flex-col gap-1">
+              <span className="text-[9px] text-white/40 uppercase font-black tracking-widest pl-1">Broadcast Room</span>
+              <span className="text-[11px] font-bold text-white/30 px-1">Relay unavailable</span>
+            </div>
+          ) : isListener ? (
+            <>
+              <div className="flex flex-col gap-1">
+                <span className="text-[9px] text-white/40 uppercase font-black tracking-widest pl-1">Room Code · {RELAY_LABELS[relay.kind]}</span>
+                <input
+                  value={roomCodeInput}
+                  onChange={(e) => {
+                    setRoomCodeInput(normalizeRoomCode(e.target.value));
+                    if (room) {
+                      roomRef.current = null;
+                      setRoom(null);
+                    }
+                  }}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && roomCodeInput) joinRoom(); }}
+                  disabled={isActive}
+                  placeholder="ABC123"
+                  maxLength={12}
+                  className="w-28 bg-white/5 text-[12px] font-mono font-bold tracking-[0.3em] text-white/90 rounded-xl px-4 py-2 outline-none border border-white/10 focus:ring-2 focus:ring-blue-500/50 placeholder:text-white/20"
+                />
+                {roster && (
+                  <span className={`text-[9px] font-black uppercase tracking-[0.2em] px-1 ${SPEAKER_STATUS_COLORS[roster.speaker]}`}>
+                    {SPEAKER_STATUS_LABELS[roster.speaker]}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={joinRoom}
+                disabled={isActive || isJoiningRoom || !roomCodeInput}
+                className={`px-4 h-10 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all duration-500 border ${room ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/10 text-white border-white/20 hover:bg-white/20 disabled:opacity-20'}`}
+              >
+                {isJoiningRoom ? 'Joining...' : room ? 'Joined' : 'Join'}
+              </button>
+              {room && (
+                <button
+                  onClick={copyOverlayLink}
+                  title="Copy a subtitle overlay link for OBS or a projector"
+                  className="px-4 h-10 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all duration-500 bg-white/10 text-white border border-white/20 hover:bg-white/20"
+                >
+                  {linkCopied ? 'Copied' : 'Overlay'}
+                </button>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="flex flex-col gap-1">
+                <span className="text-[9px] text-white/40 uppercase font-black tracking-widest pl-1">Broadcast Room · {RELAY_LABELS[relay.kind]}</span>
+                <span className={`text-[12px] font-mono font-bold tracking-[0.3em] px-1 ${room ? 'text-green-400' : 'text-white/30'}`}>
+                  {room ? room.code : 'Opens on start'}
+                </span>
+                {roster && <ListenerRoster roster={roster} />}
+              </div>
+              <button
+                onClick={copyRoomLink}
+                disabled={!room}
+                className="px-4 h-10 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all duration-500 bg-white/10 text-white border border-white/20 hover:bg-white/20 disabled:opacity-20"
+              >
+                {linkCopied ? 'Copied' : 'Copy Link'}
+              </button>
+            </>
+          )}
         </div>
       </div>
 
+      {liveBackend.kind === LiveBackendKind.MOCK && (
+        <div className="absolute top-20 right-0 z-50 px-3 py-1 rounded-full bg-amber-500/15 border border-amber-500/40 text-amber-300 text-[9px] font-black uppercase tracking-[0.3em]">
+          Mock Backend
+        </div>
+      )}
+
       {/* Role Switcher */}
       <div className="flex bg-black/60 p-2 rounded-full border border-white/10 backdrop-blur-3xl shadow-2xl relative z-50">
         <button
-          onClick={() => setRole(UserRole.SPEAKER)}
+          onClick={() => settingsStore.set('role', UserRole.SPEAKER)}
           disabled={isActive}
           className={`px-10 py-3 rounded-full text-[11px] font-black uppercase tracking-[0.3em] transition-all duration-500 ${role === UserRole.SPEAKER ? 'bg-white text-black shadow-2xl scale-105' : 'text-white/30 hover:text-white/70 disabled:opacity-20'}`}
         >
           Speaker
         </button>
         <button
-          onClick={() => setRole(UserRole.LISTENER)}
+          onClick={() => settingsStore.set('role', UserRole.LISTENER)}
           disabled={isActive}
           className={`px-10 py-3 rounded-full text-[11px] font-black uppercase tracking-[0.3em] transition-all duration-500 ${role === UserRole.LISTENER ? 'bg-white text-black shadow-2xl scale-105' : 'text-white/30 hover:text-white/70 disabled:opacity-20'}`}
         >
           Listener
         </button>
+        <button
+          onClick={() => settingsStore.set('role', UserRole.CONVERSATION)}
+          disabled={isActive}
+          className={`px-10 py-3 rounded-full text-[11px] font-black uppercase tracking-[0.3em] transition-all duration-500 ${role === UserRole.CONVERSATION ? 'bg-white text-black shadow-2xl scale-105' : 'text-white/30 hover:text-white/70 disabled:opacity-20'}`}
+        >
+          Conversation
+        </button>
       </div>
 
       {/* Infinity Widget */}
@@ -407,26 +1340,28 @@ const CriptLatorWidget: React.FC = () => {
           
           <div className="flex flex-col items-center gap-3">
             <div className="flex flex-row items-center gap-2">
-              <div className="flex flex-col items-center bg-black/80 px-8 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
-                <span className="text-[10px] text-white/40 font-black uppercase tracking-[0.5em] mb-1.5">Target Language</span>
-                <select 
-                  value={targetLanguage} 
-                  onChange={(e) => setTargetLanguage(e.target.value as SupportLanguage)}
-                  disabled={isActive}
-                  className="bg-transparent text-[11px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors"
-                >
-                  <option value={SupportLanguage.AUTO}>Auto Detect</option>
-                  {Object.values(SupportLanguage).filter(l => l !== SupportLanguage.AUTO).map(l => (
-                    <option key={l} value={l} className="bg-gray-900">{l}</option>
-                  ))}
-                </select>
-              </div>
+              {!isConversation && (
+                <div className="flex flex-col items-center bg-black/80 px-8 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
+                  <span className="text-[10px] text-white/40 font-black uppercase tracking-[0.5em] mb-1.5">Target Language</span>
+                  <select 
+                    value={targetLanguage} 
+                    onChange={(e) => settingsStore.set('targetLanguage', e.target.value as SupportLanguage)}
+                    disabled={isActive}
+                    className="bg-transparent text-[11px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors"
+                  >
+                    <option value={SupportLanguage.AUTO}>Auto Detect</option>
+                    {Object.values(SupportLanguage).filter(l => l !== SupportLanguage.AUTO).map(l => (
+                      <option key={l} value={l} className="bg-gray-900">{l}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
 
               <div className="flex flex-col items-center bg-black/80 px-8 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
                 <span className="text-[10px] text-white/40 font-black uppercase tracking-[0.5em] mb-1.5">Voice Tone</span>
                 <select 
                   value={selectedVoice} 
-                  onChange={(e) => setSelectedVoice(e.target.value as PrebuiltVoice)}
+                  onChange={(e) => settingsStore.set('selectedVoice', e.target.value as PrebuiltVoice)}
                   disabled={isActive}
                   className="bg-transparent text-[11px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors"
                 >
@@ -437,6 +1372,316 @@ const CriptLatorWidget: React.FC = () => {
               </div>
             </div>
 
+            {/* Conversation Sides */}
+            {isConversation && (
+              <div className="flex flex-col items-center bg-black/80 w-full px-6 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
+                <span className="text-[8px] text-white/20 font-black uppercase tracking-[0.5em] mb-2">Conversation</span>
+                <div className="flex items-center justify-center gap-3 w-full">
+                  {[0, 1].map(side => (
+                    <React.Fragment key={side}>
+                      {side === 1 && <span className="text-white/30 text-[11px]">⇄</span>}
+                      <select
+                        value={conversationLanguages[side]}
+                        onChange={(e) => setConversationLanguage(side, e.target.value as SupportLanguage)}
+                        disabled={isActive}
+                        title={side === 0 ? 'Your language' : 'Language of the person across the table'}
+                        className="max-w-[170px] truncate bg-transparent text-[10px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        {Object.values(SupportLanguage).filter(l => l !== SupportLanguage.AUTO).map(l => (
+                          <option key={l} value={l} className="bg-gray-900">{l}</option>
+                        ))}
+                      </select>
+                    </React.Fragment>
+                  ))}
+                  <button
+                    onClick={() => settingsStore.set('pushToTalk', v => !v)}
+                    disabled={isActive}
+                    title="Take turns with a talk button per side instead of detecting the language"
+                    className={`ml-2 px-2 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all disabled:opacity-50 ${pushToTalk ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+                  >
+                    Push to Talk
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Capture Sources (Speaker and Conversation) */}
+            {!isListener && (
+              <div className="flex flex-col items-center gap-2 bg-black/80 w-full px-6 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
+                <div className="flex items-center justify-center gap-4 w-full">
+                  {!isConversation && (
+                    <>
+                      <select
+                        value={sourceLanguage}
+                        onChange={(e) => settingsStore.set('sourceLanguage', e.target.value as SupportLanguage)}
+                        disabled={isActive}
+                        title="Language being spoken"
+                        className="max-w-[150px] truncate bg-transparent text-[10px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        <option value={SupportLanguage.AUTO} className="bg-gray-900">Detect Language</option>
+                        {Object.values(SupportLanguage).filter(l => l !== SupportLanguage.AUTO).map(l => (
+                          <option key={l} value={l} className="bg-gray-900">{l}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={sourceType}
+                        onChange={(e) => settingsStore.set('sourceType', e.target.value as SourceType)}
+                        disabled={isActive}
+                        className="bg-transparent text-[10px] uppercase font-black tracking-[0.2em] text-white/90 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        {Object.values(SourceType).map(t => (
+                          <option key={t} value={t} className="bg-gray-900">{t}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  {captureKinds.includes('mic') && (
+                    <select
+                      value={micDeviceId}
+                      onChange={(e) => settingsStore.set('micDeviceId', e.target.value)}
+                      disabled={isActive}
+                      className="max-w-[180px] truncate bg-transparent text-[10px] font-bold text-white/50 outline-none cursor-pointer appearance-none text-center hover:text-white transition-colors disabled:opacity-50"
+                    >
+                      <option value="" className="bg-gray-900">Default Microphone</option>
+                      {inputDevices.filter(d => d.deviceId && d.deviceId !== 'default').map((d, idx) => (
+                        <option key={d.deviceId} value={d.deviceId} className="bg-gray-900">{d.label || `Microphone ${idx + 1}`}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                {isFileSource && (
+                  <div className="flex items-center gap-3 w-full">
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isActive || isConnecting}
+                      title={sourceFile ? sourceFile.name : 'Choose an audio or video file (MP3, WAV, MP4, WebM)'}
+                      className="max-w-[180px] truncate px-3 text-[9px] font-bold py-1 rounded-md border bg-white/5 text-white/60 border-white/10 hover:text-white transition-all disabled:opacity-50"
+                    >
+                      {sourceFile ? sourceFile.name : 'Choose File...'}
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={MEDIA_FILE_ACCEPT}
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) setSourceFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    <button
+                      onClick={() => setBatchMode(v => !v)}
+                      disabled={isActive || isConnecting}
+                      title="Transcribe and translate the whole file faster than real time, without broadcasting"
+                      className={`w-14 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all disabled:opacity-50 ${batchMode ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+                    >
+                      Batch
+                    </button>
+                    <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden" title="Share of the file sent">
+                      <div className="h-full bg-green-500 transition-all duration-300" style={{ width: `${(fileProgress ?? 0) * 100}%` }} />
+                    </div>
+                    <span className="text-[9px] font-mono text-white/40 w-8 text-right">{fileProgress === null ? '' : `${Math.round(fileProgress * 100)}%`}</span>
+                    {isActive && batchMode && (
+                      <button
+                        onClick={stopSession}
+                        title="Stop the batch run and keep what has been transcribed so far"
+                        className="px-2 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border bg-red-500/20 text-red-400 border-red-500/40 hover:bg-red-500/30"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+                {captureKinds.map(kind => (
+                  <div key={kind} className="flex items-center gap-3 w-full">
+                    <button
+                      onClick={() => setSourceMuted(prev => ({ ...prev, [kind]: !prev[kind] }))}
+                      title={sourceMuted[kind] ? 'Unmute' : 'Mute'}
+                      className={`w-14 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all ${sourceMuted[kind] ? 'bg-red-500/20 text-red-400 border-red-500/40' : 'bg-white/5 text-white/60 border-white/10 hover:text-white'}`}
+                    >
+                      {SOURCE_LABELS[kind]}
+                    </button>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1.5"
+                      step="0.01"
+                      value={sourceLevels[kind]}
+                      onChange={(e) => setSourceLevels(prev => ({ ...prev, [kind]: parseFloat(e.target.value) }))}
+                      className="w-24 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-green-500"
+                    />
+                    <LevelMeter analyser={sourceMuted[kind] ? null : sourceAnalysers[kind] ?? null} className="flex-1" />
+                  </div>
+                ))}
+                <div className="flex items-center gap-3 w-full pt-1 border-t border-white/5">
+                  <button
+                    onClick={() => settingsStore.set('vadEnabled', v => !v)}
+                    title="Only send audio while someone is speaking"
+                    className={`w-14 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all ${vadEnabled ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+                  >
+                    VAD
+                  </button>
+                  <label className="flex items-center gap-2 text-[8px] text-white/30 font-black uppercase tracking-[0.15em]" title="Lower is more sensitive">
+                    Thresh
+                    <input
+                      type="range"
+                      min="4"
+                      max="24"
+                      step="1"
+                      value={vadMarginDb}
+                      onChange={(e) => settingsStore.set('vadMarginDb', Number(e.target.value))}
+                      className="w-16 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-green-500"
+                    />
+                    <span className="font-mono text-white/40 w-8">{vadMarginDb}dB</span>
+                  </label>
+                  <label className="flex items-center gap-2 text-[8px] text-white/30 font-black uppercase tracking-[0.15em]">
+                    Hold
+                    <input
+                      type="range"
+                      min="150"
+                      max="1500"
+                      step="50"
+                      value={vadHangoverMs}
+                      onChange={(e) => settingsStore.set('vadHangoverMs', Number(e.target.value))}
+                      className="w-16 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-green-500"
+                    />
+                    <span className="font-mono text-white/40 w-10">{vadHangoverMs}ms</span>
+                  </label>
+                </div>
+                {!isConversation && (
+                  <div className="flex items-center gap-3 w-full pt-1 border-t border-white/5">
+                    <button
+                      onClick={() => settingsStore.set('moderation', v => !v)}
+                      disabled={isActive}
+                      title="Review and correct sentences before Listeners receive them"
+                      className={`w-14 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all disabled:opacity-50 ${moderation ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+                    >
+                      Review
+                    </button>
+                    <label className="flex items-center gap-2 text-[8px] text-white/30 font-black uppercase tracking-[0.15em]" title="Untouched sentences are sent after this long">
+                      Auto-Send
+                      <select
+                        value={autoApproveMs}
+                        onChange={(e) => settingsStore.set('autoApproveMs', Number(e.target.value))}
+                        disabled={!moderation}
+                        className="bg-transparent font-mono text-white/60 outline-none cursor-pointer appearance-none hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        {!AUTO_APPROVE_OPTIONS.includes(autoApproveMs) && <option value={autoApproveMs} className="bg-gray-900">{autoApproveMs / 1000}s</option>}
+                        {AUTO_APPROVE_OPTIONS.map(ms => (
+                          <option key={ms} value={ms} className="bg-gray-900">{ms === 0 ? 'Never' : `${ms / 1000}s`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+                {!isConversation && (
+                  <div className="flex items-center gap-3 w-full pt-1 border-t border-white/5">
+                    <button
+                      onClick={() => settingsStore.set('monitorOriginal', v => !v)}
+                      disabled={isActive}
+                      title="Play the source out on its own device, e.g. headphones or a virtual cable into another app"
+                      className={`w-14 text-[8px] font-black uppercase tracking-[0.2em] py-1 rounded-md border transition-all disabled:opacity-50 ${monitorOriginal ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+                    >
+                      Monitor
+                    </button>
+                    <OutputDeviceSelect
+                      devices={outputDevices}
+                      value={originalDeviceId}
+                      onChange={(id) => settingsStore.set('originalDeviceId', id)}
+                      disabled={!monitorOriginal}
+                      title="Where the original plays"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Output Mode (Listener only) */}
+            {isListener && (
+              <div className="flex flex-col items-center bg-black/80 w-full px-6 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
+                <span className="text-[8px] text-white/20 font-black uppercase tracking-[0.5em] mb-2">Output</span>
+                <div className="flex items-center gap-1 bg-white/5 p-1 rounded-full border border-white/10">
+                  {Object.values(ListenerOutputMode).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => settingsStore.set('outputMode', mode)}
+                      className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-[0.15em] transition-all duration-300 ${outputMode === mode ? 'bg-white text-black' : 'text-white/40 hover:text-white/80'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+                {outputMode !== ListenerOutputMode.CAPTIONS_ONLY && (
+                  <div className="flex items-center gap-3 mt-2">
+                    <label className="flex items-center gap-2 text-[8px] text-white/30 font-black uppercase tracking-[0.15em]" title="How far Read Aloud may fall behind before it catches up">
+                      Max Lag
+                      <select
+                        value={maxLagMs}
+                        onChange={(e) => settingsStore.set('maxLagMs', Number(e.target.value))}
+                        className="bg-transparent font-mono text-white/60 outline-none cursor-pointer appearance-none hover:text-white transition-colors"
+                      >
+                        {!MAX_LAG_OPTIONS.includes(maxLagMs) && <option value={maxLagMs} className="bg-gray-900">{maxLagMs / 1000}s</option>}
+                        {MAX_LAG_OPTIONS.map(ms => (
+                          <option key={ms} value={ms} className="bg-gray-900">{ms === 0 ? 'Off' : `${ms / 1000}s`}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="flex items-center gap-1 bg-white/5 p-0.5 rounded-full border border-white/10">
+                      {CATCH_UP_POLICIES.map(policy => (
+                        <button
+                          key={policy}
+                          onClick={() => settingsStore.set('catchUpPolicy', policy)}
+                          disabled={maxLagMs === 0}
+                          title={CATCH_UP_HINTS[policy]}
+                          className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-[0.15em] transition-all duration-300 disabled:opacity-40 ${catchUpPolicy === policy ? 'bg-white/80 text-black' : 'text-white/40 hover:text-white/80'}`}
+                        >
+                          {CATCH_UP_LABELS[policy]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Extra Target Languages (Listener only) */}
+            {isListener && (
+              <div className="flex flex-col items-center bg-black/80 w-full px-6 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5">
+                <span className="text-[8px] text-white/20 font-black uppercase tracking-[0.5em] mb-2">Also Interpret Into</span>
+                <div className="flex flex-wrap justify-center items-center gap-2">
+                  {extraLanguages.map(l => (
+                    <span key={l} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full bg-white/10 border border-white/10 text-[9px] font-black uppercase tracking-[0.15em] text-white/80">
+                      {LANGUAGE_CODES[l] ?? l}
+                      <button
+                        onClick={() => settingsStore.set('extraLanguages', prev => prev.filter(x => x !== l))}
+                        disabled={isActive}
+                        className="w-4 h-4 rounded-full text-white/40 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const next = e.target.value as SupportLanguage;
+                      if (next) settingsStore.set('extraLanguages', prev => prev.includes(next) ? prev : [...prev, next]);
+                    }}
+                    disabled={isActive || extraLanguages.length >= MAX_EXTRA_LANGUAGES}
+                    className="bg-transparent text-[9px] uppercase font-black tracking-[0.2em] text-white/50 outline-none cursor-pointer appearance-none hover:text-white transition-colors disabled:opacity-20"
+                  >
+                    <option value="" className="bg-gray-900">+ Add</option>
+                    {Object.values(SupportLanguage)
+                      .filter(l => l !== SupportLanguage.AUTO && l !== targetLanguage && !extraLanguages.includes(l))
+                      .map(l => (
+                        <option key={l} value={l} className="bg-gray-900">{l}</option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* Volume Control */}
             <div className="flex flex-col items-center bg-black/80 w-full px-8 py-3 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-2xl ring-1 ring-white/5 group">
               <div className="flex items-center gap-3 w-full">
@@ -447,12 +1692,20 @@ const CriptLatorWidget: React.FC = () => {
                   max="1"
                   step="0.01"
                   value={volume}
-                  onChange={(e) => setVolume(parseFloat(e.target.value))}
+                  onChange={(e) => settingsStore.set('volume', parseFloat(e.target.value))}
                   className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white transition-all hover:bg-white/20"
                 />
                 <span className="text-[9px] font-mono text-white/40 w-6 text-right">{Math.round(volume * 100)}%</span>
               </div>
               <span className="text-[8px] text-white/20 font-black uppercase tracking-[0.5em] mt-1.5 pointer-events-none">Interpretation Volume</span>
+              {role !== UserRole.SPEAKER && isOutputSelectionSupported() && (
+                <OutputDeviceSelect
+                  devices={outputDevices}
+                  value={outputDeviceId}
+                  onChange={(id) => settingsStore.set('outputDeviceId', id)}
+                  title="Where the interpretation plays; pick a virtual cable to feed Zoom or a streaming app"
+                />
+              )}
             </div>
           </div>
         </div>
@@ -464,14 +1717,24 @@ const CriptLatorWidget: React.FC = () => {
              <div className="flex items-center gap-2">
                <div className={`w-2.5 h-2.5 rounded-full ${isActive ? 'bg-green-500 animate-pulse shadow-[0_0_15px_#22c55e]' : 'bg-white/10'}`} />
                <span className="text-[10px] uppercase font-black tracking-[0.3em] text-white/40">
-                 {isListener ? "Source Input" : "Broadcast In"}
+                 {isListener ? "Source Input" : isConversation ? "Heard" : "Broadcast In"}
                </span>
+               {isActive && !isListener && (
+                 <span className={`text-[8px] font-black uppercase tracking-[0.2em] px-2 py-0.5 rounded-full border ${isSpeechActive ? 'text-green-400 border-green-500/40 bg-green-500/10' : 'text-white/30 border-white/10'}`}>
+                   {isSpeechActive ? 'Speaking' : 'Silent'}
+                 </span>
+               )}
+               {inputLanguage && inputLanguage !== UNDETERMINED_LANGUAGE && (
+                 <span className="text-[8px] font-mono font-bold uppercase text-green-400/70 px-1.5 py-0.5 rounded border border-green-500/30" title="Source language">
+                   {inputLanguage}
+                 </span>
+               )}
                {inputTimestamp && (
                  <span className="text-[9px] font-mono text-green-500/50 ml-auto">[{inputTimestamp}]</span>
                )}
              </div>
              <div className="text-[13px] text-white/90 font-medium h-20 overflow-hidden line-clamp-4 leading-relaxed tracking-wide transition-all duration-300">
-               {inputCaption || (isActive ? (role === UserRole.SPEAKER ? "Streaming Source..." : isSamplePlaying ? "Injecting Sample..." : "Awaiting Feed...") : "Standby")}
+               {inputCaption || (isActive ? (role !== UserRole.LISTENER ? "Streaming Source..." : isSamplePlaying ? "Injecting Sample..." : room ? (roster && roster.speaker !== 'live' ? SPEAKER_STATUS_LABELS[roster.speaker] : "Awaiting Feed...") : "No Room Joined") : "Standby")}
              </div>
           </div>
         </div>
@@ -483,19 +1746,143 @@ const CriptLatorWidget: React.FC = () => {
              <div className="flex items-center gap-2 flex-row-reverse">
                <div className={`w-2.5 h-2.5 rounded-full ${isActive && outputCaption ? 'bg-white animate-pulse shadow-[0_0_15px_#ffffff]' : 'bg-white/10'}`} />
                <span className="text-[10px] uppercase font-black tracking-[0.3em] text-white/40">
-                 {isListener ? "AI Speaker" : "Translation Out"}
+                 {isListener || isConversation ? "AI Speaker" : "Translation Out"}
                </span>
+               {isListener && isActive && lagMs >= 1000 && (
+                 <span
+                   title={latencyBudget.isOverBudget(lagMs) ? `Catching up: ${CATCH_UP_HINTS[catchUpPolicy]}` : 'Read Aloud queued behind the captions'}
+                   className={`text-[8px] font-mono font-black uppercase tracking-[0.15em] px-1.5 py-0.5 rounded border ${latencyBudget.isOverBudget(lagMs) ? 'text-amber-300 border-amber-400/40 bg-amber-400/10' : 'text-white/40 border-white/10'}`}
+                 >
+                   Lag {(lagMs / 1000).toFixed(1)}s
+                 </span>
+               )}
                {outputTimestamp && (
                  <span className="text-[9px] font-mono text-white/30 mr-auto">[{outputTimestamp}]</span>
                )}
              </div>
              <div className="text-[13px] text-blue-300 font-bold h-20 overflow-hidden line-clamp-4 leading-relaxed text-right italic tracking-wide transition-all duration-300">
-               {outputCaption || (isActive ? (role === UserRole.SPEAKER ? "Monitoring..." : "Interpreting...") : "...")}
+               {isListener && outputMode === ListenerOutputMode.AUDIO_ONLY
+                 ? (isActive ? "Audio Only" : "...")
+                 : outputCaption || (isActive ? (role === UserRole.SPEAKER ? "Monitoring..." : "Interpreting...") : "...")}
              </div>
+             {isListener && outputMode !== ListenerOutputMode.AUDIO_ONLY && glossaryAlerts[audioLanguage]?.length > 0 && (
+               <GlossaryAlert missing={glossaryAlerts[audioLanguage]} />
+             )}
           </div>
         </div>
       </div>
 
+      {isConversation && (
+        <div className="relative z-50">
+          <ConversationView
+            store={transcriptStore}
+            languages={conversationLanguages}
+            pushToTalk={pushToTalk}
+            talkingSide={talkingSide}
+            isActive={isActive}
+            onTalkStart={startTalking}
+            onTalkEnd={stopTalking}
+          />
+        </div>
+      )}
+
+      {moderationQueue && (
+        <div className="relative z-50">
+          <ModerationPanel queue={moderationQueue} />
+        </div>
+      )}
+
+      {/* Per-language caption columns (Listener fan-out) */}
+      {isListener && sessionLanguages.length > 1 && (
+        <div className="flex gap-3 w-[680px] relative z-50">
+          {sessionLanguages.map(language => {
+            const isRouted = language === audioLanguage;
+            return (
+              <div key={language} className={`flex-1 min-w-0 flex flex-col gap-2 bg-black/60 backdrop-blur-3xl rounded-2xl px-4 py-3 border transition-all duration-500 ${isRouted ? 'border-blue-400/40 shadow-[0_0_30px_rgba(96,165,250,0.15)]' : 'border-white/10'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] text-white/40 uppercase font-black tracking-[0.2em] truncate">{language}</span>
+                  <button
+                    onClick={() => routeAudioTo(language)}
+                    title={isRouted ? 'Playing aloud' : 'Play this language aloud'}
+                    className={`w-6 h-6 flex items-center justify-center rounded-full transition-all ${isRouted ? 'bg-blue-400/20 text-blue-300' : 'text-white/20 hover:text-white/70'}`}
+                  >
+                    <VolumeIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="text-[12px] text-blue-300 font-bold italic leading-relaxed line-clamp-3 min-h-[3.5em]">
+                  {outputMode === ListenerOutputMode.AUDIO_ONLY
+                    ? (isRouted ? 'Playing aloud' : '')
+                    : outputCaptions[language] || (isActive ? 'Interpreting...' : '...')}
+                </div>
+                {glossaryAlerts[language]?.length > 0 && <GlossaryAlert missing={glossaryAlerts[language]} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-col items-center gap-4 relative z-50">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all duration-500 backdrop-blur-3xl ${showHistory ? 'bg-white text-black border-white/40' : 'bg-black/60 text-white/50 border-white/10 hover:text-white'}`}
+          >
+            {showHistory ? 'Hide Transcript' : 'Show Transcript'}
+          </button>
+          <button
+            onClick={() => settingsStore.set('recordAudio', v => !v)}
+            disabled={isActive || isConnecting || !isRecordingSupported()}
+            title={isListener ? 'Record the interpretation audio' : isConversation ? 'Record both voices' : 'Record the source audio'}
+            className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all duration-500 backdrop-blur-3xl disabled:cursor-not-allowed ${recordAudio ? 'bg-red-500/20 text-red-400 border-red-500/40' : 'bg-black/60 text-white/50 border-white/10 hover:text-white'}`}
+          >
+            <span className={`inline-block w-1.5 h-1.5 rounded-full mr-2 align-middle ${recordAudio ? 'bg-red-500' : 'bg-white/30'} ${recordAudio && isActive ? 'animate-pulse' : ''}`} />
+            Rec
+          </button>
+          <button
+            onClick={() => setShowGlossary(v => !v)}
+            className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all duration-500 backdrop-blur-3xl ${showGlossary ? 'bg-white text-black border-white/40' : 'bg-black/60 text-white/50 border-white/10 hover:text-white'}`}
+          >
+            Glossary{glossary.length > 0 ? ` · ${glossary.length}` : ''}
+          </button>
+          <button
+            onClick={() => setShowSettings(v => !v)}
+            className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all duration-500 backdrop-blur-3xl ${showSettings ? 'bg-white text-black border-white/40' : 'bg-black/60 text-white/50 border-white/10 hover:text-white'}`}
+          >
+            Presets
+          </button>
+          <button
+            onClick={() => setShowDiagnostics(v => !v)}
+            className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all duration-500 backdrop-blur-3xl ${showDiagnostics ? 'bg-white text-black border-white/40' : 'bg-black/60 text-white/50 border-white/10 hover:text-white'}`}
+          >
+            Diagnostics
+          </button>
+        </div>
+        {showDiagnostics && <DiagnosticsOverlay telemetry={telemetry} onClose={() => setShowDiagnostics(false)} />}
+        {showGlossary && (
+          <GlossaryPanel
+            entries={localGlossary}
+            onChange={setLocalGlossary}
+            roomEntries={isListener ? roomGlossary : []}
+          />
+        )}
+        {showSettings && <SettingsPanel store={settingsStore} disabled={isActive || isConnecting} />}
+        {showHistory && (
+          <TranscriptHistory
+            store={transcriptStore}
+            trackCount={recordedTracks.length}
+            onDownloadArchive={isActive || isConnecting || isSavingArchive ? undefined : saveSessionArchive}
+          />
+        )}
+      </div>
+
+      {isReconnecting && (
+        <div className="px-10 py-4 rounded-full bg-amber-500/15 border border-amber-500/40 text-amber-300 text-[11px] uppercase font-black tracking-[0.4em] shadow-2xl backdrop-blur-3xl flex items-center gap-3">
+          <div className="w-3 h-3 border-2 border-current border-t-transparent animate-spin rounded-full" />
+          Reconnecting · Attempt {reconnectAttempt}
+          {Object.keys(reconnecting).length > 1 && <span className="text-amber-300/60">({Object.keys(reconnecting).length} sessions)</span>}
+        </div>
+      )}
+
       {error && (
         <div className="px-12 py-5 rounded-full bg-red-500/20 border border-red-500/40 text-red-400 text-[11px] uppercase font-black tracking-[0.5em] animate-bounce shadow-2xl backdrop-blur-3xl ring-2 ring-red-500/20">
           {error}
@@ -0,0 +1,117 @@
+import React, { useSyncExternalStore, memo } from 'react';
+import { CROSS_CLOCK_METRICS, LATENCY_METRICS, LatencyMetric, LatencyStats, SessionTelemetry, TelemetryCounter, downloadTelemetry } from '../services/telemetry';
+
+interface DiagnosticsOverlayProps {
+  telemetry: SessionTelemetry;
+  onClose: () => void;
+}
+
+const METRIC_LABELS: Record<LatencyMetric, string> = {
+  captureToTranscript: 'Capture → Transcript',
+  receiveToSend: 'Receive → Send',
+  segmentRelay: 'Relay',
+  textToFirstCaption: 'Send → Caption',
+  textToFirstAudio: 'Send → Audio',
+  audioToPlayback: 'Audio → Playback',
+  endToEnd: 'End to End',
+};
+
+const COUNTER_LABELS: Record<TelemetryCounter, string> = {
+  chunksSent: 'Chunks Sent',
+  segmentsPublished: 'Published',
+  segmentsReceived: 'Received',
+  duplicateSegments: 'Duplicates',
+  staleSegments: 'Stale',
+  reconnectAttempts: 'Reconnects',
+  skippedTurns: 'Skipped',
+  summarizedLines: 'Summarized',
+};
+
+const MetricRow: React.FC<{ label: string; stats: LatencyStats }> = ({ label, stats }) => {
+  const empty = stats.count === 0;
+  return (
+    <tr className={empty ? 'text-white/20' : 'text-white/80'}>
+      <td className="px-4 py-0.5 font-sans text-[9px] font-bold">{label}</td>
+      <td className="text-right">{stats.count}</td>
+      <td className="text-right">{empty ? '–' : Math.round(stats.p50)}</td>
+      <td className={`text-right ${stats.p95 > 2000 ? 'text-amber-300' : ''}`}>{empty ? '–' : Math.round(stats.p95)}</td>
+      <td className="px-4 text-right">{empty ? '–' : Math.round(stats.max)}</td>
+    </tr>
+  );
+};
+
+/**
+ * Floating latency / quality readout for the current session: p50 / p95 per
+ * pipeline stage, relay and reconnect counters, and Read Aloud queue depth.
+ */
+const DiagnosticsOverlay: React.FC<DiagnosticsOverlayProps> = memo(({ telemetry, onClose }) => {
+  const snapshot = useSyncExternalStore(telemetry.subscribe, telemetry.getSnapshot);
+
+  return (
+    <div className="fixed bottom-6 left-6 z-[60] w-80 bg-black/80 backdrop-blur-3xl border border-white/10 rounded-2xl shadow-[0_0_40px_rgba(0,0,0,0.6)] overflow-hidden font-mono">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-white/10">
+        <span className="font-sans text-[9px] text-white/40 uppercase font-black tracking-[0.4em]">Diagnostics</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadTelemetry(snapshot)}
+            className="px-2 py-0.5 rounded-md font-sans text-[8px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/70 border border-white/10 hover:bg-white/15 hover:text-white transition-all"
+          >
+            JSON
+          </button>
+          <button onClick={onClose} className="w-5 h-5 rounded-full text-white/40 hover:text-white hover:bg-white/10">×</button>
+        </div>
+      </div>
+
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-white/30 text-left">
+            <th className="px-4 pt-2 font-normal">ms</th>
+            <th className="pt-2 font-normal text-right">n</th>
+            <th className="pt-2 font-normal text-right">p50</th>
+            <th className="pt-2 font-normal text-right">p95</th>
+            <th className="px-4 pt-2 font-normal text-right">max</th>
+          </tr>
+        </thead>
+        <tbody>
+          {LATENCY_METRICS.map(metric => <MetricRow key={metric} label={METRIC_LABELS[metric]} stats={snapshot.latencies[metric]} />)}
+        </tbody>
+        <tbody>
+          <tr>
+            <td colSpan={5} className="px-4 pt-2 font-sans text-[8px] text-white/30 uppercase font-black tracking-[0.1em]" title="Speaker timestamps against this device's clock; any skew between the machines is included">
+              Cross-Clock · includes skew
+            </td>
+          </tr>
+          {CROSS_CLOCK_METRICS.map(metric => <MetricRow key={metric} label={METRIC_LABELS[metric]} stats={snapshot.crossClock[metric]} />)}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-3 gap-x-3 gap-y-1 px-4 py-2.5 mt-1 border-t border-white/5 text-[10px]">
+        {(Object.keys(COUNTER_LABELS) as TelemetryCounter[]).map(counter => (
+          <div key={counter} className="flex flex-col">
+            <span className="font-sans text-[8px] text-white/30 uppercase font-black tracking-[0.1em]">{COUNTER_LABELS[counter]}</span>
+            <span className="text-white/80">{snapshot.counters[counter]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 py-2.5 border-t border-white/5">
+        <div className="flex justify-between font-sans text-[8px] text-white/30 uppercase font-black tracking-[0.1em] mb-1">
+          <span>Audio Queue</span>
+          <span className="font-mono normal-case tracking-normal text-white/60">
+            {snapshot.queueDepth.current.toFixed(2)}s · max {snapshot.queueDepth.max.toFixed(2)}s
+          </span>
+        </div>
+        <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+          <div
+            className="h-full bg-blue-400 transition-all duration-300"
+            style={{ width: `${Math.min(100, (snapshot.queueDepth.current / Math.max(snapshot.queueDepth.max, 1)) * 100)}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+});
+
+DiagnosticsOverlay.displayName = 'DiagnosticsOverlay';
+
+export default DiagnosticsOverlay;
@@ -0,0 +1,149 @@
+import React, { useRef, useState, memo } from 'react';
+import { createGlossaryEntry, mergeGlossaries, parseGlossaryFile } from '../services/glossary';
+import { GlossaryEntry } from '../types';
+
+interface GlossaryPanelProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  /** Terms shared by the room's Speaker; shown read-only, local entries override them. */
+  roomEntries?: GlossaryEntry[];
+}
+
+/**
+ * Editor for the terminology list injected into interpretation sessions.
+ * Terms can be typed in or imported from CSV (`source,target[,language]`) or TBX.
+ */
+const GlossaryPanel: React.FC<GlossaryPanelProps> = memo(({ entries, onChange, roomEntries = [] }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [language, setLanguage] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const addEntry = () => {
+    if (!source.trim()) return;
+    onChange(mergeGlossaries(entries, [createGlossaryEntry(source, target, language)]));
+    setSource('');
+    setTarget('');
+  };
+
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    onChange(entries.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      setImportError(null);
+      const imported = parseGlossaryFile(file.name, await file.text());
+      if (imported.length === 0) throw new Error('No terms found');
+      onChange(mergeGlossaries(entries, imported));
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed');
+    }
+  };
+
+  const inputClass = 'bg-white/5 text-[11px] text-white/90 rounded-lg px-3 py-1.5 outline-none border border-white/10 focus:ring-2 focus:ring-blue-500/50 placeholder:text-white/20';
+
+  return (
+    <div className="w-[680px] bg-black/60 backdrop-blur-3xl border border-white/10 rounded-3xl shadow-[0_0_40px_rgba(0,0,0,0.5)] overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <span className="text-[10px] text-white/40 uppercase font-black tracking-[0.4em]">Glossary</span>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.tbx,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/70 border border-white/10 hover:bg-white/15 hover:text-white transition-all"
+          >
+            Import CSV / TBX
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={entries.length === 0}
+            className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/70 border border-white/10 hover:bg-white/15 hover:text-white transition-all disabled:opacity-20"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-6 py-3 border-b border-white/5">
+        <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="Source term" className={`${inputClass} flex-1`} />
+        <span className="text-white/30 text-[11px]">→</span>
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addEntry(); }}
+          placeholder="Rendering (empty = keep as-is)"
+          className={`${inputClass} flex-1`}
+        />
+        <input value={language} onChange={(e) => setLanguage(e.target.value)} placeholder="Lang" maxLength={8} className={`${inputClass} w-16 font-mono`} />
+        <button
+          onClick={addEntry}
+          disabled={!source.trim()}
+          className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/10 text-white border border-white/20 hover:bg-white/20 disabled:opacity-20"
+        >
+          Add
+        </button>
+      </div>
+
+      {importError && <div className="px-6 py-2 text-[10px] text-red-400 font-bold">{importError}</div>}
+
+      <div className="max-h-48 overflow-y-auto px-6 py-3 flex flex-col gap-1.5">
+        {entries.length === 0 && roomEntries.length === 0 && (
+          <span className="text-[11px] text-white/30 italic text-center py-4">No terms yet</span>
+        )}
+        {roomEntries.map(entry => (
+          <div key={`room-${entry.id}`} className="grid grid-cols-[1fr_16px_1fr_48px_72px] gap-2 items-center text-[11px] text-white/50">
+            <span className="truncate">{entry.source}</span>
+            <span className="text-white/20">→</span>
+            <span className="truncate italic">{entry.doNotTranslate ? entry.source : entry.target}</span>
+            <span className="font-mono text-[9px] text-white/30">{entry.targetLanguage ?? ''}</span>
+            <span className="text-[8px] font-black uppercase tracking-[0.2em] text-white/30 text-right">Room</span>
+          </div>
+        ))}
+        {entries.map(entry => (
+          <div key={entry.id} className="grid grid-cols-[1fr_16px_1fr_48px_72px] gap-2 items-center text-[11px] text-white/85">
+            <span className="truncate">{entry.source}</span>
+            <span className="text-white/30">→</span>
+            <input
+              value={entry.doNotTranslate ? entry.source : entry.target}
+              onChange={(e) => updateEntry(entry.id, { target: e.target.value })}
+              disabled={entry.doNotTranslate}
+              className="bg-transparent text-blue-300 font-bold italic outline-none border-b border-transparent focus:border-white/20 disabled:text-white/40"
+            />
+            <span className="font-mono text-[9px] text-white/30">{entry.targetLanguage ?? ''}</span>
+            <div className="flex items-center justify-end gap-1">
+              <button
+                onClick={() => updateEntry(entry.id, { doNotTranslate: !entry.doNotTranslate })}
+                title="Do not translate"
+                className={`px-1.5 py-0.5 rounded text-[8px] font-black tracking-[0.1em] border ${entry.doNotTranslate ? 'bg-amber-500/20 text-amber-300 border-amber-500/40' : 'text-white/30 border-white/10 hover:text-white'}`}
+              >
+                DNT
+              </button>
+              <button
+                onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                className="w-5 h-5 rounded-full text-white/40 hover:text-white hover:bg-white/10"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+GlossaryPanel.displayName = 'GlossaryPanel';
+
+export default GlossaryPanel;
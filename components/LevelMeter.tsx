@@ -0,0 +1,54 @@
+import React, { useRef, useEffect, memo } from 'react';
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null;
+  color?: string;
+  className?: string;
+}
+
+/**
+ * Horizontal RMS level bar. Writes the bar width straight to the DOM from the
+ * animation loop so metering never triggers React renders.
+ */
+const LevelMeter: React.FC<LevelMeterProps> = memo(({ analyser, color = '#22c55e', className = '' }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+    if (!analyser) {
+      bar.style.width = '0%';
+      return;
+    }
+
+    let animationId: number;
+    const data = new Float32Array(analyser.fftSize);
+    let smoothed = 0;
+
+    const draw = () => {
+      animationId = requestAnimationFrame(draw);
+      analyser.getFloatTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+      const rms = Math.sqrt(sum / data.length);
+      // Map -60..0 dBFS onto the bar
+      const db = rms > 0 ? 20 * Math.log10(rms) : -100;
+      const level = Math.max(0, Math.min(1, (db + 60) / 60));
+      smoothed = level > smoothed ? level : smoothed * 0.9 + level * 0.1;
+      bar.style.width = `${(smoothed * 100).toFixed(1)}%`;
+    };
+
+    draw();
+    return () => cancelAnimationFrame(animationId);
+  }, [analyser]);
+
+  return (
+    <div className={`h-1.5 bg-white/10 rounded-full overflow-hidden ${className}`}>
+      <div ref={barRef} className="h-full rounded-full transition-[width] duration-75" style={{ width: '0%', backgroundColor: color, boxShadow: `0 0 8px ${color}` }} />
+    </div>
+  );
+});
+
+LevelMeter.displayName = 'LevelMeter';
+
+export default LevelMeter;
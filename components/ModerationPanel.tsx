@@ -0,0 +1,90 @@
+import React, { useEffect, useState, useSyncExternalStore, memo } from 'react';
+import { ModerationQueue } from '../services/moderationQueue';
+
+interface ModerationPanelProps {
+  queue: ModerationQueue;
+}
+
+/**
+ * Speaker-side review of transcribed sentences before they are broadcast.
+ * Focusing a line stops its auto-approve countdown; Enter approves it.
+ */
+const ModerationPanel: React.FC<ModerationPanelProps> = memo(({ queue }) => {
+  const { items } = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const [now, setNow] = useState(() => Date.now());
+  const isCounting = items.some(item => item.approveAt !== null);
+
+  useEffect(() => {
+    if (!isCounting) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [isCounting]);
+
+  return (
+    <div className="w-[680px] bg-black/60 backdrop-blur-3xl border border-white/10 rounded-3xl shadow-[0_0_40px_rgba(0,0,0,0.5)] overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <span className="text-[10px] text-white/40 uppercase font-black tracking-[0.4em]">
+          Moderation{items.length > 0 ? ` · ${items.length} pending` : ''}
+        </span>
+        <button
+          onClick={() => queue.approveAll()}
+          disabled={items.length === 0}
+          className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-green-500/10 text-green-400 border border-green-500/30 hover:bg-green-500/20 transition-all disabled:opacity-20"
+        >
+          Approve All
+        </button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto px-6 py-4 flex flex-col gap-2">
+        {items.length === 0 && (
+          <span className="text-[11px] text-white/30 italic text-center py-6">Sentences wait here before Listeners see them</span>
+        )}
+        {items.map((item, idx) => {
+          const isEdited = item.text !== item.originalText;
+          const secondsLeft = item.approveAt !== null ? Math.max(0, Math.ceil((item.approveAt - now) / 1000)) : null;
+          return (
+            <div key={item.id} className="flex items-center gap-2">
+              <input
+                value={item.text}
+                onFocus={() => queue.hold(item.id)}
+                onChange={(e) => queue.edit(item.id, e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') queue.approve(item.id); }}
+                title={isEdited ? `Heard: ${item.originalText}` : undefined}
+                className={`flex-1 min-w-0 bg-white/5 border rounded-lg px-3 py-1.5 text-[12px] text-white/90 outline-none focus:border-white/30 ${isEdited ? 'border-amber-500/40' : 'border-white/10'}`}
+              />
+              <span className="w-10 text-right text-[9px] font-mono text-white/30">
+                {secondsLeft !== null ? `${secondsLeft}s` : item.held ? 'held' : ''}
+              </span>
+              <button
+                onClick={() => queue.approve(item.id)}
+                title="Broadcast"
+                className="px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-[0.2em] bg-green-500/10 text-green-400 border border-green-500/30 hover:bg-green-500/20"
+              >
+                Send
+              </button>
+              <button
+                onClick={() => queue.mergeWithNext(item.id)}
+                disabled={idx === items.length - 1}
+                title="Join with the next sentence"
+                className="px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/60 border border-white/10 hover:text-white disabled:opacity-20"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => queue.drop(item.id)}
+                title="Never broadcast"
+                className="w-6 h-6 rounded-full text-white/40 hover:text-red-400 hover:bg-red-500/10"
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+ModerationPanel.displayName = 'ModerationPanel';
+
+export default ModerationPanel;
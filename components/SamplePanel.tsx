@@ -0,0 +1,173 @@
+import React, { useRef, useSyncExternalStore, memo } from 'react';
+import { SampleLibrary, isTimed, parseSampleFile } from '../services/sampleLibrary';
+import { SamplePacing, SamplePlayer, SamplePlayerSnapshot } from '../services/samplePlayer';
+
+interface SamplePanelProps {
+  library: SampleLibrary;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  /** Present from the first play until playback stops. */
+  player: SamplePlayer | null;
+  isActive: boolean;
+  pacing: SamplePacing;
+  onPacingChange: (pacing: SamplePacing) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onError: (message: string) => void;
+}
+
+const IDLE: SamplePlayerSnapshot = { state: 'stopped', index: 0, total: 0 };
+const noSubscription = () => () => {};
+
+const PACING_LABELS: Record<SamplePacing, string> = {
+  original: 'Timed',
+  afterSpeech: 'After Speech',
+};
+
+/**
+ * Listener rehearsal source: built-in and imported scripts (TXT, SRT, VTT,
+ * JSON) played into the interpreter with pause, seek and loop.
+ */
+const SamplePanel: React.FC<SamplePanelProps> = memo(({ library, selectedId, onSelect, player, isActive, pacing, onPacingChange, loop, onLoopChange, onStart, onStop, onError }) => {
+  const { samples } = useSyncExternalStore(library.subscribe, library.getSnapshot);
+  const playback = useSyncExternalStore(player?.subscribe ?? noSubscription, player?.getSnapshot ?? (() => IDLE));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = samples.find(s => s.id === selectedId);
+  const isPlaying = playback.state === 'playing';
+
+  const handleImport = async (file: File) => {
+    try {
+      const script = parseSampleFile(file.name, await file.text());
+      library.add(script);
+      onSelect(script.id);
+    } catch (err: any) {
+      onError(err.message || 'Could not read the sample file');
+    }
+  };
+
+  const togglePlayback = () => {
+    if (!player) onStart();
+    else if (isPlaying) player.pause();
+    else player.play();
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-3xl border border-white/10 rounded-2xl p-4 flex flex-col gap-3 shadow-[0_0_40px_rgba(0,0,0,0.5)]">
+      <div className="flex items-center gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="text-[9px] text-white/40 uppercase font-black tracking-widest pl-1">Source Stream</span>
+          <div className="flex items-center gap-1.5">
+            <select
+              value={selected ? selected.id : ''}
+              onChange={(e) => onSelect(e.target.value)}
+              disabled={!!player}
+              className="max-w-[220px] bg-white/5 text-[11px] font-bold text-white/90 rounded-xl px-4 py-2 outline-none border border-white/10 cursor-pointer hover:bg-white/10 transition-all focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+            >
+              <option value="" className="bg-gray-900">Choose Sample...</option>
+              {samples.map(s => (
+                <option key={s.id} value={s.id} className="bg-gray-900">{s.name}{isTimed(s) ? ' ⏱' : ''}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!!player}
+              title="Import a script (TXT, SRT, VTT or JSON)"
+              className="w-8 h-8 rounded-xl text-[14px] text-white/60 bg-white/5 border border-white/10 hover:text-white hover:bg-white/10 disabled:opacity-30"
+            >
+              +
+            </button>
+            {selected && !selected.builtIn && (
+              <button
+                onClick={() => { library.remove(selected.id); onSelect(''); }}
+                disabled={!!player}
+                title="Remove this sample"
+                className="w-8 h-8 rounded-xl text-[14px] text-white/40 bg-white/5 border border-white/10 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-30"
+              >
+                ×
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.srt,.vtt,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={togglePlayback}
+          disabled={!isActive || !selected}
+          title={isPlaying ? 'Pause' : player ? 'Resume' : 'Start Interpretation'}
+          className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-500 ${!isActive || !selected ? 'opacity-20' : 'hover:scale-110 active:scale-95 shadow-2xl'} ${isPlaying ? 'bg-red-500/30 text-red-400 border border-red-500/50 animate-pulse' : 'bg-white/10 text-white border border-white/20 hover:bg-white/20'}`}
+        >
+          {isPlaying ? (
+            <div className="flex gap-1">
+              <div className="w-1.5 h-3.5 bg-current rounded-sm shadow-[0_0_10px_currentColor]" />
+              <div className="w-1.5 h-3.5 bg-current rounded-sm shadow-[0_0_10px_currentColor]" />
+            </div>
+          ) : (
+            <div className="w-0 h-0 border-t-[7px] border-t-transparent border-l-[12px] border-l-current border-b-[7px] border-b-transparent ml-1 drop-shadow-[0_0_5px_rgba(255,255,255,0.5)]" />
+          )}
+        </button>
+        {player && (
+          <button
+            onClick={onStop}
+            title="Stop Interpretation"
+            className="w-8 h-8 rounded-full flex items-center justify-center bg-white/10 text-white/70 border border-white/20 hover:text-white hover:bg-white/20"
+          >
+            <div className="w-2.5 h-2.5 bg-current rounded-sm" />
+          </button>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 bg-white/5 p-0.5 rounded-full border border-white/10">
+            {(Object.keys(PACING_LABELS) as SamplePacing[]).map(p => (
+              <button
+                key={p}
+                onClick={() => onPacingChange(p)}
+                title={p === 'original' ? 'Use cue timings; untimed lines every 6 seconds' : 'Next line once the interpretation has been read out'}
+                className={`px-2.5 py-0.5 rounded-full text-[8px] font-black uppercase tracking-[0.15em] transition-all ${pacing === p ? 'bg-white text-black' : 'text-white/40 hover:text-white/80'}`}
+              >
+                {PACING_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => onLoopChange(!loop)}
+            className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-[0.2em] border transition-all ${loop ? 'bg-green-500/20 text-green-400 border-green-500/40' : 'bg-white/5 text-white/40 border-white/10'}`}
+          >
+            Loop
+          </button>
+          <input
+            type="range"
+            min="0"
+            max={Math.max(0, selected.lines.length - 1)}
+            step="1"
+            value={player ? playback.index : 0}
+            onChange={(e) => player?.seek(Number(e.target.value))}
+            disabled={!player}
+            title="Seek"
+            className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white disabled:opacity-30"
+          />
+          <span className="text-[9px] font-mono text-white/40 whitespace-nowrap">
+            {player ? playback.index + 1 : 0} / {selected.lines.length}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+SamplePanel.displayName = 'SamplePanel';
+
+export default SamplePanel;
@@ -0,0 +1,134 @@
+import React, { useRef, useState, useSyncExternalStore, memo } from 'react';
+import { SettingsPreset, SettingsStore, buildSettingsLink, downloadSettings } from '../services/settingsStore';
+import { LANGUAGE_CODES, SupportLanguage } from '../types';
+
+interface SettingsPanelProps {
+  store: SettingsStore;
+  /** Presets and imports change session settings, so they wait until the session stops. */
+  disabled?: boolean;
+}
+
+const describePreset = ({ settings }: SettingsPreset) => [
+  settings.targetLanguage && settings.targetLanguage !== SupportLanguage.AUTO ? LANGUAGE_CODES[settings.targetLanguage] : 'Auto',
+  settings.selectedVoice,
+  settings.volume !== undefined ? `${Math.round(settings.volume * 100)}%` : undefined,
+].filter(Boolean).join(' · ');
+
+/**
+ * Named presets plus JSON import / export of the persisted settings, and a
+ * link that hands the current configuration to someone else.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = memo(({ store, disabled = false }) => {
+  const { settings, presets } = useSyncExternalStore(store.subscribe, store.getSnapshot);
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const savePreset = () => {
+    if (!name.trim()) return;
+    store.savePreset(name);
+    setName('');
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      setImportError(null);
+      store.importJson(await file.text());
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed');
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(buildSettingsLink(settings)).then(() => {
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  const buttonClass = 'px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/70 border border-white/10 hover:bg-white/15 hover:text-white transition-all disabled:opacity-20';
+
+  return (
+    <div className="w-[680px] bg-black/60 backdrop-blur-3xl border border-white/10 rounded-3xl shadow-[0_0_40px_rgba(0,0,0,0.5)] overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <span className="text-[10px] text-white/40 uppercase font-black tracking-[0.4em]">Settings</span>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={copyLink} title="Copy a link that opens with these settings" className={buttonClass}>
+            {linkCopied ? 'Copied' : 'Copy Link'}
+          </button>
+          <button onClick={() => fileRef.current?.click()} disabled={disabled} className={buttonClass}>
+            Import
+          </button>
+          <button onClick={() => downloadSettings(store.exportJson())} className={buttonClass}>
+            Export
+          </button>
+          <button onClick={() => store.reset()} disabled={disabled} className={buttonClass}>
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-6 py-3 border-b border-white/5">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') savePreset(); }}
+          placeholder="Preset name, e.g. Spanish keynote"
+          className="flex-1 bg-white/5 text-[11px] text-white/90 rounded-lg px-3 py-1.5 outline-none border border-white/10 focus:ring-2 focus:ring-blue-500/50 placeholder:text-white/20"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/10 text-white border border-white/20 hover:bg-white/20 disabled:opacity-20"
+        >
+          Save Preset
+        </button>
+      </div>
+
+      {importError && <div className="px-6 py-2 text-[10px] text-red-400 font-bold">{importError}</div>}
+
+      <div className="max-h-48 overflow-y-auto px-6 py-3 flex flex-col gap-1.5">
+        {presets.length === 0 && (
+          <span className="text-[11px] text-white/30 italic text-center py-4">No presets yet</span>
+        )}
+        {presets.map(preset => (
+          <div key={preset.id} className="grid grid-cols-[1fr_1fr_64px] gap-2 items-center text-[11px] text-white/85">
+            <span className="truncate font-bold">{preset.name}</span>
+            <span className="truncate font-mono text-[9px] text-white/40">{describePreset(preset)}</span>
+            <div className="flex items-center justify-end gap-1">
+              <button
+                onClick={() => store.applyPreset(preset.id)}
+                disabled={disabled}
+                className="px-1.5 py-0.5 rounded text-[8px] font-black uppercase tracking-[0.1em] border text-white/60 border-white/10 hover:text-white hover:bg-white/10 disabled:opacity-20"
+              >
+                Apply
+              </button>
+              <button
+                onClick={() => store.deletePreset(preset.id)}
+                className="w-5 h-5 rounded-full text-white/40 hover:text-white hover:bg-white/10"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+SettingsPanel.displayName = 'SettingsPanel';
+
+export default SettingsPanel;
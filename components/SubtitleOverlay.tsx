@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createRelayTransport } from '../services/relayFactory';
+import { createLiveBackend } from '../services/liveBackendFactory';
+import { InterpreterPool } from '../services/interpreterPool';
+import { SegmentSequencer } from '../services/segmentSequencer';
+import { isSameLanguage } from '../services/languageDetection';
+import { OverlayConfig } from '../services/overlayConfig';
+import { LANGUAGE_CODES, PrebuiltVoice } from '../types';
+
+interface SubtitleOverlayProps {
+  config: OverlayConfig;
+}
+
+interface OverlayLine {
+  id: string;
+  text: string;
+  isFinal: boolean;
+  isFading: boolean;
+}
+
+const JUSTIFY: Record<OverlayConfig['position'], string> = {
+  top: 'justify-start',
+  center: 'justify-center',
+  bottom: 'justify-end',
+};
+
+/**
+ * Subtitles-only Listener for livestream overlays (`?view=overlay`).
+ * Joins the room, interprets finals through a text-only session (no audio is
+ * generated) and shows the last few translated lines on a transparent page.
+ */
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ config }) => {
+  const relay = useMemo(() => createRelayTransport(), []);
+  const liveBackend = useMemo(() => createLiveBackend(), []);
+  const [lines, setLines] = useState<OverlayLine[]>([]);
+  const [status, setStatus] = useState<string | null>('Connecting...');
+  const timersRef = useRef<Set<number>>(new Set());
+  // The line still being streamed, if any
+  const liveIdRef = useRef<string | null>(null);
+
+  const later = (delayMs: number, fn: () => void) => {
+    const timer = window.setTimeout(() => {
+      timersRef.current.delete(timer);
+      fn();
+    }, delayMs);
+    timersRef.current.add(timer);
+  };
+
+  const appendText = (fragment: string) => {
+    const liveId = liveIdRef.current;
+    if (liveId) {
+      setLines(prev => prev.map(l => l.id === liveId ? { ...l, text: l.text + fragment } : l));
+      return;
+    }
+    const id = crypto.randomUUID();
+    liveIdRef.current = id;
+    setLines(prev => [...prev, { id, text: fragment.trimStart(), isFinal: false, isFading: false }].slice(-config.lines));
+  };
+
+  const finishLine = () => {
+    const id = liveIdRef.current;
+    if (!id) return;
+    liveIdRef.current = null;
+    setLines(prev => prev.map(l => l.id === id ? { ...l, text: l.text.trim(), isFinal: true } : l));
+    if (config.holdMs === 0) return;
+    later(config.holdMs, () => {
+      setLines(prev => prev.map(l => l.id === id ? { ...l, isFading: true } : l));
+      later(config.fadeMs, () => setLines(prev => prev.filter(l => l.id !== id)));
+    });
+  };
+
+  useEffect(() => {
+    if (!relay) {
+      setStatus('Relay unavailable');
+      return;
+    }
+    if (!config.roomCode) {
+      setStatus('Add ?room=CODE to the overlay URL');
+      return;
+    }
+
+    let disposed = false;
+    let unsubscribe = () => {};
+    const pool = new InterpreterPool(process.env.API_KEY || '', PrebuiltVoice.KORE, liveBackend);
+    pool.setResponseModality('text');
+    const sequencer = new SegmentSequencer({
+      onPartial: () => {},
+      onFinal: (segment) => {
+        // Already in the overlay language: show the original line as is
+        if (isSameLanguage(segment.sourceLanguage, LANGUAGE_CODES[config.language] ?? config.language)) {
+          finishLine();
+          appendText(segment.text);
+          finishLine();
+          return;
+        }
+        pool.sendText(segment.text);
+      },
+    });
+
+    (async () => {
+      try {
+        const room = await relay.joinRoom(config.roomCode);
+        if (disposed) return;
+        pool.setGlossary(room.glossary ?? []);
+        await pool.start([config.language], {
+          onOpen: () => setStatus(null),
+          onOutputTranscription: (_language, text) => appendText(text),
+          onAudioData: () => {},
+          onInterrupted: () => finishLine(),
+          onTurnComplete: () => finishLine(),
+          onError: (_language, err) => setStatus(err.message || 'Interpretation failed'),
+        });
+        if (disposed) return;
+        unsubscribe = relay.subscribe(room, {
+          onSegment: (segment) => sequencer.push(segment),
+          onRoomClosed: () => setStatus('Room closed'),
+          onGlossary: (glossary) => pool.setGlossary(glossary),
+        });
+      } catch (err: any) {
+        if (!disposed) setStatus(err.message || 'Could not join room');
+      }
+    })();
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      sequencer.dispose();
+      pool.stop();
+    };
+  }, [relay, liveBackend, config.roomCode, config.language]);
+
+  useEffect(() => () => { relay?.close(); }, [relay]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  return (
+    <div className={`fixed inset-0 flex flex-col items-center ${JUSTIFY[config.position]} gap-[0.3em] px-[6vw] py-[5vh] pointer-events-none`} style={{ fontSize: config.fontSize }}>
+      {lines.map(line => (
+        <div
+          key={line.id}
+          className="max-w-full text-center font-bold leading-snug"
+          style={{
+            opacity: line.isFading ? 0 : 1,
+            transition: `opacity ${config.fadeMs}ms ease-out`,
+          }}
+        >
+          <span
+            className="px-[0.4em] py-[0.1em] rounded-[0.2em] [box-decoration-break:clone] [-webkit-box-decoration-break:clone]"
+            style={{
+              color: config.color,
+              backgroundColor: config.background,
+              textShadow: '0 0 0.12em rgba(0, 0, 0, 0.9), 0 0.05em 0.1em rgba(0, 0, 0, 0.9)',
+            }}
+          >
+            {line.text}
+          </span>
+        </div>
+      ))}
+      {status && lines.length === 0 && (
+        <div className="fixed top-2 left-3 text-[11px] font-mono text-white/40">{status}</div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useSyncExternalStore, memo } from 'react';
+import { TranscriptStore, pairTranscript } from '../services/transcriptStore';
+import { TranscriptExportFormat, downloadTranscript, formatCueTime } from '../services/transcriptExport';
+import { LANGUAGE_CODES } from '../types';
+
+interface TranscriptHistoryProps {
+  store: TranscriptStore;
+  /** Recorded audio tracks that go into the session archive. */
+  trackCount?: number;
+  /** Downloads transcripts, audio and metadata as one zip; omitted while a session is running. */
+  onDownloadArchive?: () => void;
+}
+
+const EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+/**
+ * Scrollable source/translation log for the current session with export actions.
+ * Sticks to the bottom while new lines arrive unless the user has scrolled up.
+ */
+const TranscriptHistory: React.FC<TranscriptHistoryProps> = memo(({ store, trackCount = 0, onDownloadArchive }) => {
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot);
+  const pairs = useMemo(() => pairTranscript(snapshot.records, snapshot.liveTranslations), [snapshot]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pinnedRef = useRef(true);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && pinnedRef.current) el.scrollTop = el.scrollHeight;
+  }, [pairs]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (el) pinnedRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  const isMultiLanguage = useMemo(
+    () => new Set(snapshot.records.filter(r => r.type === 'output').map(r => r.language)).size > 1,
+    [snapshot.records]
+  );
+
+  const offset = (time: number) => formatCueTime(time - snapshot.sessionStart, '.').slice(0, 8);
+
+  return (
+    <div className="w-[680px] bg-black/60 backdrop-blur-3xl border border-white/10 rounded-3xl shadow-[0_0_40px_rgba(0,0,0,0.5)] overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <span className="text-[10px] text-white/40 uppercase font-black tracking-[0.4em]">Session Transcript</span>
+        <div className="flex items-center gap-2">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => downloadTranscript(snapshot, format)}
+              disabled={snapshot.records.length === 0}
+              className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-white/5 text-white/70 border border-white/10 hover:bg-white/15 hover:text-white transition-all disabled:opacity-20"
+            >
+              {format}
+            </button>
+          ))}
+          <button
+            onClick={onDownloadArchive}
+            disabled={!onDownloadArchive || (snapshot.records.length === 0 && trackCount === 0)}
+            title={onDownloadArchive ? `Transcripts, ${trackCount} audio track${trackCount === 1 ? '' : 's'} and session details` : 'Available once the session stops'}
+            className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-[0.2em] bg-blue-500/10 text-blue-300 border border-blue-500/30 hover:bg-blue-500/20 transition-all disabled:opacity-20"
+          >
+            Session .zip
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={handleScroll} className="max-h-64 overflow-y-auto px-6 py-4 flex flex-col gap-3">
+        {pairs.length === 0 && (
+          <span className="text-[11px] text-white/30 italic text-center py-6">Nothing transcribed yet</span>
+        )}
+        {pairs.map((pair, idx) => {
+          const first = pair.source ?? pair.translations[0];
+          return (
+            <div key={first.id ?? idx} className="grid grid-cols-[64px_1fr_1fr] gap-4 items-start">
+              <span className="text-[9px] font-mono text-white/30 pt-0.5">[{offset(first.startTime)}]</span>
+              <span className="text-[12px] text-white/85 leading-relaxed">
+                {pair.source?.text ?? '—'}
+                {pair.source?.originalText && (
+                  <span className="block text-[10px] text-white/30 line-through" title="As transcribed, before correction">{pair.source.originalText}</span>
+                )}
+              </span>
+              <div className="flex flex-col gap-1">
+                {pair.translations.length === 0 && <span className="text-[12px] text-blue-300/50 italic">…</span>}
+                {pair.translations.map(t => (
+                  <span key={t.id} className={`text-[12px] text-blue-300 font-bold italic leading-relaxed ${snapshot.liveTranslations.includes(t) ? 'opacity-60' : ''}`}>
+                    {isMultiLanguage && <span className="not-italic text-[9px] font-mono text-white/30 mr-2">{languageTag(t.language)}</span>}
+                    {t.text}
+                    {t.glossaryViolations && (
+                      <span className="not-italic block text-[9px] font-black uppercase tracking-[0.15em] text-red-400">
+                        Glossary · expected {t.glossaryViolations.join(', ')}
+                      </span>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+function languageTag(language?: string): string {
+  if (!language) return '';
+  return LANGUAGE_CODES[language] ?? language;
+}
+
+TranscriptHistory.displayName = 'TranscriptHistory';
+
+export default TranscriptHistory;
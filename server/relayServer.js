@@ -0,0 +1,140 @@
+// Minimal LAN relay for CriptLator (`npm run relay`).
+// Speaks the same envelope as services/webSocketRelay.ts; rooms live in memory.
+import { randomUUID, randomInt } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.RELAY_PORT || 8787);
+const PRESENCE_TIMEOUT_MS = 15000;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** @type {Map<string, { id: string, code: string, status: 'open' | 'closed', createdAt: number, glossary?: any[] }>} */
+const roomsById = new Map();
+/** @type {Map<string, string>} code -> room id */
+const roomIdsByCode = new Map();
+/** @type {Map<string, Set<import('ws').WebSocket>>} */
+const subscribers = new Map();
+/** @type {Map<string, Map<string, { peer: any, socket: import('ws').WebSocket }>>} */
+const presence = new Map();
+
+function generateRoomCode() {
+  let code = '';
+  for (let i = 0; i < 6; i++) code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+  return roomIdsByCode.has(code) ? generateRoomCode() : code;
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function broadcast(roomId, message) {
+  subscribers.get(roomId)?.forEach(socket => send(socket, message));
+}
+
+function syncPresence(roomId) {
+  const peers = presence.get(roomId);
+  if (!peers) return;
+  const now = Date.now();
+  peers.forEach((entry, clientId) => {
+    if (now - entry.peer.lastSeen > PRESENCE_TIMEOUT_MS) peers.delete(clientId);
+  });
+  broadcast(roomId, { type: 'presence-sync', roomId, peers: [...peers.values()].map(e => e.peer) });
+}
+
+function reply(socket, requestId, payload) {
+  send(socket, { type: 'reply', requestId, ...payload });
+}
+
+function handle(socket, message) {
+  switch (message.type) {
+    case 'open-room': {
+      const room = { id: randomUUID(), code: generateRoomCode(), status: 'open', createdAt: Date.now() };
+      roomsById.set(room.id, room);
+      roomIdsByCode.set(room.code, room.id);
+      reply(socket, message.requestId, { room });
+      break;
+    }
+    case 'join-room': {
+      const room = roomsById.get(roomIdsByCode.get(message.code));
+      if (!room) reply(socket, message.requestId, { error: { reason: 'NOT_FOUND', message: 'Room not found' } });
+      else if (room.status === 'closed') reply(socket, message.requestId, { error: { reason: 'CLOSED', message: 'Room is closed' } });
+      else reply(socket, message.requestId, { room });
+      break;
+    }
+    case 'close-room': {
+      const room = roomsById.get(message.roomId);
+      if (room) room.status = 'closed';
+      broadcast(message.roomId, { type: 'room-closed', roomId: message.roomId });
+      reply(socket, message.requestId, { room });
+      break;
+    }
+    case 'subscribe': {
+      if (!subscribers.has(message.roomId)) subscribers.set(message.roomId, new Set());
+      subscribers.get(message.roomId).add(socket);
+      syncPresence(message.roomId);
+      break;
+    }
+    case 'unsubscribe':
+      subscribers.get(message.roomId)?.delete(socket);
+      break;
+    case 'segment':
+      if (roomsById.get(message.roomId)?.status === 'open') broadcast(message.roomId, message);
+      break;
+    case 'glossary': {
+      // Kept on the room so Listeners joining later receive it with the join reply
+      const room = roomsById.get(message.roomId);
+      if (room?.status !== 'open') break;
+      room.glossary = message.glossary;
+      broadcast(message.roomId, message);
+      break;
+    }
+    case 'presence': {
+      if (!presence.has(message.roomId)) presence.set(message.roomId, new Map());
+      presence.get(message.roomId).set(message.peer.clientId, { peer: { ...message.peer, lastSeen: Date.now() }, socket });
+      syncPresence(message.roomId);
+      break;
+    }
+    case 'presence-leave':
+      presence.get(message.roomId)?.delete(message.clientId);
+      syncPresence(message.roomId);
+      break;
+  }
+}
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (err) {
+      console.warn('Relay: dropped malformed frame', err.message);
+      return;
+    }
+    if (!message || typeof message.type !== 'string') {
+      console.warn('Relay: dropped frame without a message type');
+      return;
+    }
+    try {
+      handle(socket, message);
+    } catch (err) {
+      console.error('Relay: failed to handle', message.type, err);
+    }
+  });
+
+  socket.on('close', () => {
+    subscribers.forEach(set => set.delete(socket));
+    presence.forEach((peers, roomId) => {
+      let changed = false;
+      peers.forEach((entry, clientId) => {
+        if (entry.socket === socket) {
+          peers.delete(clientId);
+          changed = true;
+        }
+      });
+      if (changed) syncPresence(roomId);
+    });
+  });
+});
+
+console.log(`CriptLator relay listening on ws://0.0.0.0:${PORT}`);
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PcmChunker, startPcmCapture } from './audioCapture';
+
+const TARGET_RATE = 16000;
+const CHUNK_SAMPLES = 4096; // 256 ms at 16 kHz
+const TONE_HZ = 440;
+const AMPLITUDE = 0.5;
+
+const tone = (sampleRate: number, samples: number) =>
+  Float32Array.from({ length: samples }, (_, i) => AMPLITUDE * Math.sin(2 * Math.PI * TONE_HZ * i / sampleRate));
+
+// Output sample k interpolates input position k * step, one sample behind input[0]
+const expected = (k: number, sampleRate: number) => {
+  const seconds = (k * sampleRate / TARGET_RATE - 1) / sampleRate;
+  return seconds < 0 ? 0 : AMPLITUDE * Math.sin(2 * Math.PI * TONE_HZ * seconds) * 0x7FFF;
+};
+
+function expectResampled(chunks: Int16Array[], sampleRate: number, seconds: number) {
+  expect(chunks.slice(0, -1).every(c => c.length === CHUNK_SAMPLES)).toBe(true);
+  const samples = chunks.flatMap(c => Array.from(c));
+  expect(Math.abs(samples.length - TARGET_RATE * seconds)).toBeLessThanOrEqual(1);
+  samples.forEach((value, k) => expect(Math.abs(value - expected(k, sampleRate))).toBeLessThan(100));
+}
+
+function feed(input: Float32Array, blockSize: number, process: (block: Float32Array) => void) {
+  for (let i = 0; i < input.length; i += blockSize) process(input.subarray(i, i + blockSize));
+}
+
+describe('PcmChunker', () => {
+  it.each([44100, 48000])('resamples %i Hz to 16 kHz PCM16 chunks', (sampleRate) => {
+    const chunks: Int16Array[] = [];
+    const chunker = new PcmChunker(sampleRate, TARGET_RATE, CHUNK_SAMPLES, pcm => chunks.push(pcm));
+    feed(tone(sampleRate, sampleRate), 4096, block => chunker.process(block));
+    chunker.flush();
+    expectResampled(chunks, sampleRate, 1);
+  });
+
+  it('gives the same samples whatever the block size', () => {
+    const input = tone(44100, 44100);
+    const run = (blockSize: number) => {
+      const chunks: Int16Array[] = [];
+      const chunker = new PcmChunker(44100, TARGET_RATE, CHUNK_SAMPLES, pcm => chunks.push(pcm));
+      feed(input, blockSize, block => chunker.process(block));
+      chunker.flush();
+      return chunks.flatMap(c => Array.from(c));
+    };
+    const whole = run(input.length);
+    const blocks = run(128);
+    expect(Math.abs(blocks.length - whole.length)).toBeLessThanOrEqual(1);
+    blocks.slice(0, whole.length).forEach((value, k) => expect(Math.abs(value - whole[k])).toBeLessThanOrEqual(1));
+  });
+
+  it('clips out-of-range input', () => {
+    const chunks: Int16Array[] = [];
+    const chunker = new PcmChunker(TARGET_RATE, TARGET_RATE, 4, pcm => chunks.push(pcm));
+    chunker.process(Float32Array.from([2, 2, -2, -2]));
+    chunker.flush();
+    expect(chunks.flatMap(c => Array.from(c))).toEqual([0, 0x7FFF, 0x7FFF, -0x7FFF]);
+  });
+});
+
+describe('startPcmCapture', () => {
+  const source = { connect: vi.fn(), disconnect: vi.fn() } as unknown as AudioNode;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Loads the worklet module the way a browser would, with the rendering thread's globals
+  function workletContext(sampleRate: number) {
+    type Message = { data: unknown };
+    type Port = { onmessage: ((event: Message) => void) | null; postMessage: (data: unknown) => void };
+    let blob: Blob | undefined;
+    let Processor: new (options: unknown) => { port: Port; process(inputs: Float32Array[][]): boolean };
+    let processor: InstanceType<typeof Processor>;
+    let nodePort: Port;
+
+    vi.spyOn(URL, 'createObjectURL').mockImplementation(b => { blob = b as Blob; return 'blob:worklet'; });
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    class AudioWorkletProcessor {
+      port: Port = { onmessage: null, postMessage: data => nodePort.onmessage?.({ data }) };
+    }
+    vi.stubGlobal('AudioWorkletNode', class {
+      port: Port = { onmessage: null, postMessage: data => processor.port.onmessage?.({ data }) };
+      constructor(_ctx: unknown, _name: string, options: unknown) {
+        nodePort = this.port;
+        processor = new Processor(options);
+      }
+    });
+
+    const ctx = {
+      sampleRate,
+      audioWorklet: {
+        addModule: async () => {
+          const code = await blob!.text();
+          new Function('AudioWorkletProcessor', 'registerProcessor', 'sampleRate', code)(
+            AudioWorkletProcessor,
+            (_name: string, ctor: typeof Processor) => { Processor = ctor; },
+            sampleRate,
+          );
+        },
+      },
+    } as unknown as AudioContext;
+    return { ctx, process: (block: Float32Array) => processor.process([[block]]) };
+  }
+
+  it.each([44100, 48000])('captures %i Hz through the worklet', async (sampleRate) => {
+    const { ctx, process } = workletContext(sampleRate);
+    const chunks: Int16Array[] = [];
+    const capture = await startPcmCapture(ctx, source, { onChunk: pcm => chunks.push(pcm) });
+    expect(capture.mode).toBe('worklet');
+
+    // Render quanta are 128 frames
+    feed(tone(sampleRate, sampleRate), 128, process);
+    capture.stop();
+    expectResampled(chunks, sampleRate, 1);
+  });
+
+  it.each([44100, 48000])('captures %i Hz through the ScriptProcessor fallback', async (sampleRate) => {
+    const processor = { onaudioprocess: null as ((e: unknown) => void) | null, connect: vi.fn(), disconnect: vi.fn() };
+    const ctx = { sampleRate, createScriptProcessor: () => processor, destination: {} } as unknown as AudioContext;
+    const chunks: Int16Array[] = [];
+    const capture = await startPcmCapture(ctx, source, { onChunk: pcm => chunks.push(pcm) });
+    expect(capture.mode).toBe('script-processor');
+
+    feed(tone(sampleRate, sampleRate), 4096, block => processor.onaudioprocess?.({ inputBuffer: { getChannelData: () => block } }));
+    capture.stop();
+    expectResampled(chunks, sampleRate, 1);
+  });
+});
@@ -0,0 +1,157 @@
+export type PcmCaptureMode = 'worklet' | 'script-processor';
+
+export interface PcmCaptureOptions {
+  onChunk: (pcm: Int16Array) => void;
+  /** Sample rate delivered to `onChunk`. Gemini Live expects 16 kHz. */
+  targetSampleRate?: number;
+  /** Duration of each emitted chunk. */
+  chunkDurationMs?: number;
+}
+
+export interface PcmCapture {
+  readonly mode: PcmCaptureMode;
+  stop: () => void;
+}
+
+const DEFAULT_TARGET_RATE = 16000;
+const DEFAULT_CHUNK_MS = 256;
+const PROCESSOR_NAME = 'criptlator-pcm-capture';
+
+/**
+ * Streaming linear-interpolation resampler + PCM16 chunker.
+ * Runs inside the capture worklet, or on the main thread when AudioWorklet is
+ * unavailable. The worklet is built from this class's source, so it must not
+ * reference anything outside itself.
+ */
+export class PcmChunker {
+  private step: number;
+  private position = 0;
+  private previous = 0;
+  private chunk: Int16Array;
+  private filled = 0;
+  private onChunk: (pcm: Int16Array) => void;
+
+  constructor(inputSampleRate: number, targetSampleRate: number, chunkSamples: number, onChunk: (pcm: Int16Array) => void) {
+    this.step = inputSampleRate / targetSampleRate;
+    this.chunk = new Int16Array(chunkSamples);
+    this.onChunk = onChunk;
+  }
+
+  process(input: Float32Array) {
+    if (input.length === 0) return;
+    // Interpolate between the previous block's last sample and this block, so
+    // position is measured with index 0 sitting one sample before input[0]
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index === 0 ? this.previous : input[index - 1];
+      const b = input[index];
+      const value = Math.max(-1, Math.min(1, a + (b - a) * frac));
+      this.chunk[this.filled++] = value * 0x7FFF;
+      if (this.filled === this.chunk.length) {
+        this.onChunk(this.chunk);
+        this.chunk = new Int16Array(this.chunk.length);
+        this.filled = 0;
+      }
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    this.onChunk(this.chunk.slice(0, this.filled));
+    this.filled = 0;
+  }
+}
+
+// Runs on the audio rendering thread. Worklet modules cannot import from the
+// app bundle, so PcmChunker is inlined from its own source.
+const WORKLET_SOURCE = `
+const PcmChunker = ${PcmChunker.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.chunker = new PcmChunker(sampleRate, targetSampleRate, chunkSamples, (pcm) => this.port.postMessage(pcm, [pcm.buffer]));
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') this.chunker.flush();
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (input) this.chunker.process(input);
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function loadWorklet(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Captures `source` as 16 kHz PCM16 chunks. Resampling, conversion and
+ * chunking happen in an AudioWorklet off the main thread; browsers without
+ * worklet support fall back to a ScriptProcessorNode running PcmChunker.
+ */
+export async function startPcmCapture(ctx: AudioContext, source: AudioNode, options: PcmCaptureOptions): Promise<PcmCapture> {
+  const targetSampleRate = options.targetSampleRate ?? DEFAULT_TARGET_RATE;
+  const chunkSamples = Math.max(1, Math.round(targetSampleRate * (options.chunkDurationMs ?? DEFAULT_CHUNK_MS) / 1000));
+
+  if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+    try {
+      await loadWorklet(ctx);
+      const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: { targetSampleRate, chunkSamples },
+      });
+      node.port.onmessage = (event: MessageEvent<Int16Array>) => options.onChunk(event.data);
+      source.connect(node);
+
+      return {
+        mode: 'worklet',
+        stop: () => {
+          node.port.postMessage('flush');
+          source.disconnect(node);
+          // Let the flushed tail arrive before detaching the handler
+          window.setTimeout(() => { node.port.onmessage = null; }, 50);
+        },
+      };
+    } catch (err) {
+      console.warn('AudioWorklet capture unavailable, falling back to ScriptProcessor', err);
+    }
+  }
+
+  const chunker = new PcmChunker(ctx.sampleRate, targetSampleRate, chunkSamples, options.onChunk);
+  const processor = ctx.createScriptProcessor(4096, 1, 1);
+  processor.onaudioprocess = (e) => chunker.process(e.inputBuffer.getChannelData(0));
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    mode: 'script-processor',
+    stop: () => {
+      chunker.flush();
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    },
+  };
+}
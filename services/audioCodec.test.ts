@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { decode, decodeAudioData, encode, pcm16ToChannels } from './audioCodec';
+
+function pcmBytes(samples: number[]): Uint8Array {
+  return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+/** Just enough of an AudioContext for `decodeAudioData`. */
+function fakeContext() {
+  return {
+    createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+      const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+      return {
+        numberOfChannels,
+        length,
+        sampleRate,
+        duration: length / sampleRate,
+        getChannelData: (channel: number) => channels[channel],
+      } as unknown as AudioBuffer;
+    },
+  };
+}
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('round-trips payloads larger than one encode block', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 17 }, (_, i) => (i * 31) & 0xff);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('encodes only the bytes a subarray view covers', () => {
+    const backing = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+    expect(decode(encode(backing.subarray(2, 5)))).toEqual(Uint8Array.from([3, 4, 5]));
+  });
+
+  it('handles empty input', () => {
+    expect(encode(new Uint8Array(0))).toBe('');
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('pcm16ToChannels', () => {
+  it('scales samples to [-1, 1)', () => {
+    const [mono] = pcm16ToChannels(pcmBytes([0, 16384, -32768, 32767]), 1);
+    expect(Array.from(mono)).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('de-interleaves multi-channel audio', () => {
+    const [left, right] = pcm16ToChannels(pcmBytes([100, -100, 200, -200, 300, -300]), 2);
+    expect(Array.from(left).map(v => Math.round(v * 32768))).toEqual([100, 200, 300]);
+    expect(Array.from(right).map(v => Math.round(v * 32768))).toEqual([-100, -200, -300]);
+  });
+
+  it('drops a trailing partial frame', () => {
+    const channels = pcm16ToChannels(pcmBytes([1, 2, 3, 4, 5]), 2);
+    expect(channels.map(c => c.length)).toEqual([2, 2]);
+  });
+
+  it('reads subarray views from their own offset', () => {
+    const backing = pcmBytes([9999, 1000, 2000, 9999]);
+    const [mono] = pcm16ToChannels(backing.subarray(2, 6), 1);
+    expect(Array.from(mono).map(v => v * 32768)).toEqual([1000, 2000]);
+  });
+
+  it('copies views that start on an odd byte offset', () => {
+    const backing = new Uint8Array(7);
+    backing.set(pcmBytes([1234, -4321, 42]), 1);
+    const [mono] = pcm16ToChannels(backing.subarray(1), 1);
+    expect(Array.from(mono).map(v => v * 32768)).toEqual([1234, -4321, 42]);
+  });
+
+  it('ignores a trailing odd byte', () => {
+    const bytes = new Uint8Array(5);
+    bytes.set(pcmBytes([500, -500]));
+    bytes[4] = 0x7f;
+    const [mono] = pcm16ToChannels(bytes, 1);
+    expect(Array.from(mono).map(v => v * 32768)).toEqual([500, -500]);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('fills one buffer channel per interleaved channel', async () => {
+    const buffer = await decodeAudioData(pcmBytes([16384, -16384, 8192, -8192]), fakeContext(), 24000, 2);
+    expect(buffer.numberOfChannels).toBe(2);
+    expect(buffer.length).toBe(2);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('survives a base64 payload decoded into a misaligned view', async () => {
+    const payload = encode(pcmBytes([3000, -3000, 6000]));
+    const backing = new Uint8Array(1 + 6);
+    backing.set(decode(payload), 1);
+    const buffer = await decodeAudioData(backing.subarray(1), fakeContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0)).map(v => v * 32768)).toEqual([3000, -3000, 6000]);
+  });
+
+  it('returns a one-frame silent buffer for empty input', async () => {
+    const buffer = await decodeAudioData(new Uint8Array(0), fakeContext(), 24000, 1);
+    expect(buffer.length).toBe(1);
+    expect(buffer.getChannelData(0)[0]).toBe(0);
+  });
+});
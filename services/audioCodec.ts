@@ -0,0 +1,57 @@
+/**
+ * Base64 / PCM16 helpers shared by capture (Speaker → Gemini) and playback
+ * (Gemini → speakers). Live audio is little-endian signed 16-bit PCM.
+ */
+
+export function encode(bytes: Uint8Array): string {
+  // Build the binary string in blocks; one char at a time is slow for 16 kHz audio
+  const CHUNK = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK) as unknown as number[]);
+  }
+  return btoa(binary);
+}
+
+export function decode(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Splits interleaved PCM16 into one float channel per output channel.
+ * Works on any view: unaligned offsets are copied, a trailing odd byte and a
+ * trailing partial frame are dropped.
+ */
+export function pcm16ToChannels(data: Uint8Array, numChannels: number): Float32Array[] {
+  const sampleCount = Math.floor(data.byteLength / 2);
+  const samples = data.byteOffset % 2 === 0
+    ? new Int16Array(data.buffer, data.byteOffset, sampleCount)
+    : new Int16Array(data.slice(0, sampleCount * 2).buffer);
+  const frameCount = Math.floor(sampleCount / numChannels);
+
+  return Array.from({ length: numChannels }, (_, channel) => {
+    const out = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      out[i] = samples[i * numChannels + channel] / 32768.0;
+    }
+    return out;
+  });
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: Pick<BaseAudioContext, 'createBuffer'>,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const channels = pcm16ToChannels(data, numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, channels[0]?.length ?? 0), sampleRate);
+  channels.forEach((samples, channel) => buffer.getChannelData(channel).set(samples));
+  return buffer;
+}
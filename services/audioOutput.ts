@@ -0,0 +1,92 @@
+import { PlaybackQueue } from './playbackScheduler';
+
+// Chrome and Edge route a whole AudioContext; the DOM typings do not have it yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/** Fired on `window` whenever the interpretation stream appears or goes away. */
+export const OUTPUT_STREAM_EVENT = 'criptlator:outputstream';
+
+declare global {
+  interface Window {
+    /** Interpreted audio while a session runs, for embedding pages and same-origin tabs. */
+    criptlatorOutputStream?: MediaStream | null;
+  }
+}
+
+export function isOutputSelectionSupported(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audiooutput');
+}
+
+/** Routes everything `ctx` plays to `deviceId`; '' is the system default. */
+export async function setOutputDevice(ctx: AudioContext, deviceId: string) {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) {
+    if (deviceId) throw new Error('This browser cannot choose an output device');
+    return;
+  }
+  try {
+    await sinkable.setSinkId(deviceId);
+  } catch (err: any) {
+    if (err?.name === 'NotFoundError') throw new Error('Selected output device is not available');
+    throw new Error(err?.message || 'Could not switch the output device');
+  }
+}
+
+/**
+ * Makes `stream` available to other code on the page (and to tabs it opened,
+ * via `window.opener`), and announces the change with `OUTPUT_STREAM_EVENT`.
+ */
+export function publishOutputStream(stream: MediaStream | null) {
+  window.criptlatorOutputStream = stream;
+  window.dispatchEvent(new CustomEvent(OUTPUT_STREAM_EVENT, { detail: stream }));
+}
+
+/**
+ * Plays PCM16 chunks, as sent to Gemini, on their own output device. Lets a
+ * Speaker hear or forward the original next to the interpretation.
+ */
+export class PcmMonitor {
+  private ctx: AudioContext;
+  private queue: PlaybackQueue;
+  private sampleRate: number;
+
+  private constructor(ctx: AudioContext, sampleRate: number) {
+    this.ctx = ctx;
+    this.sampleRate = sampleRate;
+    this.queue = new PlaybackQueue(ctx, ctx.destination);
+  }
+
+  static async open(deviceId: string, sampleRate: number = 16000): Promise<PcmMonitor> {
+    const ctx = new AudioContext();
+    try {
+      await setOutputDevice(ctx, deviceId);
+    } catch (err) {
+      ctx.close().catch(() => {});
+      throw err;
+    }
+    return new PcmMonitor(ctx, sampleRate);
+  }
+
+  push(pcm: Int16Array) {
+    if (pcm.length === 0) return;
+    const buffer = this.ctx.createBuffer(1, pcm.length, this.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+    this.queue.play(buffer);
+  }
+
+  setDevice(deviceId: string): Promise<void> {
+    return setOutputDevice(this.ctx, deviceId);
+  }
+
+  close() {
+    this.queue.stop();
+    this.ctx.close().catch(() => {});
+  }
+}
@@ -0,0 +1,139 @@
+import { SourceType } from '../types';
+
+export type CaptureSourceKind = 'mic' | 'system';
+
+export class CaptureSourceError extends Error {
+  kind: CaptureSourceKind;
+
+  constructor(kind: CaptureSourceKind, message: string) {
+    super(message);
+    this.name = 'CaptureSourceError';
+    this.kind = kind;
+  }
+}
+
+interface MixerChannel {
+  stream: MediaStream;
+  node: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  level: number;
+  muted: boolean;
+}
+
+export function sourceKindsFor(type: SourceType): CaptureSourceKind[] {
+  switch (type) {
+    case SourceType.MIC: return ['mic'];
+    case SourceType.SYSTEM: return ['system'];
+    case SourceType.BOTH: return ['mic', 'system'];
+    // Files are decoded and fed directly, without a capture graph
+    case SourceType.FILE: return [];
+  }
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+}
+
+/**
+ * Mix graph for the Speaker: each capture source gets its own gain (for
+ * level and mute) and analyser (for metering) before summing into `output`.
+ */
+export class SourceMixer {
+  readonly output: GainNode;
+  private ctx: AudioContext;
+  private channels = new Map<CaptureSourceKind, MixerChannel>();
+
+  constructor(ctx: AudioContext) {
+    this.ctx = ctx;
+    this.output = ctx.createGain();
+  }
+
+  /** Opens the given sources; throws CaptureSourceError naming the first one that yields no audio. */
+  async open(kinds: CaptureSourceKind[], micDeviceId?: string) {
+    for (const kind of kinds) {
+      const stream = kind === 'mic' ? await openMicrophone(micDeviceId) : await openSystemAudio();
+      this.attach(kind, stream);
+    }
+  }
+
+  getAnalyser(kind: CaptureSourceKind): AnalyserNode | null {
+    return this.channels.get(kind)?.analyser ?? null;
+  }
+
+  setLevel(kind: CaptureSourceKind, level: number) {
+    const channel = this.channels.get(kind);
+    if (!channel) return;
+    channel.level = level;
+    this.applyGain(channel);
+  }
+
+  setMuted(kind: CaptureSourceKind, muted: boolean) {
+    const channel = this.channels.get(kind);
+    if (!channel) return;
+    channel.muted = muted;
+    this.applyGain(channel);
+  }
+
+  stop() {
+    this.channels.forEach(channel => {
+      channel.stream.getTracks().forEach(track => track.stop());
+      channel.node.disconnect();
+      channel.gain.disconnect();
+    });
+    this.channels.clear();
+    this.output.disconnect();
+  }
+
+  private attach(kind: CaptureSourceKind, stream: MediaStream) {
+    const node = this.ctx.createMediaStreamSource(stream);
+    const gain = this.ctx.createGain();
+    const analyser = this.ctx.createAnalyser();
+    analyser.fftSize = 512;
+
+    node.connect(gain);
+    gain.connect(analyser);
+    gain.connect(this.output);
+    this.channels.set(kind, { stream, node, gain, analyser, level: 1, muted: false });
+  }
+
+  private applyGain(channel: MixerChannel) {
+    channel.gain.gain.setTargetAtTime(channel.muted ? 0 : channel.level, this.ctx.currentTime, 0.02);
+  }
+}
+
+async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+    });
+  } catch (err: any) {
+    if (err?.name === 'NotAllowedError') throw new CaptureSourceError('mic', 'Microphone permission denied');
+    if (err?.name === 'NotFoundError' || err?.name === 'OverconstrainedError') {
+      throw new CaptureSourceError('mic', 'Selected microphone is not available');
+    }
+    throw new CaptureSourceError('mic', err?.message || 'Microphone capture failed');
+  }
+  if (stream.getAudioTracks().length === 0) {
+    throw new CaptureSourceError('mic', 'Microphone produced no audio track');
+  }
+  return stream;
+}
+
+async function openSystemAudio(): Promise<MediaStream> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true });
+  } catch (err: any) {
+    throw new CaptureSourceError('system', err?.name === 'NotAllowedError' ? 'Screen share was declined' : (err?.message || 'System audio capture failed'));
+  }
+  // Only audio is needed; video is requested because most browsers require it
+  stream.getVideoTracks().forEach(track => track.stop());
+  if (stream.getAudioTracks().length === 0) {
+    throw new CaptureSourceError('system', 'The shared screen has no audio. Share a tab or window with "Share audio" enabled.');
+  }
+  return stream;
+}
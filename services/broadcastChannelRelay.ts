@@ -0,0 +1,164 @@
+import { GlossaryEntry, Room, RoomStatus, TranscriptSegment } from '../types';
+import { RoomError, assertJoinable, generateRoomCode, normalizeRoomCode } from './rooms';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_TIMEOUT_MS,
+  RelayEnvelope,
+  RelayKind,
+  RelayPeer,
+  RelayPresenceHandle,
+  RelayPresenceState,
+  RelaySubscriptionHandlers,
+  RelayTransport,
+  createClientId
+} from './relayTransport';
+
+const REGISTRY_KEY = 'criptlator_rooms';
+
+/**
+ * Same-machine relay over the browser BroadcastChannel API.
+ * Rooms are registered in localStorage so every tab of the origin can look
+ * them up; segments and presence travel on one channel per room.
+ */
+export class BroadcastChannelRelayTransport implements RelayTransport {
+  readonly kind = RelayKind.BROADCAST_CHANNEL;
+  private clientId = createClientId();
+  private channels = new Set<BroadcastChannel>();
+
+  async openRoom(): Promise<Room> {
+    const registry = readRegistry();
+    let code = generateRoomCode();
+    while (registry[code]) code = generateRoomCode();
+
+    const room: Room = { id: createClientId(), code, status: RoomStatus.OPEN, createdAt: Date.now() };
+    registry[code] = room;
+    writeRegistry(registry);
+    return room;
+  }
+
+  async joinRoom(code: string): Promise<Room> {
+    const normalized = normalizeRoomCode(code);
+    if (!normalized) throw new RoomError('NOT_FOUND', 'Room not found');
+    return assertJoinable(readRegistry()[normalized]);
+  }
+
+  async closeRoom(room: Room): Promise<void> {
+    const registry = readRegistry();
+    if (registry[room.code]) {
+      registry[room.code] = { ...registry[room.code], status: RoomStatus.CLOSED };
+      writeRegistry(registry);
+    }
+    this.post(room, { type: 'room-closed', roomId: room.id });
+  }
+
+  async publishSegment(room: Room, segment: TranscriptSegment): Promise<void> {
+    this.post(room, { type: 'segment', roomId: room.id, segment });
+  }
+
+  async updateGlossary(room: Room, glossary: GlossaryEntry[]): Promise<void> {
+    const registry = readRegistry();
+    if (registry[room.code]) {
+      registry[room.code] = { ...registry[room.code], glossary };
+      writeRegistry(registry);
+    }
+    this.post(room, { type: 'glossary', roomId: room.id, glossary });
+  }
+
+  subscribe(room: Room, handlers: RelaySubscriptionHandlers): () => void {
+    const channel = this.openChannel(room);
+    channel.onmessage = (event: MessageEvent<RelayEnvelope>) => {
+      const message = event.data;
+      if (message.roomId !== room.id) return;
+      if (message.type === 'segment') handlers.onSegment(message.segment);
+      if (message.type === 'room-closed') handlers.onRoomClosed();
+      if (message.type === 'glossary') handlers.onGlossary?.(message.glossary);
+    };
+    return () => this.closeChannel(channel);
+  }
+
+  trackPresence(room: Room, state: RelayPresenceState, onSync: (peers: RelayPeer[]) => void): RelayPresenceHandle {
+    const channel = this.openChannel(room);
+    const peers = new Map<string, RelayPeer>();
+    let current = state;
+
+    const self = (): RelayPeer => ({ ...current, clientId: this.clientId, lastSeen: Date.now() });
+    const emit = () => {
+      const now = Date.now();
+      peers.forEach((peer, id) => { if (now - peer.lastSeen > PRESENCE_TIMEOUT_MS) peers.delete(id); });
+      onSync([self(), ...peers.values()]);
+    };
+    const announce = () => {
+      channel.postMessage({ type: 'presence', roomId: room.id, peer: self() } satisfies RelayEnvelope);
+      emit();
+    };
+
+    channel.onmessage = (event: MessageEvent<RelayEnvelope>) => {
+      const message = event.data;
+      if (message.roomId !== room.id) return;
+      if (message.type === 'presence') {
+        const isNew = !peers.has(message.peer.clientId);
+        peers.set(message.peer.clientId, { ...message.peer, lastSeen: Date.now() });
+        // Answer newcomers right away so they don't wait a full heartbeat to see us
+        if (isNew) announce(); else emit();
+      }
+      if (message.type === 'presence-leave') {
+        peers.delete(message.clientId);
+        emit();
+      }
+    };
+
+    announce();
+    const heartbeat = window.setInterval(announce, PRESENCE_HEARTBEAT_MS);
+
+    return {
+      update: (next) => {
+        current = next;
+        announce();
+      },
+      leave: () => {
+        window.clearInterval(heartbeat);
+        channel.postMessage({ type: 'presence-leave', roomId: room.id, clientId: this.clientId } satisfies RelayEnvelope);
+        this.closeChannel(channel);
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    this.channels.forEach(channel => channel.close());
+    this.channels.clear();
+  }
+
+  private post(room: Room, message: RelayEnvelope) {
+    // A throwaway sender so subscribers in this same tab receive the message too
+    const channel = new BroadcastChannel(channelName(room));
+    channel.postMessage(message);
+    channel.close();
+  }
+
+  private openChannel(room: Room): BroadcastChannel {
+    const channel = new BroadcastChannel(channelName(room));
+    this.channels.add(channel);
+    return channel;
+  }
+
+  private closeChannel(channel: BroadcastChannel) {
+    channel.close();
+    this.channels.delete(channel);
+  }
+}
+
+function channelName(room: Room): string {
+  return `criptlator_room_${room.id}`;
+}
+
+function readRegistry(): Record<string, Room> {
+  try {
+    return JSON.parse(localStorage.getItem(REGISTRY_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeRegistry(registry: Record<string, Room>) {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PcmFileFeeder } from './fileSource';
+
+// One second at 16 kHz: three full 256 ms chunks and a shorter tail
+const oneSecond = () => new Float32Array(16000).fill(0.5);
+
+describe('PcmFileFeeder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('sends PCM16 chunks at the chosen speed and reports progress', () => {
+    const chunks: Int16Array[] = [];
+    const progress: number[] = [];
+    const onDone = vi.fn();
+    const feeder = new PcmFileFeeder(oneSecond(), { onChunk: pcm => chunks.push(pcm), onProgress: p => progress.push(p), onDone, speed: 2 });
+    expect(feeder.durationMs).toBe(1000);
+    feeder.start();
+    expect(chunks).toHaveLength(1);
+    vi.advanceTimersByTime(127);
+    expect(chunks).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(chunks).toHaveLength(2);
+    vi.advanceTimersByTime(256);
+    expect(chunks.map(c => c.length)).toEqual([4096, 4096, 4096, 3712]);
+    expect(chunks[0][0]).toBe(Math.trunc(0.5 * 0x7FFF));
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps wall-clock time back to the file position sent by then', () => {
+    const feeder = new PcmFileFeeder(oneSecond(), { onChunk: () => {}, speed: 4 });
+    const startedAt = Date.now();
+    feeder.start();
+    vi.advanceTimersByTime(1000);
+    expect(feeder.offsetAt(startedAt - 1)).toBe(0);
+    expect(feeder.offsetAt(startedAt)).toBe(256);
+    expect(feeder.offsetAt(startedAt + 70)).toBe(512);
+    expect(feeder.offsetAt(startedAt + 10_000)).toBe(1000);
+  });
+
+  it('stops feeding once cancelled, even from inside onChunk', () => {
+    const onDone = vi.fn();
+    let count = 0;
+    const feeder = new PcmFileFeeder(oneSecond(), {
+      onChunk: () => {
+        count += 1;
+        if (count === 2) feeder.cancel();
+      },
+      onDone,
+    });
+    feeder.start();
+    vi.advanceTimersByTime(5000);
+    expect(count).toBe(2);
+    expect(onDone).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+// Extensions offered by the file picker; anything the browser can decode works
+export const MEDIA_FILE_ACCEPT = 'audio/*,video/mp4,video/webm,.mp3,.wav,.m4a,.ogg,.mp4,.webm';
+
+/**
+ * Decodes an audio or video file to mono float samples at `sampleRate`.
+ * Decoding already resamples to the context rate; the offline render downmixes.
+ */
+export async function decodeAudioFile(file: Blob, sampleRate: number = 16000): Promise<Float32Array> {
+  const bytes = await file.arrayBuffer();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(bytes);
+  } catch {
+    throw new Error('Could not decode the file; try MP3, WAV, MP4 or WebM');
+  }
+  const length = Math.ceil(decoded.duration * sampleRate);
+  if (length === 0) throw new Error('The file contains no audio');
+  const ctx = new OfflineAudioContext(1, length, sampleRate);
+  const node = ctx.createBufferSource();
+  node.buffer = decoded;
+  node.connect(ctx.destination);
+  node.start();
+  const rendered = await ctx.startRendering();
+  return rendered.getChannelData(0);
+}
+
+export interface PcmFileFeederOptions {
+  onChunk: (pcm: Int16Array) => void;
+  /** Share of the file sent so far, 0–1. */
+  onProgress?: (fraction: number) => void;
+  /** Called once the last chunk has been sent; not after `cancel()`. */
+  onDone?: () => void;
+  sampleRate?: number;
+  chunkMs?: number;
+  /** Playback rate relative to real time; above 1 feeds the file faster than it plays. */
+  speed?: number;
+}
+
+/**
+ * Feeds decoded file samples out as PCM16 chunks at `speed` times real time,
+ * as if they were arriving from a live capture.
+ */
+export class PcmFileFeeder {
+  private samples: Float32Array;
+  private options: PcmFileFeederOptions & Required<Pick<PcmFileFeederOptions, 'sampleRate' | 'chunkMs' | 'speed'>>;
+  private chunkSamples: number;
+  private position = 0;
+  private startedAt = 0;
+  private sent = 0;
+  private timer: number | null = null;
+  private cancelled = false;
+  // Wall clock at which each chunk went out, against the file position it ended at
+  private marks: { time: number; offsetMs: number }[] = [];
+
+  constructor(samples: Float32Array, options: PcmFileFeederOptions) {
+    this.samples = samples;
+    this.options = { sampleRate: 16000, chunkMs: 256, speed: 1, ...options };
+    this.chunkSamples = Math.round(this.options.sampleRate * this.options.chunkMs / 1000);
+  }
+
+  get durationMs() {
+    return this.samples.length / this.options.sampleRate * 1000;
+  }
+
+  start() {
+    if (this.timer !== null || this.position >= this.samples.length) return;
+    this.cancelled = false;
+    this.startedAt = Date.now();
+    this.sent = 0;
+    this.tick();
+  }
+
+  cancel() {
+    this.cancelled = true;
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * File position, in ms, that had been sent by wall-clock `time`. Transcripts
+   * trail the audio, so this maps a transcription back to roughly where it was spoken.
+   */
+  offsetAt(time: number): number {
+    let low = 0;
+    let high = this.marks.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.marks[mid].time <= time) {
+        found = this.marks[mid].offsetMs;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  private tick() {
+    const end = Math.min(this.samples.length, this.position + this.chunkSamples);
+    const pcm = new Int16Array(end - this.position);
+    for (let i = 0; i < pcm.length; i++) {
+      pcm[i] = Math.max(-1, Math.min(1, this.samples[this.position + i])) * 0x7FFF;
+    }
+    this.position = end;
+    this.sent += 1;
+    this.marks.push({ time: Date.now(), offsetMs: end / this.options.sampleRate * 1000 });
+    this.options.onChunk(pcm);
+    this.options.onProgress?.(end / this.samples.length);
+    // `onChunk` may have cancelled the feed, e.g. by ending the session
+    if (this.cancelled) return;
+    if (end >= this.samples.length) {
+      this.timer = null;
+      this.options.onDone?.();
+      return;
+    }
+    // Scheduled against the start time so timer lag does not accumulate
+    const interval = this.options.chunkMs / this.options.speed;
+    const delay = Math.max(0, this.startedAt + this.sent * interval - Date.now());
+    this.timer = window.setTimeout(() => this.tick(), delay);
+  }
+}
@@ -0,0 +1,41 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { LiveBackend, LiveBackendKind, LiveConnectParams, LiveSession } from './liveBackend';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+// Native-audio models only answer in speech; text responses need the half-cascade model
+const TEXT_LIVE_MODEL = 'gemini-live-2.5-flash-preview';
+
+/** The real Gemini Live API. */
+export class GeminiLiveBackend implements LiveBackend {
+  readonly kind = LiveBackendKind.GEMINI;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  connect({ systemInstruction, voiceName, responseModality, resumptionHandle, callbacks }: LiveConnectParams): Promise<LiveSession> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const isText = responseModality === 'text';
+
+    return ai.live.connect({
+      model: isText ? TEXT_LIVE_MODEL : LIVE_MODEL,
+      config: {
+        responseModalities: [isText ? Modality.TEXT : Modality.AUDIO],
+        systemInstruction,
+        ...(isText ? {} : {
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          },
+          outputAudioTranscription: {},
+        }),
+        inputAudioTranscription: {},
+        // Resumption handles let a dropped or rolled-over session keep its context;
+        // the sliding window lifts the per-session length limit for long events.
+        sessionResumption: { handle: resumptionHandle },
+        contextWindowCompression: { slidingWindow: {} },
+      },
+      callbacks,
+    });
+  }
+}
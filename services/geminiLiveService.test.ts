@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiLiveCallbacks, GeminiLiveService, backoffDelay } from './geminiLiveService';
+import { LiveSession } from './liveBackend';
+import { MockFault, MockLiveBackend } from './mockLiveBackend';
+
+// Opens after 10 ms; with Math.random at 0 the first reconnect waits 50 ms, the next 100 ms
+const OPEN_MS = 10;
+
+function setup(faults: MockFault[] = [], options: { maxReconnectAttempts?: number } = {}) {
+  const backend = new MockLiveBackend({ openDelayMs: OPEN_MS, wordIntervalMs: 20, faults });
+  // Every session the service opens, so tests can see which ones it closed
+  const sessions: LiveSession[] = [];
+  const connect = backend.connect.bind(backend);
+  backend.connect = params => connect(params).then(session => {
+    vi.spyOn(session, 'close');
+    sessions.push(session);
+    return session;
+  });
+
+  const captions: string[] = [];
+  const callbacks: GeminiLiveCallbacks = {
+    onInputTranscription: vi.fn(),
+    onOutputTranscription: text => captions.push(text),
+    onAudioData: vi.fn(),
+    onInterrupted: vi.fn(),
+    onReconnecting: vi.fn(),
+    onReconnected: vi.fn(),
+    onError: vi.fn(),
+  };
+  const service = new GeminiLiveService('', 'fr', { backend, baseReconnectDelayMs: 100, stableSessionMs: 1000, ...options });
+  return { backend, sessions, service, callbacks, caption: () => captions.join('') };
+}
+
+describe('backoffDelay', () => {
+  it('doubles the window per attempt up to the cap, with half of it random', () => {
+    expect(backoffDelay(0, 500, 15000, () => 0)).toBe(250);
+    expect(backoffDelay(3, 500, 15000, () => 1)).toBe(4000);
+    expect(backoffDelay(10, 500, 15000, () => 0.5)).toBe(11250);
+  });
+});
+
+describe('GeminiLiveService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('reconnects after a dropped session and replays what was sent meanwhile', async () => {
+    const { backend, service, callbacks, caption } = setup([{ kind: 'close', afterMs: 100, session: 0 }]);
+    service.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(OPEN_MS + 100);
+    expect(callbacks.onReconnecting).toHaveBeenCalledWith(1, 50);
+
+    service.sendText('Bonjour');
+    await vi.advanceTimersByTimeAsync(49);
+    expect(backend.connectionCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1 + OPEN_MS);
+    expect(backend.connectionCount).toBe(2);
+    expect(callbacks.onReconnected).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(caption()).toBe('[fr] Bonjour');
+  });
+
+  it('gives up when every session is dropped right after opening', async () => {
+    const faults = [0, 1, 2, 3].map(session => ({ kind: 'close' as const, afterMs: 5, session }));
+    const { backend, service, callbacks } = setup(faults, { maxReconnectAttempts: 3 });
+    service.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(backend.connectionCount).toBe(4);
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('gave up after 3') }));
+  });
+
+  it('restores the reconnect budget once a session has stayed up', async () => {
+    const faults = [0, 1, 2].map(session => ({ kind: 'close' as const, afterMs: 1500, session }));
+    const { backend, service, callbacks } = setup(faults, { maxReconnectAttempts: 1 });
+    service.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect(backend.connectionCount).toBe(4);
+    expect(callbacks.onReconnecting).toHaveBeenCalledTimes(3);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it('closes a reconnect that finishes opening after disconnect', async () => {
+    const { sessions, service, callbacks } = setup([{ kind: 'close', afterMs: 20, session: 0 }]);
+    service.connect(callbacks);
+    // Dropped at 30 ms; the reconnect starts at 80 ms and would open at 90 ms
+    await vi.advanceTimersByTimeAsync(85);
+    await service.disconnect();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[1].close).toHaveBeenCalled();
+    expect(callbacks.onReconnected).not.toHaveBeenCalled();
+  });
+
+  it('rolls over on goAway and closes both sessions when stopped mid-rollover', async () => {
+    const { backend, sessions, service, callbacks } = setup([{ kind: 'goAway', afterMs: 20, session: 0 }, { kind: 'goAway', afterMs: 20, session: 1 }]);
+    service.connect(callbacks);
+    await vi.advanceTimersByTimeAsync(OPEN_MS + 20 + OPEN_MS);
+    expect(backend.connectionCount).toBe(2);
+    expect(sessions[0].close).toHaveBeenCalled();
+
+    // The second goAway starts another session; stopping before it opens must not leave it running
+    await vi.advanceTimersByTimeAsync(20);
+    await service.disconnect();
+    await vi.advanceTimersByTimeAsync(OPEN_MS);
+    expect(sessions).toHaveLength(3);
+    expect(sessions[1].close).toHaveBeenCalled();
+    expect(sessions[2].close).toHaveBeenCalled();
+  });
+});
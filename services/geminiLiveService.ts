@@ -1,4 +1,8 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveServerMessage } from '@google/genai';
+import { GlossaryEntry } from '../types';
+import { GeminiLiveBackend } from './geminiLiveBackend';
+import { buildGlossaryInstruction, glossaryForLanguage } from './glossary';
+import { LiveBackend, LiveResponseModality, LiveSession } from './liveBackend';
 
 export interface GeminiLiveCallbacks {
   onOpen?: () => void;
@@ -6,149 +10,362 @@ export interface GeminiLiveCallbacks {
   onOutputTranscription: (text: string) => void;
   onAudioData: (data: string) => void;
   onInterrupted: () => void;
+  onTurnComplete?: () => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  onReconnected?: () => void;
   onError: (error: any) => void;
   onClose?: (event: CloseEvent) => void;
 }
 
+export interface GeminiLiveOptions {
+  maxReconnectAttempts?: number;
+  baseReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** How long a session must stay up before the reconnect budget is restored. */
+  stableSessionMs?: number;
+  /** Audio chunks held while disconnected; the oldest are dropped beyond this. */
+  maxBufferedAudioChunks?: number;
+  /** Text inputs held while disconnected; the oldest are dropped beyond this. */
+  maxBufferedTexts?: number;
+  /** Session source; defaults to the real Gemini Live API. */
+  backend?: LiveBackend;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<GeminiLiveOptions, 'backend'>> = {
+  maxReconnectAttempts: 6,
+  baseReconnectDelayMs: 500,
+  maxReconnectDelayMs: 15000,
+  stableSessionMs: 10000,
+  maxBufferedAudioChunks: 64,
+  maxBufferedTexts: 32,
+};
+
+/** `summarize` asks for the gist of several lines, for a Listener who has fallen behind. */
+export type TextRequest = 'interpret' | 'summarize';
+
+const TEXT_PREFIXES: Record<TextRequest, string> = {
+  interpret: 'Interpret',
+  summarize: 'Summarize',
+};
+
+type PendingInput = { kind: 'audio' | 'text'; data: string; request?: TextRequest };
+
 export class GeminiLiveService {
-  private sessionPromise: Promise<any> | null = null;
+  private sessionPromise: Promise<LiveSession> | null = null;
   private targetLanguage: string;
-  private apiKey: string;
+  private backend: LiveBackend;
+  private options: Required<Omit<GeminiLiveOptions, 'backend'>>;
+  private callbacks: GeminiLiveCallbacks | null = null;
+  private voiceName = 'Kore';
+  private resumptionHandle: string | undefined;
+  // Bumped for every underlying socket; events from older sockets are ignored
+  private generation = 0;
+  // The socket that was current when the user disconnected; only its close is reported
+  private closedGeneration = -1;
+  private isOpen = false;
+  private hasOpened = false;
+  private closedByUser = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: number | null = null;
+  private stableTimer: number | null = null;
+  private pending: PendingInput[] = [];
+  private glossary: GlossaryEntry[] = [];
+  private responseModality: LiveResponseModality = 'audio';
+  private sourceLanguage: string | null = null;
 
-  constructor(apiKey: string, targetLanguage: string) {
-    this.apiKey = apiKey;
+  constructor(apiKey: string, targetLanguage: string, { backend, ...options }: GeminiLiveOptions = {}) {
+    this.backend = backend ?? new GeminiLiveBackend(apiKey);
     this.targetLanguage = targetLanguage;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Terminology for the system instruction; picked up by the next (re)connection. */
+  setGlossary(entries: GlossaryEntry[]) {
+    this.glossary = glossaryForLanguage(entries, this.targetLanguage);
+  }
+
+  /** Language the Speaker talks in, or null to transcribe whatever is spoken; picked up by the next (re)connection. */
+  setSourceLanguage(language: string | null) {
+    this.sourceLanguage = language;
+  }
+
+  /**
+   * Speech or text answers. The modality is fixed per session, so switching
+   * while connected rolls over to a fresh session.
+   */
+  setResponseModality(modality: LiveResponseModality) {
+    if (modality === this.responseModality) return;
+    this.responseModality = modality;
+    // Handles are tied to the model, and each modality uses its own
+    this.resumptionHandle = undefined;
+    if (this.isOpen && !this.closedByUser) {
+      // Unlike a goAway rollover, the old session answers in the wrong modality; buffer until the swap
+      this.isOpen = false;
+      this.rollSession();
+    }
   }
 
   connect(callbacks: GeminiLiveCallbacks, voiceName: string = 'Kore') {
-    const ai = new GoogleGenAI({ apiKey: this.apiKey });
-    
+    this.callbacks = callbacks;
+    this.voiceName = voiceName;
+    this.closedByUser = false;
+    this.hasOpened = false;
+    this.reconnectAttempt = 0;
+    this.resumptionHandle = undefined;
+
+    const generation = ++this.generation;
+    const promise = this.openSession(generation);
+    this.sessionPromise = promise;
+    promise.then(() => {
+      if (generation !== this.generation) return;
+      this.isOpen = true;
+      this.armStableTimer();
+      this.flushPending();
+    }).catch(() => {});
+
+    return promise;
+  }
+
+  private openSession(generation: number): Promise<LiveSession> {
+    const isText = this.responseModality === 'text';
+    const transcriptionRule = this.sourceLanguage
+      ? `The audio is in ${this.sourceLanguage}; transcribe it in ${this.sourceLanguage} exactly as spoken.`
+      : `Transcribe it in whatever language is being spoken, without translating it.`;
+    const replyRules = isText
+      ? `- Reply with the translation text only, nothing else.`
+      : `- Return the translation text in 'outputTranscription'.
+         - ACTIVATE READ ALOUD: Immediately synthesize and return high-quality audio of you speaking this translation in a natural, professional tone.`;
+
     const systemInstruction = `
       You are CriptLator, a high-speed real-time interpretation engine.
       
       OPERATIONAL MODES:
-      1. TRANSCRIPTION (Audio Stream): Your sole task is to provide a text transcription of any audio you hear. Return this in 'inputTranscription'. DO NOT generate any speech or translation for this input.
+      1. TRANSCRIPTION (Audio Stream): Your sole task is to provide a text transcription of any audio you hear. Return this in 'inputTranscription'. ${transcriptionRule} DO NOT generate any speech or translation for this input.
       2. INTERPRETATION & READ ALOUD (Text Input): When you receive text prefixed with "Interpret:", you must immediately:
          - Translate the text accurately into ${this.targetLanguage}.
-         - Return the translation text in 'outputTranscription'.
-         - ACTIVATE READ ALOUD: Immediately synthesize and return high-quality audio of you speaking this translation in a natural, professional tone.
+         ${replyRules}
+      3. CATCH-UP SUMMARY (Text Input): Text prefixed with "Summarize:" is several sentences the audience fell behind on. Give only their gist in ${this.targetLanguage}, in one or two short sentences, and otherwise answer exactly as in Mode 2.
       
       CRITICAL RULES:
       - Stay silent during Mode 1.
-      - Always speak during Mode 2 as soon as text is received.
+      - Always ${isText ? 'reply' : 'speak'} during Modes 2 and 3 as soon as text is received.
       - Be succinct and maintain high fidelity to the original meaning.
+
+      ${buildGlossaryInstruction(this.glossary)}
     `.trim();
 
-    this.sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-      config: {
-        responseModalities: [Modality.AUDIO],
-        systemInstruction,
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
-        },
-        inputAudioTranscription: {},
-        outputAudioTranscription: {},
-      },
+    return this.backend.connect({
+      systemInstruction,
+      voiceName: this.voiceName,
+      targetLanguage: this.targetLanguage,
+      responseModality: this.responseModality,
+      resumptionHandle: this.resumptionHandle,
       callbacks: {
         onopen: () => {
           console.debug("Gemini Live: Connection opened");
-          callbacks.onOpen?.();
+          // Reconnects and rollovers report through onReconnected instead
+          if (!this.hasOpened) {
+            this.hasOpened = true;
+            this.callbacks?.onOpen?.();
+          }
         },
         onmessage: async (message: LiveServerMessage) => {
+          const callbacks = this.callbacks;
+          if (!callbacks) return;
+          if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+            this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+          }
+          if (message.goAway && generation === this.generation) {
+            console.debug("Gemini Live: Server requested rollover", message.goAway.timeLeft);
+            this.rollSession();
+          }
           if (message.serverContent?.inputTranscription) {
             callbacks.onInputTranscription(message.serverContent.inputTranscription.text);
           }
           if (message.serverContent?.outputTranscription) {
             callbacks.onOutputTranscription(message.serverContent.outputTranscription.text);
           }
-          if (message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data) {
-            callbacks.onAudioData(message.serverContent.modelTurn.parts[0].inlineData.data);
-          }
+          message.serverContent?.modelTurn?.parts?.forEach(part => {
+            if (part.inlineData?.data) callbacks.onAudioData(part.inlineData.data);
+            // Text sessions answer in plain parts; read by this session's modality, not the one being switched to
+            if (part.text && !part.thought && isText) callbacks.onOutputTranscription(part.text);
+          });
           if (message.serverContent?.interrupted) {
             callbacks.onInterrupted();
           }
+          if (message.serverContent?.turnComplete) {
+            callbacks.onTurnComplete?.();
+          }
         },
         onerror: (err: any) => {
           console.error("Gemini Live Error:", err);
-          callbacks.onError(err);
+          if (generation === this.generation) this.scheduleReconnect(err);
         },
         onclose: (event: CloseEvent) => {
           console.debug("Gemini Live: Connection closed", event);
-          callbacks.onClose?.(event);
+          if (this.closedByUser) {
+            if (generation === this.closedGeneration) this.callbacks?.onClose?.(event);
+            return;
+          }
+          if (generation !== this.generation) return;
+          this.scheduleReconnect(new Error(event.reason || 'Connection lost'));
         }
       },
     });
+  }
 
-    return this.sessionPromise;
+  /**
+   * Opens a fresh session next to the current one and swaps over once it is
+   * ready, so the server's session-length limit never interrupts the stream.
+   */
+  private rollSession() {
+    const generation = ++this.generation;
+    const previous = this.sessionPromise;
+    const promise = this.openSession(generation);
+
+    promise.then((session) => {
+      if (!this.adopt(generation, session)) return;
+      this.sessionPromise = promise;
+      this.isOpen = true;
+      this.flushPending();
+      previous?.then(session => session.close()).catch(() => {});
+    }).catch((err) => {
+      if (generation === this.generation) this.scheduleReconnect(err);
+    });
   }
 
-  sendAudio(base64Data: string) {
-    if (this.sessionPromise) {
-      this.sessionPromise.then((session) => {
-        session.sendRealtimeInput({
-          media: {
-            data: base64Data,
-            mimeType: 'audio/pcm;rate=16000',
-          },
-        });
-      });
-    }
+  /**
+   * Whether a session that just opened is still wanted. One that was superseded
+   * or outlived a disconnect is closed, so it does not keep streaming unseen.
+   */
+  private adopt(generation: number, session: LiveSession): boolean {
+    if (generation === this.generation && !this.closedByUser) return true;
+    session.close();
+    return false;
   }
 
-  sendText(text: string) {
-    if (this.sessionPromise) {
-      this.sessionPromise.then((session) => {
-        session.sendRealtimeInput({
-          parts: [{ text: `Interpret: ${text}` }]
-        });
+  // A server that accepts and then drops the session must still exhaust the reconnect budget
+  private armStableTimer() {
+    this.clearStableTimer();
+    this.stableTimer = window.setTimeout(() => {
+      this.stableTimer = null;
+      this.reconnectAttempt = 0;
+    }, this.options.stableSessionMs);
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer === null) return;
+    window.clearTimeout(this.stableTimer);
+    this.stableTimer = null;
+  }
+
+  private scheduleReconnect(reason: any) {
+    if (this.closedByUser || this.reconnectTimer !== null) return;
+    this.isOpen = false;
+    this.clearStableTimer();
+
+    if (this.reconnectAttempt >= this.options.maxReconnectAttempts) {
+      const message = reason?.message || 'Connection lost';
+      this.callbacks?.onError(new Error(`${message} (gave up after ${this.reconnectAttempt} reconnect attempts)`));
+      return;
+    }
+
+    const delay = backoffDelay(this.reconnectAttempt, this.options.baseReconnectDelayMs, this.options.maxReconnectDelayMs);
+    this.reconnectAttempt += 1;
+    this.callbacks?.onReconnecting?.(this.reconnectAttempt, delay);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closedByUser) return;
+
+      const generation = ++this.generation;
+      const promise = this.openSession(generation);
+      promise.then((session) => {
+        if (!this.adopt(generation, session)) return;
+        this.sessionPromise = promise;
+        this.isOpen = true;
+        this.armStableTimer();
+        this.flushPending();
+        this.callbacks?.onReconnected?.();
+      }).catch((err) => {
+        if (generation === this.generation) this.scheduleReconnect(err);
       });
+    }, delay);
+  }
+
+  private enqueue(input: PendingInput) {
+    this.pending.push(input);
+    const limit = input.kind === 'audio' ? this.options.maxBufferedAudioChunks : this.options.maxBufferedTexts;
+    const ofKind = this.pending.filter(p => p.kind === input.kind);
+    if (ofKind.length > limit) {
+      this.pending.splice(this.pending.indexOf(ofKind[0]), 1);
     }
   }
 
-  async disconnect() {
-    if (this.sessionPromise) {
-      const session = await this.sessionPromise;
-      session.close();
-      this.sessionPromise = null;
+  private flushPending() {
+    const queued = this.pending;
+    this.pending = [];
+    queued.forEach(input => input.kind === 'audio' ? this.sendAudio(input.data) : this.sendText(input.data, input.request));
+  }
+
+  sendAudio(base64Data: string) {
+    if (!this.isOpen || !this.sessionPromise) {
+      if (!this.closedByUser) this.enqueue({ kind: 'audio', data: base64Data });
+      return;
     }
+    this.sessionPromise.then((session) => {
+      session.sendRealtimeInput({
+        media: {
+          data: base64Data,
+          mimeType: 'audio/pcm;rate=16000',
+        },
+      });
+    });
   }
-}
 
-export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  /** Tells the model the current utterance is over so it can finalize the transcription. */
+  endAudioStream() {
+    if (!this.isOpen || !this.sessionPromise) return;
+    this.sessionPromise.then((session) => {
+      session.sendRealtimeInput({ audioStreamEnd: true });
+    });
   }
-  return btoa(binary);
-}
 
-export function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  sendText(text: string, request: TextRequest = 'interpret') {
+    if (!this.isOpen || !this.sessionPromise) {
+      if (!this.closedByUser) this.enqueue({ kind: 'text', data: text, request });
+      return;
+    }
+    this.sessionPromise.then((session) => {
+      session.sendRealtimeInput({
+        parts: [{ text: `${TEXT_PREFIXES[request]}: ${text}` }]
+      });
+    });
   }
-  return bytes;
-}
 
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+  async disconnect() {
+    this.closedByUser = true;
+    this.isOpen = false;
+    this.pending = [];
+    // Sessions still opening belong to no one now; adopt() closes them when they arrive
+    this.closedGeneration = this.generation;
+    this.generation += 1;
+    this.clearStableTimer();
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.sessionPromise) {
+      const promise = this.sessionPromise;
+      this.sessionPromise = null;
+      const session = await promise.catch(() => null);
+      session?.close();
     }
   }
-  return buffer;
+}
+
+/** Exponential backoff with equal jitter: half the window is fixed, half random. */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
 }
@@ -0,0 +1,88 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { checkGlossary, createGlossaryEntry, parseGlossaryCsv, parseGlossaryTbx } from './glossary';
+
+const fields = (entries: ReturnType<typeof parseGlossaryCsv>) =>
+  entries.map(({ source, target, doNotTranslate, targetLanguage }) => ({ source, target, doNotTranslate, targetLanguage }));
+
+describe('parseGlossaryCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const csv = 'source,target,language\r\n"Acme, Inc.",Acme S.A.,es\n"the ""cloud""","la ""nube""\nsegura",es\n';
+    expect(fields(parseGlossaryCsv(csv))).toEqual([
+      { source: 'Acme, Inc.', target: 'Acme S.A.', doNotTranslate: false, targetLanguage: 'es' },
+      { source: 'the "cloud"', target: 'la "nube"\nsegura', doNotTranslate: false, targetLanguage: 'es' },
+    ]);
+  });
+
+  it('maps header columns in any order and marks do-not-translate terms', () => {
+    const csv = 'Translation;Term;DNT\n;CriptLator;\nRoadmap;Roadmap;yes\nfeuille de route;roadmap;\n';
+    expect(fields(parseGlossaryCsv(csv))).toEqual([
+      { source: 'CriptLator', target: '', doNotTranslate: true, targetLanguage: undefined },
+      { source: 'Roadmap', target: 'Roadmap', doNotTranslate: true, targetLanguage: undefined },
+      { source: 'roadmap', target: 'feuille de route', doNotTranslate: false, targetLanguage: undefined },
+    ]);
+  });
+
+  it('treats a file without a header as source,target[,language] and skips blank rows', () => {
+    expect(fields(parseGlossaryCsv('Kubernetes,DNT\n\n,orphan\nsprint,Sprint,de'))).toEqual([
+      { source: 'Kubernetes', target: 'DNT', doNotTranslate: true, targetLanguage: undefined },
+      { source: 'sprint', target: 'Sprint', doNotTranslate: false, targetLanguage: 'de' },
+    ]);
+  });
+});
+
+describe('parseGlossaryTbx', () => {
+  it('reads TBX v2 term entries, one target per language set', () => {
+    const tbx = `<?xml version="1.0"?>
+      <martif type="TBX"><text><body>
+        <termEntry id="1">
+          <langSet xml:lang="en"><tig><term>data lake</term></tig></langSet>
+          <langSet xml:lang="es"><tig><term>lago de datos</term></tig></langSet>
+          <langSet xml:lang="fr"><tig><term>lac de données</term></tig></langSet>
+        </termEntry>
+        <termEntry id="2">
+          <langSet xml:lang="en"><tig><term>CriptLator</term></tig></langSet>
+        </termEntry>
+      </body></text></martif>`;
+    expect(fields(parseGlossaryTbx(tbx))).toEqual([
+      { source: 'data lake', target: 'lago de datos', doNotTranslate: false, targetLanguage: 'es' },
+      { source: 'data lake', target: 'lac de données', doNotTranslate: false, targetLanguage: 'fr' },
+      { source: 'CriptLator', target: '', doNotTranslate: true, targetLanguage: undefined },
+    ]);
+  });
+
+  it('reads TBX v3 concept entries and picks the source by language', () => {
+    const tbx = `<tbx><text><body>
+        <conceptEntry id="c1">
+          <langSec xml:lang="de"><termSec><term>Vertrag</term></termSec></langSec>
+          <langSec xml:lang="en-US"><termSec><term>contract</term></termSec></langSec>
+        </conceptEntry>
+      </body></text></tbx>`;
+    expect(fields(parseGlossaryTbx(tbx, 'en'))).toEqual([
+      { source: 'contract', target: 'Vertrag', doNotTranslate: false, targetLanguage: 'de' },
+    ]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseGlossaryTbx('<martif><termEntry>')).toThrow('Invalid TBX file');
+  });
+});
+
+describe('checkGlossary', () => {
+  const entries = [
+    createGlossaryEntry('data lake', 'lago de datos', 'es'),
+    createGlossaryEntry('CriptLator', 'DNT'),
+    createGlossaryEntry('東京', 'Tokio', 'es'),
+  ];
+
+  it('reports terms in the source whose rendering is missing from the translation', () => {
+    const violations = checkGlossary('CriptLator writes to the Data Lake', 'Criptlator escribe en el lago', entries);
+    expect(violations.map(v => v.expected)).toEqual(['lago de datos']);
+  });
+
+  it('matches whole words only, except for CJK terms', () => {
+    expect(checkGlossary('the data lakes and CriptLators', 'nada', entries)).toEqual([]);
+    expect(checkGlossary('東京都に行きます', 'Voy a Tokio', entries)).toEqual([]);
+    expect(checkGlossary('東京都に行きます', 'Voy a la capital', entries).map(v => v.expected)).toEqual(['Tokio']);
+  });
+});
@@ -0,0 +1,183 @@
+import { GlossaryEntry, LANGUAGE_CODES } from '../types';
+
+const STORAGE_KEY = 'criptlator_glossary';
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  expected: string;
+}
+
+export function createGlossaryEntry(source: string, target: string, targetLanguage?: string): GlossaryEntry {
+  const trimmedTarget = target.trim();
+  return {
+    id: crypto.randomUUID(),
+    source: source.trim(),
+    target: trimmedTarget,
+    doNotTranslate: !trimmedTarget || trimmedTarget.toUpperCase() === 'DNT',
+    targetLanguage: targetLanguage?.trim() || undefined,
+  };
+}
+
+/** Entries relevant to a session interpreting into `language` (a SupportLanguage name or BCP-47 code). */
+export function glossaryForLanguage(entries: GlossaryEntry[], language: string): GlossaryEntry[] {
+  const code = (LANGUAGE_CODES[language] ?? language).toLowerCase();
+  return entries.filter(entry => {
+    if (!entry.doNotTranslate && !entry.target) return false;
+    if (entry.doNotTranslate || !entry.targetLanguage) return true;
+    const wanted = entry.targetLanguage.toLowerCase();
+    return code === wanted || code.split('-')[0] === wanted.split('-')[0];
+  });
+}
+
+/** Later lists win on the same source term. */
+export function mergeGlossaries(...lists: GlossaryEntry[][]): GlossaryEntry[] {
+  const byKey = new Map<string, GlossaryEntry>();
+  lists.flat().forEach(entry => byKey.set(`${entry.source.toLowerCase()}|${entry.targetLanguage ?? ''}`, entry));
+  return [...byKey.values()];
+}
+
+/** Instruction block appended to the Gemini system prompt. */
+export function buildGlossaryInstruction(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+  const lines = entries.map(entry => entry.doNotTranslate
+    ? `- "${entry.source}" → keep exactly as "${entry.source}" (do not translate)`
+    : `- "${entry.source}" → always render as "${entry.target}"`);
+  return [
+    'GLOSSARY (mandatory terminology):',
+    'These terms may occur in the source. Transcribe them with this exact spelling, and in translations use the given rendering verbatim:',
+    ...lines,
+  ].join('\n');
+}
+
+/** Finds glossary terms present in `source` whose required rendering is missing from `translation`. */
+export function checkGlossary(source: string, translation: string, entries: GlossaryEntry[]): GlossaryViolation[] {
+  const haystack = translation.toLowerCase();
+  return entries
+    .filter(entry => entry.source && containsTerm(source, entry.source))
+    .map(entry => ({ entry, expected: entry.doNotTranslate ? entry.source : entry.target }))
+    .filter(({ expected }) => !haystack.includes(expected.toLowerCase()));
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Unicode-aware word boundaries; CJK terms have no spaces so fall back to substring
+  const pattern = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u.test(term)
+    ? new RegExp(escaped, 'iu')
+    : new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+  return pattern.test(text);
+}
+
+/**
+ * Parses `source,target[,language]` rows. A header row naming the columns is
+ * honoured; an empty target (or `DNT`) marks the term as do-not-translate.
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const rows = parseCsvRows(text).filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.some(cell => ['source', 'term', 'target', 'translation'].includes(cell));
+  const col = (names: string[], fallback: number) => {
+    const idx = header.findIndex(cell => names.includes(cell));
+    return hasHeader ? idx : fallback;
+  };
+  const sourceCol = col(['source', 'term'], 0);
+  const targetCol = col(['target', 'translation'], 1);
+  const langCol = col(['language', 'lang', 'target_language'], 2);
+  const dntCol = col(['dnt', 'do_not_translate'], -1);
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .filter(row => row[sourceCol]?.trim())
+    .map(row => {
+      const entry = createGlossaryEntry(row[sourceCol], row[targetCol] ?? '', langCol >= 0 ? row[langCol] : undefined);
+      const dnt = dntCol >= 0 ? row[dntCol]?.trim().toLowerCase() : '';
+      if (dnt === 'true' || dnt === 'yes' || dnt === '1') entry.doNotTranslate = true;
+      return entry;
+    });
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const delimiter = text.split('\n')[0].includes(';') && !text.split('\n')[0].includes(',') ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parses TBX (v2 `termEntry` / v3 `conceptEntry`). The first language set of
+ * each entry is the source term, every other language set becomes a target.
+ * Entries with a single language set are treated as do-not-translate.
+ */
+export function parseGlossaryTbx(xml: string, sourceLanguage?: string): GlossaryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid TBX file');
+
+  const entries: GlossaryEntry[] = [];
+  const concepts = [...doc.getElementsByTagName('termEntry'), ...doc.getElementsByTagName('conceptEntry')];
+
+  concepts.forEach(concept => {
+    const langSets = [...concept.getElementsByTagName('langSet'), ...concept.getElementsByTagName('langSec')]
+      .map(el => ({
+        lang: el.getAttribute('xml:lang') || el.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') || '',
+        term: el.getElementsByTagName('term')[0]?.textContent?.trim() || '',
+      }))
+      .filter(set => set.term);
+    if (langSets.length === 0) return;
+
+    const wanted = sourceLanguage?.toLowerCase().split('-')[0];
+    const source = langSets.find(set => wanted && set.lang.toLowerCase().startsWith(wanted)) ?? langSets[0];
+    const targets = langSets.filter(set => set !== source);
+
+    if (targets.length === 0) {
+      entries.push(createGlossaryEntry(source.term, ''));
+      return;
+    }
+    targets.forEach(target => entries.push(createGlossaryEntry(source.term, target.term, target.lang)));
+  });
+  return entries;
+}
+
+export function parseGlossaryFile(name: string, content: string): GlossaryEntry[] {
+  return /\.(tbx|xml)$/i.test(name) ? parseGlossaryTbx(content) : parseGlossaryCsv(content);
+}
+
+export function loadLocalGlossary(): GlossaryEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalGlossary(entries: GlossaryEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
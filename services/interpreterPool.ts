@@ -0,0 +1,92 @@
+import { GlossaryEntry } from '../types';
+import { GeminiLiveService, TextRequest } from './geminiLiveService';
+import { LiveBackend, LiveResponseModality } from './liveBackend';
+
+export interface InterpreterPoolCallbacks {
+  onOpen?: () => void;
+  onOutputTranscription: (language: string, text: string) => void;
+  onAudioData: (language: string, data: string) => void;
+  onInterrupted: (language: string) => void;
+  onTurnComplete?: (language: string) => void;
+  onReconnecting?: (language: string, attempt: number, delayMs: number) => void;
+  onReconnected?: (language: string) => void;
+  onError: (language: string, error: any) => void;
+  onClose?: (language: string, event: CloseEvent) => void;
+}
+
+/**
+ * Runs one Gemini Live interpretation session per target language and fans the
+ * same source text out to all of them. Callbacks are tagged with the language
+ * they came from so the caller can route audio from just one.
+ */
+export class InterpreterPool {
+  private apiKey: string;
+  private voiceName: string;
+  private backend?: LiveBackend;
+  private sessions = new Map<string, GeminiLiveService>();
+  private glossary: GlossaryEntry[] = [];
+  private responseModality: LiveResponseModality = 'audio';
+
+  constructor(apiKey: string, voiceName: string, backend?: LiveBackend) {
+    this.apiKey = apiKey;
+    this.voiceName = voiceName;
+    this.backend = backend;
+  }
+
+  get languages(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /** Applies to sessions started afterwards and to reconnects of running ones. */
+  setGlossary(entries: GlossaryEntry[]) {
+    this.glossary = entries;
+    this.sessions.forEach(service => service.setGlossary(entries));
+  }
+
+  /** Switches every session between spoken and text-only answers, mid-session if needed. */
+  setResponseModality(modality: LiveResponseModality) {
+    this.responseModality = modality;
+    this.sessions.forEach(service => service.setResponseModality(modality));
+  }
+
+  /** Connects every language in parallel; `onOpen` fires once all of them are up. */
+  async start(languages: string[], callbacks: InterpreterPoolCallbacks) {
+    const unique = [...new Set(languages)];
+    let opened = 0;
+
+    await Promise.all(unique.map(language => {
+      const service = new GeminiLiveService(this.apiKey, language, { backend: this.backend });
+      service.setGlossary(this.glossary);
+      service.setResponseModality(this.responseModality);
+      this.sessions.set(language, service);
+      return service.connect({
+        onOpen: () => {
+          opened += 1;
+          if (opened === unique.length) callbacks.onOpen?.();
+        },
+        onInputTranscription: () => {},
+        onOutputTranscription: (text) => callbacks.onOutputTranscription(language, text),
+        onAudioData: (data) => callbacks.onAudioData(language, data),
+        onInterrupted: () => callbacks.onInterrupted(language),
+        onTurnComplete: () => callbacks.onTurnComplete?.(language),
+        onReconnecting: (attempt, delayMs) => callbacks.onReconnecting?.(language, attempt, delayMs),
+        onReconnected: () => callbacks.onReconnected?.(language),
+        onError: (err) => callbacks.onError(language, err),
+        onClose: (event) => callbacks.onClose?.(language, event),
+      }, this.voiceName);
+    }));
+  }
+
+  /** Sends to every session, or only to `languages` when given. */
+  sendText(text: string, languages?: string[], request?: TextRequest) {
+    this.sessions.forEach((service, language) => {
+      if (!languages || languages.includes(language)) service.sendText(text, request);
+    });
+  }
+
+  async stop() {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(service => service.disconnect()));
+  }
+}
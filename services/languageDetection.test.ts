@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { SourceLanguageDetector, UNDETERMINED_LANGUAGE, detectLanguage, isSameLanguage, pickLanguage } from './languageDetection';
+
+describe('detectLanguage', () => {
+  it('tells Latin-script languages apart by common words', () => {
+    expect(detectLanguage('Ethics and safety must remain at the forefront of development.')).toBe('en');
+    expect(detectLanguage('La inteligencia artificial está transformando el panorama global.')).toBe('es');
+    expect(detectLanguage('Nous sommes heureux de vous accueillir dans cette salle.')).toBe('fr');
+    expect(detectLanguage('Wir sind nicht sicher, ob das Wetter hält.')).toBe('de');
+  });
+
+  it('recognizes languages by script', () => {
+    expect(detectLanguage('人工知能はグローバルな展望を変えつつあります。')).toBe('ja');
+    expect(detectLanguage('人工智能正在改变全球格局。')).toBe('zh');
+    expect(detectLanguage('인공지능이 세상을 바꾸고 있습니다.')).toBe('ko');
+    expect(detectLanguage('Штучний інтелект змінює світ.')).toBe('uk');
+    expect(detectLanguage('Искусственный интеллект меняет мир.')).toBe('ru');
+  });
+
+  it('returns und when nothing stands out', () => {
+    expect(detectLanguage('')).toBe(UNDETERMINED_LANGUAGE);
+    expect(detectLanguage('42 — 17')).toBe(UNDETERMINED_LANGUAGE);
+    expect(detectLanguage('Kubernetes')).toBe(UNDETERMINED_LANGUAGE);
+  });
+});
+
+describe('pickLanguage', () => {
+  it('chooses between the two languages of a conversation', () => {
+    const pair = ['en-US', 'es-MX'];
+    expect(pickLanguage('Where does it hurt?', pair)).toBe('en-US');
+    expect(pickLanguage('Me duele la cabeza desde ayer.', pair)).toBe('es-MX');
+    expect(pickLanguage('Ibuprofeno', pair)).toBeNull();
+    expect(pickLanguage('頭が痛いです。', ['ja-JP', 'en-US'])).toBe('ja-JP');
+  });
+});
+
+describe('SourceLanguageDetector', () => {
+  it('keeps the running language through a short ambiguous line', () => {
+    const detector = new SourceLanguageDetector();
+    expect(detector.observe('Estamos viendo un cambio de paradigma en cómo trabajamos.', true)).toBe('es');
+    expect(detector.observe('OK, Kubernetes.', true)).toBe('es');
+  });
+
+  it('only remembers finals', () => {
+    const detector = new SourceLanguageDetector();
+    expect(detector.observe('The integration of neural networks', false)).toBe('en');
+    expect(detector.observe('Kubernetes', true)).toBe(UNDETERMINED_LANGUAGE);
+  });
+});
+
+describe('isSameLanguage', () => {
+  it('treats regional variants as the same language', () => {
+    expect(isSameLanguage('es', 'es-MX')).toBe(true);
+    expect(isSameLanguage('en-GB', 'en-US')).toBe(true);
+    expect(isSameLanguage('en', 'fr-FR')).toBe(false);
+    expect(isSameLanguage(UNDETERMINED_LANGUAGE, 'en-US')).toBe(false);
+  });
+
+  it('requires an exact match where variants are written differently', () => {
+    expect(isSameLanguage('zh', 'zh-CN')).toBe(false);
+    expect(isSameLanguage('zh-TW', 'zh-TW')).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+/** BCP-47 "undetermined", carried on segments when the language is not known yet. */
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Languages whose regional variants are written differently; they only match exactly
+const EXACT_MATCH_LANGUAGES = new Set(['zh']);
+
+// Scripts used by a single supported language
+const SCRIPTS: Array<[code: string, pattern: RegExp]> = [
+  ['ko', /[\u1100-\u11ff\uac00-\ud7af]/g],
+  ['th', /[\u0e00-\u0e7f]/g],
+  ['he', /[\u0590-\u05ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+  ['bn', /[\u0980-\u09ff]/g],
+  ['pa', /[\u0a00-\u0a7f]/g],
+  ['ta', /[\u0b80-\u0bff]/g],
+  ['te', /[\u0c00-\u0c7f]/g],
+  ['el', /[\u0370-\u03ff]/g],
+  ['am', /[\u1200-\u137f]/g],
+];
+
+const KANA = /[\u3040-\u30ff]/g;
+const HAN = /[\u4e00-\u9fff]/g;
+const ARABIC = /[\u0600-\u06ff]/g;
+const URDU_LETTERS = /[ٹڈڑںےۓھ]/;
+const CYRILLIC = /[\u0400-\u04ff]/g;
+const UKRAINIAN_LETTERS = /[іїєґ]/i;
+
+// Frequent short words, enough to tell Latin-script languages apart on a sentence or two
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'we', 'you', 'it', 'this', 'with', 'for', 'be', 'have', 'not'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'un', 'una', 'por', 'para', 'con', 'no', 'estamos', 'del'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'que', 'nous', 'vous', 'pour', 'dans', 'pas', 'du', 'sur'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'em', 'um', 'uma', 'não', 'para', 'com', 'do', 'da', 'são', 'está'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'wir', 'sie', 'ich', 'mit', 'zu', 'den', 'auf', 'für', 'es'],
+  it: ['il', 'la', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'sono', 'gli', 'della', 'con', 'del', 'questo', 'siamo'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'dat', 'niet', 'wij', 'we', 'ik', 'met', 'voor', 'zijn', 'op', 'ook', 'te'],
+  sv: ['och', 'är', 'det', 'att', 'en', 'som', 'på', 'inte', 'vi', 'jag', 'med', 'för', 'av', 'till', 'den', 'har'],
+  da: ['og', 'er', 'det', 'at', 'en', 'som', 'på', 'ikke', 'vi', 'jeg', 'med', 'for', 'af', 'til', 'den', 'har'],
+  no: ['og', 'er', 'det', 'å', 'en', 'som', 'på', 'ikke', 'vi', 'jeg', 'med', 'for', 'av', 'til', 'den', 'har'],
+  fi: ['ja', 'on', 'ei', 'se', 'että', 'me', 'minä', 'olen', 'ovat', 'tämä', 'kanssa', 'mutta', 'kun', 'niin'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'to', 'jest', 'że', 'z', 'do', 'jak', 'ale', 'jesteśmy', 'tak'],
+  cs: ['a', 'je', 'to', 'v', 'na', 'se', 'že', 'jsme', 'není', 's', 'do', 'jak', 'ale', 'tak'],
+  hu: ['a', 'az', 'és', 'hogy', 'nem', 'egy', 'van', 'is', 'mi', 'ez', 'de', 'meg', 'vagyunk'],
+  ro: ['și', 'este', 'în', 'de', 'la', 'nu', 'un', 'o', 'că', 'pe', 'cu', 'suntem', 'pentru'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'değil', 'biz', 'ben', 'çok', 'olarak', 'var'],
+  id: ['dan', 'yang', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'kami', 'kita', 'adalah', 'akan', 'dari'],
+  ms: ['dan', 'yang', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'kami', 'kita', 'ialah', 'akan', 'daripada'],
+  fil: ['ang', 'ng', 'sa', 'na', 'at', 'mga', 'ay', 'hindi', 'ako', 'tayo', 'ito', 'para', 'kami'],
+  vi: ['và', 'là', 'của', 'có', 'không', 'chúng', 'tôi', 'một', 'những', 'này', 'được', 'trong', 'cho'],
+  sw: ['na', 'ya', 'wa', 'ni', 'kwa', 'za', 'katika', 'hii', 'sisi', 'hapana', 'kuwa', 'la'],
+};
+
+const STOPWORD_SETS = Object.fromEntries(Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words)]));
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/**
+ * Scores 0..1 per primary language code: script share for scripts used by a
+ * single language, stopword share for Latin script.
+ */
+export function scoreLanguages(text: string): Record<string, number> {
+  const letters = count(text, /\p{L}/gu);
+  if (letters === 0) return {};
+  const scores: Record<string, number> = {};
+  const share = (n: number) => n / letters;
+
+  const kana = count(text, KANA);
+  const han = count(text, HAN);
+  if (kana > 0) scores.ja = share(kana + han);
+  else if (han > 0) scores.zh = share(han);
+
+  const arabic = count(text, ARABIC);
+  if (arabic > 0) scores[URDU_LETTERS.test(text) ? 'ur' : 'ar'] = share(arabic);
+
+  const cyrillic = count(text, CYRILLIC);
+  if (cyrillic > 0) scores[UKRAINIAN_LETTERS.test(text) ? 'uk' : 'ru'] = share(cyrillic);
+
+  SCRIPTS.forEach(([code, pattern]) => {
+    const n = count(text, pattern);
+    if (n > 0) scores[code] = share(n);
+  });
+
+  const latin = count(text, /\p{Script=Latin}/gu);
+  const words = text.toLowerCase().match(/\p{Script=Latin}+/gu) ?? [];
+  if (latin > 0 && words.length > 0) {
+    Object.entries(STOPWORD_SETS).forEach(([code, stopwords]) => {
+      const hits = words.filter(w => stopwords.has(w)).length;
+      if (hits > 0) scores[code] = (hits / words.length) * share(latin);
+    });
+  }
+  return scores;
+}
+
+/** Primary language code of `text`, or `und` when nothing stands out. */
+export function detectLanguage(text: string, minScore: number = 0.1): string {
+  return bestLanguage(scoreLanguages(text), minScore);
+}
+
+/**
+ * Running source-language guess for a Speaker. Each sentence is judged together
+ * with the decayed scores of the finals before it, so a short or mixed line
+ * does not flip the result.
+ */
+export class SourceLanguageDetector {
+  private history: Record<string, number> = {};
+  private decay: number;
+  private minScore: number;
+
+  constructor(decay: number = 0.6, minScore: number = 0.1) {
+    this.decay = decay;
+    this.minScore = minScore;
+  }
+
+  /** Returns the best guess including `text`; finals are remembered for later sentences. */
+  observe(text: string, isFinal: boolean): string {
+    const combined: Record<string, number> = {};
+    Object.entries(this.history).forEach(([code, score]) => { combined[code] = score * this.decay; });
+    Object.entries(scoreLanguages(text)).forEach(([code, score]) => { combined[code] = (combined[code] ?? 0) + score; });
+    if (isFinal) this.history = combined;
+    return bestLanguage(combined, this.minScore);
+  }
+
+  reset() {
+    this.history = {};
+  }
+}
+
+/** Which of the `candidates` (BCP-47 codes) `text` is most likely in, or null if none scores. */
+export function pickLanguage(text: string, candidates: string[]): string | null {
+  const scores = scoreLanguages(text);
+  let best: string | null = null;
+  let bestScore = 0;
+  candidates.forEach(candidate => {
+    const score = scores[candidate.toLowerCase().split('-')[0]] ?? 0;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Whether a Listener language needs no interpretation for this source.
+ * Regional variants count as the same language, except where they are written differently.
+ */
+export function isSameLanguage(source: string, target: string): boolean {
+  if (!source || source === UNDETERMINED_LANGUAGE) return false;
+  const a = source.toLowerCase();
+  const b = target.toLowerCase();
+  const primary = a.split('-')[0];
+  if (primary !== b.split('-')[0]) return false;
+  // A bare detected code like `zh` cannot tell Simplified from Traditional
+  return !EXACT_MATCH_LANGUAGES.has(primary) || a === b;
+}
+
+function bestLanguage(scores: Record<string, number>, minScore: number): string {
+  let best = UNDETERMINED_LANGUAGE;
+  let bestScore = minScore;
+  Object.entries(scores).forEach(([code, score]) => {
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  });
+  return best;
+}
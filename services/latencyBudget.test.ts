@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { LatencyBudget } from './latencyBudget';
+
+describe('LatencyBudget', () => {
+  it('speeds up past the budget and slows down only below half of it', () => {
+    const budget = new LatencyBudget({ maxLagMs: 10000, policy: 'speedUp' });
+    expect(budget.rateFor(9000)).toBe(1);
+    expect(budget.rateFor(12000)).toBeCloseTo(1.2);
+    expect(budget.rateFor(30000)).toBe(1.5);
+    expect(budget.rateFor(8000)).toBe(1.15);
+    expect(budget.rateFor(4000)).toBe(1);
+    expect(budget.shouldSkip(30000)).toBe(false);
+  });
+
+  it('skips only under the skip policy and never with no budget', () => {
+    const budget = new LatencyBudget({ maxLagMs: 5000, policy: 'skip' });
+    expect(budget.shouldSkip(4000)).toBe(false);
+    expect(budget.shouldSkip(6000)).toBe(true);
+    expect(budget.rateFor(60000)).toBe(1);
+    budget.update({ maxLagMs: 0 });
+    expect(budget.shouldSkip(60000)).toBe(false);
+  });
+
+  it('holds lines while behind and releases them together once caught up', () => {
+    const budget = new LatencyBudget({ maxLagMs: 10000, policy: 'summarize' });
+    expect(budget.hold({ id: 'a', text: 'One.' }, 2000)).toBe(false);
+    expect(budget.hold({ id: 'b', text: 'Two.' }, 12000)).toBe(true);
+    // Later lines queue behind held ones even once the lag has dropped
+    expect(budget.hold({ id: 'c', text: 'Three.' }, 7000)).toBe(true);
+    expect(budget.release(6000)).toEqual([]);
+    expect(budget.release(4000).map(l => l.id)).toEqual(['b', 'c']);
+    expect(budget.heldCount).toBe(0);
+  });
+});
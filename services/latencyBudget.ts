@@ -0,0 +1,93 @@
+/**
+ * What Read Aloud does once it falls more than the budget behind:
+ * `speedUp` time-stretches playback, `skip` cuts off queued sentences when a
+ * newer one starts, `summarize` holds source lines back and interprets them
+ * as one short summary.
+ */
+export type CatchUpPolicy = 'speedUp' | 'skip' | 'summarize';
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['speedUp', 'skip', 'summarize'];
+
+export interface LatencyBudgetOptions {
+  /** Queued Read Aloud tolerated before catching up; 0 never catches up. */
+  maxLagMs: number;
+  policy: CatchUpPolicy;
+  /** Fastest `speedUp` playback; speech stays intelligible up to about 1.5×. */
+  maxRate?: number;
+}
+
+export interface HeldLine {
+  id: string;
+  text: string;
+}
+
+// Catching up starts gently and stops once half the budget is left, so the rate does not flap
+const MIN_CATCH_UP_RATE = 1.15;
+
+export class LatencyBudget {
+  private maxLagMs: number;
+  private policy: CatchUpPolicy;
+  private maxRate: number;
+  private catchingUp = false;
+  private held: HeldLine[] = [];
+
+  constructor(options: LatencyBudgetOptions) {
+    this.maxLagMs = options.maxLagMs;
+    this.policy = options.policy;
+    this.maxRate = options.maxRate ?? 1.5;
+  }
+
+  update(options: Partial<LatencyBudgetOptions>) {
+    if (options.maxLagMs !== undefined) this.maxLagMs = options.maxLagMs;
+    if (options.policy !== undefined) this.policy = options.policy;
+    if (options.maxRate !== undefined) this.maxRate = options.maxRate;
+  }
+
+  isOverBudget(lagMs: number): boolean {
+    return this.maxLagMs > 0 && lagMs > this.maxLagMs;
+  }
+
+  /** Playback rate for the next clip under `speedUp`; 1 otherwise. */
+  rateFor(lagMs: number): number {
+    if (this.policy !== 'speedUp' || this.maxLagMs <= 0) {
+      this.catchingUp = false;
+      return 1;
+    }
+    if (lagMs > this.maxLagMs) this.catchingUp = true;
+    else if (lagMs < this.maxLagMs / 2) this.catchingUp = false;
+    if (!this.catchingUp) return 1;
+    return Math.min(this.maxRate, Math.max(MIN_CATCH_UP_RATE, lagMs / this.maxLagMs));
+  }
+
+  /** Under `skip`, whether a sentence starting now should cut off what is still queued. */
+  shouldSkip(lagMs: number): boolean {
+    return this.policy === 'skip' && this.isOverBudget(lagMs);
+  }
+
+  /**
+   * Under `summarize`, keeps a line back instead of interpreting it; returns
+   * whether it did. Once lines are held, later ones join them to keep the order.
+   */
+  hold(line: HeldLine, lagMs: number): boolean {
+    if (this.policy !== 'summarize' || (this.held.length === 0 && !this.isOverBudget(lagMs))) return false;
+    this.held.push(line);
+    return true;
+  }
+
+  /** The held lines, once the queue is under half the budget again. */
+  release(lagMs: number): HeldLine[] {
+    if (this.held.length === 0 || (this.maxLagMs > 0 && lagMs >= this.maxLagMs / 2)) return [];
+    const lines = this.held;
+    this.held = [];
+    return lines;
+  }
+
+  get heldCount() {
+    return this.held.length;
+  }
+
+  reset() {
+    this.catchingUp = false;
+    this.held = [];
+  }
+}
@@ -0,0 +1,66 @@
+import { LiveServerMessage } from '@google/genai';
+
+export enum LiveBackendKind {
+  GEMINI = 'gemini',
+  MOCK = 'mock'
+}
+
+/** What the model answers with: synthesized speech (plus its transcription) or plain text. */
+export type LiveResponseModality = 'audio' | 'text';
+
+export interface LiveBackendCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (error: any) => void;
+  onclose: (event: CloseEvent) => void;
+}
+
+export interface LiveConnectParams {
+  systemInstruction: string;
+  voiceName: string;
+  /** Informational; the Gemini backend relies on the system instruction alone. */
+  targetLanguage: string;
+  responseModality: LiveResponseModality;
+  resumptionHandle?: string;
+  callbacks: LiveBackendCallbacks;
+}
+
+/** The subset of `sendRealtimeInput` payloads CriptLator sends. */
+export interface LiveRealtimeInput {
+  media?: { data: string; mimeType: string };
+  audioStreamEnd?: boolean;
+  parts?: { text: string }[];
+}
+
+export interface LiveSession {
+  sendRealtimeInput(input: LiveRealtimeInput): void;
+  close(): void;
+}
+
+/**
+ * Where Live sessions come from. `GeminiLiveService` owns reconnects, buffering
+ * and callbacks; a backend only opens one socket-like session per call.
+ */
+export interface LiveBackend {
+  readonly kind: LiveBackendKind;
+  connect(params: LiveConnectParams): Promise<LiveSession>;
+}
+
+export interface LiveBackendConfig {
+  kind?: LiveBackendKind;
+  apiKey?: string;
+  /** Mock only: scripted faults, e.g. `close@5000,interrupted@8000`. */
+  mockFaults?: string;
+}
+
+/** Resolves the backend from `LIVE_BACKEND`, with `?backend=` / `?mockFaults=` query overrides. */
+export function resolveLiveBackendConfig(): LiveBackendConfig {
+  const params = new URLSearchParams(window.location.search);
+  const requested = (params.get('backend') || process.env.LIVE_BACKEND || '').toLowerCase();
+
+  return {
+    kind: Object.values(LiveBackendKind).find(k => k === requested),
+    apiKey: process.env.API_KEY,
+    mockFaults: params.get('mockFaults') || process.env.MOCK_LIVE_FAULTS,
+  };
+}
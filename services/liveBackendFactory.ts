@@ -0,0 +1,12 @@
+import { GeminiLiveBackend } from './geminiLiveBackend';
+import { LiveBackend, LiveBackendConfig, LiveBackendKind, resolveLiveBackendConfig } from './liveBackend';
+import { MockLiveBackend, parseMockFaults } from './mockLiveBackend';
+
+/** Picks the Live backend; Gemini unless the mock is requested explicitly. */
+export function createLiveBackend(config: LiveBackendConfig = resolveLiveBackendConfig()): LiveBackend {
+  if (config.kind === LiveBackendKind.MOCK) {
+    console.info('Live backend: using the offline mock');
+    return new MockLiveBackend({ faults: parseMockFaults(config.mockFaults) });
+  }
+  return new GeminiLiveBackend(config.apiKey || '');
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { decode } from './audioCodec';
+import { LiveBackendCallbacks, LiveSession } from './liveBackend';
+import { MockLiveBackend, MockLiveBackendOptions, parseMockFaults } from './mockLiveBackend';
+
+async function open(options: MockLiveBackendOptions = {}) {
+  const messages: LiveServerMessage[] = [];
+  const callbacks: LiveBackendCallbacks = { onopen: vi.fn(), onmessage: m => messages.push(m), onerror: vi.fn(), onclose: vi.fn() };
+  const promise = new MockLiveBackend({ openDelayMs: 10, wordIntervalMs: 20, ...options })
+    .connect({ systemInstruction: '', voiceName: 'Kore', targetLanguage: 'fr', responseModality: 'audio', callbacks });
+  await vi.advanceTimersByTimeAsync(10);
+  const session: LiveSession = await promise;
+  return { session, messages, callbacks };
+}
+
+const media = { data: '', mimeType: 'audio/pcm;rate=16000' };
+
+describe('parseMockFaults', () => {
+  it('reads kind@afterMs[#session] lists and skips unknown entries', () => {
+    expect(parseMockFaults(' close@5000, interrupted@8000#1,explode@10,goAway@x')).toEqual([
+      { kind: 'close', afterMs: 5000, session: 0 },
+      { kind: 'interrupted', afterMs: 8000, session: 1 },
+    ]);
+    expect(parseMockFaults(undefined)).toEqual([]);
+  });
+});
+
+describe('MockLiveBackend', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('transcribes the script word by word as audio arrives', async () => {
+    const { session, messages } = await open({ script: ['Hello there, world.'], chunksPerWord: 2 });
+    const transcript = () => messages.map(m => m.serverContent?.inputTranscription?.text).filter(Boolean).join('');
+
+    session.sendRealtimeInput({ media });
+    expect(transcript()).toBe('');
+    session.sendRealtimeInput({ media });
+    session.sendRealtimeInput({ media });
+    session.sendRealtimeInput({ media });
+    expect(transcript()).toBe('Hello there,');
+
+    // The end of an utterance releases the rest of the line
+    session.sendRealtimeInput({ audioStreamEnd: true });
+    expect(transcript()).toBe('Hello there, world.');
+    expect(messages.at(-1)?.serverContent?.turnComplete).toBe(true);
+  });
+
+  it('answers Interpret: text with a tagged translation and a tone per word', async () => {
+    const { session, messages } = await open({ toneFrequency: 500 });
+    session.sendRealtimeInput({ parts: [{ text: 'Interpret: Good morning' }] });
+    await vi.advanceTimersByTimeAsync(100);
+
+    const caption = messages.map(m => m.serverContent?.outputTranscription?.text).filter(Boolean).join('');
+    expect(caption).toBe('[fr] Good morning');
+    const audio = messages.flatMap(m => m.serverContent?.modelTurn?.parts ?? []).map(p => p.inlineData!.data!);
+    expect(audio).toHaveLength(3);
+    expect(messages.at(-1)?.serverContent?.turnComplete).toBe(true);
+
+    // 180 ms of PCM16 at 24 kHz, faded in and out, peaking at 0.3 full scale
+    const pcm = new Int16Array(decode(audio[0]).buffer);
+    expect(pcm).toHaveLength(4320);
+    expect(pcm[0]).toBe(0);
+    const peak = Math.max(...pcm.map(Math.abs));
+    expect(peak).toBeGreaterThan(0.28 * 32767);
+    expect(peak).toBeLessThanOrEqual(0.3 * 32767 + 1);
+    let crossings = 0;
+    for (let i = 1; i < pcm.length; i++) if (pcm[i - 1] < 0 && pcm[i] >= 0) crossings++;
+    expect(crossings).toBeGreaterThanOrEqual(89);
+    expect(crossings).toBeLessThanOrEqual(90);
+  });
+
+  it('plays scripted faults on the session they target', async () => {
+    const { callbacks } = await open({ faults: [{ kind: 'close', afterMs: 50, session: 0 }] });
+    await vi.advanceTimersByTimeAsync(49);
+    expect(callbacks.onclose).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(callbacks.onclose).toHaveBeenCalledWith(expect.objectContaining({ code: 1011, wasClean: false }));
+  });
+});
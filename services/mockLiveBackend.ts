@@ -0,0 +1,241 @@
+import { LiveServerMessage } from '@google/genai';
+import { LANGUAGE_CODES } from '../types';
+import { encode } from './audioCodec';
+import { LiveBackend, LiveBackendCallbacks, LiveBackendKind, LiveConnectParams, LiveRealtimeInput, LiveSession } from './liveBackend';
+
+export type MockFaultKind = 'interrupted' | 'error' | 'close' | 'goAway';
+
+export interface MockFault {
+  kind: MockFaultKind;
+  /** Delay after the session opens. */
+  afterMs: number;
+  /** Zero-based index of the connection it applies to, so reconnects can succeed. */
+  session?: number;
+}
+
+export interface MockLiveBackendOptions {
+  /** Lines "heard" by Speaker sessions, fed out word by word as audio arrives. */
+  script?: string[];
+  /** Mock interpretation of a line; defaults to prefixing the target language code. */
+  translate?: (text: string, targetLanguage: string) => string;
+  openDelayMs?: number;
+  /** Delay between streamed output words (and their audio). */
+  wordIntervalMs?: number;
+  /** Realtime audio chunks per transcribed input word. */
+  chunksPerWord?: number;
+  toneFrequency?: number;
+  faults?: MockFault[];
+}
+
+const DEFAULT_SCRIPT = [
+  'Welcome everyone to this session.',
+  'Today we are testing live interpretation without a network.',
+  'Every sentence you see here comes from the mock backend.',
+];
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TONE_MS_PER_WORD = 180;
+
+/**
+ * Deterministic, offline stand-in for the Gemini Live API.
+ * Speaker audio is "transcribed" from a fixed script, `Interpret:` text is
+ * echoed back as a tagged translation with a synthesized tone as speech, and
+ * faults can be scripted or triggered to exercise recovery paths.
+ */
+export class MockLiveBackend implements LiveBackend {
+  readonly kind = LiveBackendKind.MOCK;
+  private options: Required<MockLiveBackendOptions>;
+  private sessions: MockLiveSession[] = [];
+
+  constructor(options: MockLiveBackendOptions = {}) {
+    this.options = {
+      script: DEFAULT_SCRIPT,
+      translate: (text, language) => `[${LANGUAGE_CODES[language] ?? language}] ${text}`,
+      openDelayMs: 30,
+      wordIntervalMs: 60,
+      chunksPerWord: 2,
+      toneFrequency: 440,
+      faults: [],
+      ...options,
+    };
+  }
+
+  /** Number of sessions opened so far, including closed ones. */
+  get connectionCount(): number {
+    return this.sessions.length;
+  }
+
+  connect(params: LiveConnectParams): Promise<LiveSession> {
+    const index = this.sessions.length;
+    const session = new MockLiveSession(params, this.options, index);
+    this.sessions.push(session);
+    return session.open().then(() => {
+      this.options.faults
+        .filter(fault => (fault.session ?? 0) === index)
+        .forEach(fault => session.schedule(fault.afterMs, () => session.simulate(fault.kind)));
+      return session;
+    });
+  }
+
+  /** Triggers a fault on the most recent session. */
+  simulate(kind: MockFaultKind) {
+    this.sessions[this.sessions.length - 1]?.simulate(kind);
+  }
+}
+
+class MockLiveSession implements LiveSession {
+  private params: LiveConnectParams;
+  private options: Required<MockLiveBackendOptions>;
+  private index: number;
+  private callbacks: LiveBackendCallbacks;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private closed = false;
+  // Speaker side: position in the script
+  private line = 0;
+  private word = 0;
+  private chunks = 0;
+  // Listener side: the output turn finishes before the next one starts
+  private outputQueue: Promise<void> = Promise.resolve();
+
+  constructor(params: LiveConnectParams, options: Required<MockLiveBackendOptions>, index: number) {
+    this.params = params;
+    this.options = options;
+    this.index = index;
+    this.callbacks = params.callbacks;
+  }
+
+  open(): Promise<void> {
+    return new Promise(resolve => {
+      this.schedule(this.options.openDelayMs, () => {
+        this.callbacks.onopen();
+        this.emit({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-${this.index}` } });
+        resolve();
+      });
+    });
+  }
+
+  sendRealtimeInput(input: LiveRealtimeInput) {
+    if (this.closed) return;
+    if (input.media) this.receiveAudio();
+    if (input.audioStreamEnd) this.endUtterance();
+    const text = input.parts?.map(p => p.text).join('') ?? '';
+    if (text) this.interpret(text.replace(/^(Interpret|Summarize):\s*/, ''));
+  }
+
+  close() {
+    this.finish({ code: 1000, reason: 'Closed by client', wasClean: true });
+  }
+
+  simulate(kind: MockFaultKind) {
+    if (this.closed) return;
+    switch (kind) {
+      case 'interrupted':
+        this.emit({ serverContent: { interrupted: true } });
+        break;
+      case 'goAway':
+        this.emit({ goAway: { timeLeft: '1s' } });
+        break;
+      case 'error':
+        this.callbacks.onerror(new Error('Mock backend error'));
+        break;
+      case 'close':
+        this.finish({ code: 1011, reason: 'Mock backend closed the session', wasClean: false });
+        break;
+    }
+  }
+
+  schedule(delayMs: number, fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private receiveAudio() {
+    this.chunks += 1;
+    if (this.chunks % this.options.chunksPerWord === 0) this.emitInputWord();
+  }
+
+  private emitInputWord() {
+    const words = this.currentLine().split(' ');
+    this.emit({ serverContent: { inputTranscription: { text: `${this.word === 0 ? '' : ' '}${words[this.word]}` } } });
+    this.word += 1;
+    if (this.word >= words.length) this.nextLine();
+  }
+
+  private endUtterance() {
+    if (this.word === 0) return;
+    const words = this.currentLine().split(' ');
+    this.emit({ serverContent: { inputTranscription: { text: ` ${words.slice(this.word).join(' ')}` } } });
+    this.nextLine();
+  }
+
+  private nextLine() {
+    this.word = 0;
+    this.line = (this.line + 1) % this.options.script.length;
+    this.emit({ serverContent: { turnComplete: true } });
+  }
+
+  private currentLine(): string {
+    return this.options.script[this.line] ?? '';
+  }
+
+  private interpret(text: string) {
+    const words = this.options.translate(text, this.params.targetLanguage).split(' ');
+    this.outputQueue = this.outputQueue.then(() => new Promise<void>(resolve => {
+      words.forEach((word, i) => {
+        this.schedule(this.options.wordIntervalMs * (i + 1), () => {
+          const text = `${i === 0 ? '' : ' '}${word}`;
+          if (this.params.responseModality === 'text') {
+            this.emit({ serverContent: { modelTurn: { parts: [{ text }] } } });
+            return;
+          }
+          this.emit({ serverContent: { outputTranscription: { text } } });
+          this.emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data: this.tone(), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }] } } });
+        });
+      });
+      this.schedule(this.options.wordIntervalMs * (words.length + 1), () => {
+        this.emit({ serverContent: { turnComplete: true } });
+        resolve();
+      });
+    }));
+  }
+
+  /** A short sine burst with a fade in/out, as base64 PCM16 at the Live output rate. */
+  private tone(): string {
+    const samples = Math.round(OUTPUT_SAMPLE_RATE * TONE_MS_PER_WORD / 1000);
+    const fade = Math.round(samples * 0.1);
+    const pcm = new Int16Array(samples);
+    for (let i = 0; i < samples; i++) {
+      const envelope = Math.min(1, i / fade, (samples - i) / fade);
+      pcm[i] = Math.round(Math.sin(2 * Math.PI * this.options.toneFrequency * i / OUTPUT_SAMPLE_RATE) * envelope * 0.3 * 32767);
+    }
+    return encode(new Uint8Array(pcm.buffer));
+  }
+
+  // LiveServerMessage is a class with derived getters; plain field objects are enough for the service
+  private emit(message: Omit<LiveServerMessage, 'text' | 'data'>) {
+    if (!this.closed) this.callbacks.onmessage(message as LiveServerMessage);
+  }
+
+  private finish(init: { code: number; reason: string; wasClean: boolean }) {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.callbacks.onclose({ type: 'close', ...init } as CloseEvent);
+  }
+}
+
+/** Parses `kind@afterMs[#session]` lists such as `close@5000,interrupted@8000#1`. */
+export function parseMockFaults(spec: string | undefined): MockFault[] {
+  if (!spec) return [];
+  const kinds: MockFaultKind[] = ['interrupted', 'error', 'close', 'goAway'];
+  return spec.split(',').flatMap(part => {
+    const match = part.trim().match(/^(\w+)@(\d+)(?:#(\d+))?$/);
+    const kind = kinds.find(k => k === match?.[1]);
+    if (!match || !kind) return [];
+    return [{ kind, afterMs: Number(match[2]), session: match[3] ? Number(match[3]) : 0 }];
+  });
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { ModerationQueue } from './moderationQueue';
+
+const segment = (id: string, text: string, startTime: number): TranscriptSegment => ({
+  id,
+  text,
+  type: 'input',
+  timestamp: startTime + 500,
+  seq: Number(id),
+  speakerId: 'speaker',
+  isFinal: true,
+  startTime,
+  endTime: startTime + 500,
+  sourceLanguage: 'en',
+});
+
+describe('ModerationQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('approves untouched segments after the timeout, but not held ones', () => {
+    const approved: string[] = [];
+    const queue = new ModerationQueue({ onApprove: s => approved.push(s.text), autoApproveMs: 5000 });
+    queue.enqueue(segment('1', 'Welcome everyone.', 0));
+    queue.enqueue(segment('2', 'Let us begin.', 1000));
+    queue.hold('2');
+
+    vi.advanceTimersByTime(5000);
+    expect(approved).toEqual(['Welcome everyone.']);
+    expect(queue.getSnapshot().items.map(i => i.id)).toEqual(['2']);
+
+    queue.approve('2');
+    expect(approved).toEqual(['Welcome everyone.', 'Let us begin.']);
+  });
+
+  it('passes corrections on with the transcribed text', () => {
+    const onApprove = vi.fn();
+    const queue = new ModerationQueue({ onApprove, autoApproveMs: 5000 });
+    queue.enqueue(segment('1', 'The new cooper netties cluster.', 0));
+    queue.edit('1', 'The new Kubernetes cluster.');
+    vi.advanceTimersByTime(60000);
+    expect(onApprove).not.toHaveBeenCalled();
+
+    queue.approve('1');
+    expect(onApprove).toHaveBeenCalledWith(expect.objectContaining({ id: '1', text: 'The new Kubernetes cluster.' }), 'The new cooper netties cluster.');
+  });
+
+  it('merges a segment with the next and drops others', () => {
+    const onApprove = vi.fn();
+    const queue = new ModerationQueue({ onApprove });
+    queue.enqueue(segment('1', 'We are seeing', 0));
+    queue.enqueue(segment('2', 'a paradigm shift.', 1000));
+    queue.enqueue(segment('3', 'Um.', 2000));
+
+    queue.mergeWithNext('1');
+    queue.drop('3');
+    queue.approveAll();
+    expect(onApprove).toHaveBeenCalledTimes(1);
+    expect(onApprove).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1', text: 'We are seeing a paradigm shift.', startTime: 0, endTime: 1500 }),
+      'We are seeing a paradigm shift.'
+    );
+  });
+
+  it('releases segments that were counting down when flushed', () => {
+    const approved: string[] = [];
+    const queue = new ModerationQueue({ onApprove: s => approved.push(s.id) });
+    queue.enqueue(segment('1', 'Waiting for review.', 0));
+    queue.setAutoApproveMs(3000);
+    queue.enqueue(segment('2', 'Also counting down.', 1000));
+    queue.enqueue(segment('3', 'Being edited.', 2000));
+    queue.hold('3');
+
+    queue.flush();
+    expect(approved).toEqual(['1', '2']);
+    expect(queue.getSnapshot().items).toEqual([]);
+  });
+});
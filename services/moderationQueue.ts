@@ -0,0 +1,164 @@
+import { TranscriptSegment } from '../types';
+
+export interface ModerationItem {
+  id: string;
+  segment: TranscriptSegment;
+  /** What was transcribed; `text` is what will be broadcast. */
+  originalText: string;
+  text: string;
+  /** Auto-approval deadline; null when auto-approval is off or the item is held. */
+  approveAt: number | null;
+  /** The operator has taken the item over; it waits for an explicit approve. */
+  held: boolean;
+}
+
+export interface ModerationSnapshot {
+  items: ModerationItem[];
+}
+
+export interface ModerationQueueOptions {
+  /** Receives the segment with the approved text, and the text as transcribed. */
+  onApprove: (segment: TranscriptSegment, originalText: string) => void;
+  /** 0 leaves every segment waiting for the operator. */
+  autoApproveMs?: number;
+}
+
+type Listener = () => void;
+
+/**
+ * Speaker-side hold for final segments before they reach Listeners. The operator
+ * can correct, merge, drop or approve each one; untouched segments approve
+ * themselves after `autoApproveMs`. Touching an item (focus, edit, merge) stops
+ * its countdown so a half-made correction is never broadcast.
+ */
+export class ModerationQueue {
+  private snapshot: ModerationSnapshot = { items: [] };
+  private listeners = new Set<Listener>();
+  private timers = new Map<string, number>();
+  private options: ModerationQueueOptions;
+  private autoApproveMs: number;
+
+  constructor(options: ModerationQueueOptions) {
+    this.options = options;
+    this.autoApproveMs = options.autoApproveMs ?? 0;
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  enqueue(segment: TranscriptSegment) {
+    const item: ModerationItem = { id: segment.id, segment, originalText: segment.text, text: segment.text, approveAt: null, held: false };
+    this.clearTimer(item.id);
+    const items = this.snapshot.items.filter(i => i.id !== item.id);
+    items.push(this.schedule(item));
+    this.update(items);
+  }
+
+  /** Stops the countdown, e.g. while the operator is reading or editing the item. */
+  hold(id: string) {
+    const item = this.find(id);
+    if (!item || item.held) return;
+    this.clearTimer(id);
+    this.replace(id, { ...item, approveAt: null, held: true });
+  }
+
+  edit(id: string, text: string) {
+    const item = this.find(id);
+    if (!item) return;
+    this.clearTimer(id);
+    this.replace(id, { ...item, text, approveAt: null, held: true });
+  }
+
+  /** Joins an item with the one after it, keeping the first id and the combined timing. */
+  mergeWithNext(id: string) {
+    const items = this.snapshot.items;
+    const idx = items.findIndex(i => i.id === id);
+    if (idx < 0 || idx === items.length - 1) return;
+    const [first, second] = [items[idx], items[idx + 1]];
+    this.clearTimer(first.id);
+    this.clearTimer(second.id);
+    const merged: ModerationItem = {
+      ...first,
+      segment: { ...first.segment, endTime: second.segment.endTime, timestamp: second.segment.timestamp },
+      originalText: `${first.originalText} ${second.originalText}`,
+      text: `${first.text.trim()} ${second.text.trim()}`,
+      approveAt: null,
+      held: true,
+    };
+    this.update([...items.slice(0, idx), merged, ...items.slice(idx + 2)]);
+  }
+
+  drop(id: string) {
+    if (!this.find(id)) return;
+    this.clearTimer(id);
+    this.update(this.snapshot.items.filter(i => i.id !== id));
+  }
+
+  approve(id: string) {
+    const item = this.find(id);
+    if (!item) return;
+    this.clearTimer(id);
+    this.update(this.snapshot.items.filter(i => i.id !== id));
+    const text = item.text.trim();
+    if (text) this.options.onApprove({ ...item.segment, text }, item.originalText);
+  }
+
+  approveAll() {
+    this.snapshot.items.forEach(item => this.approve(item.id));
+  }
+
+  /** Applies to items still counting down, and to everything enqueued from now on. */
+  setAutoApproveMs(ms: number) {
+    this.autoApproveMs = ms;
+    const items = this.snapshot.items.map(item => {
+      if (item.held) return item;
+      this.clearTimer(item.id);
+      return this.schedule({ ...item, approveAt: null });
+    });
+    this.update(items);
+  }
+
+  /** Session end: releases what was due to approve itself anyway and discards the rest. */
+  flush() {
+    this.snapshot.items.filter(i => i.approveAt !== null).forEach(item => this.approve(item.id));
+    this.dispose();
+  }
+
+  dispose() {
+    this.timers.forEach(timer => window.clearTimeout(timer));
+    this.timers.clear();
+    this.update([]);
+  }
+
+  private schedule(item: ModerationItem): ModerationItem {
+    if (this.autoApproveMs <= 0) return item;
+    this.timers.set(item.id, window.setTimeout(() => {
+      this.timers.delete(item.id);
+      this.approve(item.id);
+    }, this.autoApproveMs));
+    return { ...item, approveAt: Date.now() + this.autoApproveMs };
+  }
+
+  private find(id: string) {
+    return this.snapshot.items.find(i => i.id === id);
+  }
+
+  private replace(id: string, next: ModerationItem) {
+    this.update(this.snapshot.items.map(i => i.id === id ? next : i));
+  }
+
+  private clearTimer(id: string) {
+    const timer = this.timers.get(id);
+    if (timer !== undefined) window.clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private update(items: ModerationItem[]) {
+    this.snapshot = { items };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SupportLanguage } from '../types';
+import { isOverlayView, readOverlayConfig } from './overlayConfig';
+
+describe('overlay config', () => {
+  it('detects the overlay view', () => {
+    expect(isOverlayView('?view=overlay&room=ABC123')).toBe(true);
+    expect(isOverlayView('?room=ABC123')).toBe(false);
+  });
+
+  it('reads room, language and styling from the query', () => {
+    const config = readOverlayConfig('?view=overlay&room=abc-123&lang=es-MX&size=60&lines=3&position=top&color=ffcc00&bg=transparent&hold=0&fade=250');
+    expect(config).toEqual({
+      roomCode: 'ABC123',
+      language: SupportLanguage.SPANISH_MX,
+      fontSize: 60,
+      lines: 3,
+      position: 'top',
+      color: '#ffcc00',
+      background: 'transparent',
+      holdMs: 0,
+      fadeMs: 250,
+    });
+  });
+
+  it('matches languages by name or primary subtag', () => {
+    expect(readOverlayConfig('?lang=Japanese').language).toBe(SupportLanguage.JAPANESE);
+    expect(readOverlayConfig('?lang=de').language).toBe(SupportLanguage.GERMAN);
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    const config = readOverlayConfig('?room=ABC123&lang=de&size=abc&lines=99&position=left&color=url(x)');
+    expect(config.fontSize).toBe(42);
+    expect(config.lines).toBe(10);
+    expect(config.position).toBe('bottom');
+    expect(config.color).toBe('#ffffff');
+  });
+});
@@ -0,0 +1,74 @@
+import { SupportLanguage, findLanguage, resolveAutoLanguage } from '../types';
+import { normalizeRoomCode } from './rooms';
+
+export type OverlayPosition = 'top' | 'center' | 'bottom';
+
+export interface OverlayConfig {
+  roomCode: string;
+  language: SupportLanguage;
+  fontSize: number;
+  lines: number;
+  position: OverlayPosition;
+  color: string;
+  background: string;
+  /** How long a finished line stays before fading out; 0 keeps it until pushed off. */
+  holdMs: number;
+  fadeMs: number;
+}
+
+const DEFAULTS: Omit<OverlayConfig, 'roomCode' | 'language'> = {
+  fontSize: 42,
+  lines: 2,
+  position: 'bottom',
+  color: '#ffffff',
+  background: 'rgba(0, 0, 0, 0.55)',
+  holdMs: 6000,
+  fadeMs: 600,
+};
+
+export function isOverlayView(search: string = window.location.search): boolean {
+  return new URLSearchParams(search).get('view') === 'overlay';
+}
+
+/**
+ * Reads `?view=overlay&room=CODE&lang=es-MX` plus optional `size`, `lines`,
+ * `position` (top|center|bottom), `color`, `bg`, `hold` and `fade` (ms).
+ * Colors accept CSS names or bare hex (`ffcc00`), since `#` starts the URL hash.
+ */
+export function readOverlayConfig(search: string = window.location.search): OverlayConfig {
+  const params = new URLSearchParams(search);
+  const position = params.get('position');
+
+  return {
+    roomCode: normalizeRoomCode(params.get('room') || ''),
+    language: findLanguage(params.get('lang') || '') ?? resolveAutoLanguage(),
+    fontSize: clampNumber(params.get('size'), 12, 200, DEFAULTS.fontSize),
+    lines: clampNumber(params.get('lines'), 1, 10, DEFAULTS.lines),
+    position: position === 'top' || position === 'center' || position === 'bottom' ? position : DEFAULTS.position,
+    color: parseColor(params.get('color')) ?? DEFAULTS.color,
+    background: parseColor(params.get('bg')) ?? DEFAULTS.background,
+    holdMs: clampNumber(params.get('hold'), 0, 600000, DEFAULTS.holdMs),
+    fadeMs: clampNumber(params.get('fade'), 0, 10000, DEFAULTS.fadeMs),
+  };
+}
+
+export function buildOverlayLink(roomCode: string, language: string): string {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  url.search = new URLSearchParams({ view: 'overlay', room: roomCode, lang: language }).toString();
+  return url.toString();
+}
+
+function clampNumber(raw: string | null, min: number, max: number, fallback: number): number {
+  const value = Number(raw);
+  if (raw === null || raw === '' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function parseColor(raw: string | null): string | null {
+  if (!raw) return null;
+  const value = raw.trim();
+  if (/^[0-9a-f]{3,8}$/i.test(value)) return `#${value}`;
+  if (value === 'transparent' || /^[a-z]+$/i.test(value) || /^(rgb|hsl)a?\([\d\s.,%]+\)$/i.test(value)) return value;
+  return null;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { PlaybackQueue, PlaybackScheduler } from './playbackScheduler';
+
+class FakeSource {
+  buffer: AudioBuffer | null = null;
+  startedAt: number | null = null;
+  stopped = false;
+  onended: (() => void) | null = null;
+  connect() {}
+  start(when: number) { this.startedAt = when; }
+  stop() { this.stopped = true; }
+}
+
+function fakeContext() {
+  const sources: FakeSource[] = [];
+  const ctx = {
+    currentTime: 0,
+    createBufferSource: () => {
+      const source = new FakeSource();
+      sources.push(source);
+      return source as unknown as AudioBufferSourceNode;
+    },
+  };
+  return { ctx, sources };
+}
+
+const clip = (duration: number) => ({ duration }) as AudioBuffer;
+
+describe('PlaybackScheduler', () => {
+  it('queues clips back to back', () => {
+    const scheduler = new PlaybackScheduler();
+    expect(scheduler.schedule(0, 0.5)).toBe(0);
+    expect(scheduler.schedule(0.1, 0.5)).toBe(0.5);
+    expect(scheduler.schedule(0.2, 0.25)).toBe(1);
+    expect(scheduler.queuedDuration(0.2)).toBeCloseTo(1.05);
+  });
+
+  it('starts immediately once the context clock has passed the queue', () => {
+    const scheduler = new PlaybackScheduler();
+    scheduler.schedule(0, 0.5);
+    expect(scheduler.schedule(2, 0.5)).toBe(2);
+    expect(scheduler.schedule(2.1, 0.5)).toBe(2.5);
+    expect(scheduler.queuedDuration(10)).toBe(0);
+  });
+
+  it('drops queued time on reset', () => {
+    const scheduler = new PlaybackScheduler();
+    scheduler.schedule(0, 5);
+    scheduler.reset(1);
+    expect(scheduler.queuedDuration(1)).toBe(0);
+    expect(scheduler.schedule(1.2, 0.5)).toBe(1.2);
+  });
+});
+
+describe('PlaybackQueue', () => {
+  it('schedules sources gaplessly on the destination', () => {
+    const { ctx, sources } = fakeContext();
+    const queue = new PlaybackQueue(ctx, {} as AudioNode);
+    queue.play(clip(0.4));
+    queue.play(clip(0.4));
+    expect(sources.map(s => s.startedAt)).toEqual([0, 0.4]);
+    expect(queue.activeSources).toBe(2);
+  });
+
+  it('forgets sources as they end', () => {
+    const { ctx, sources } = fakeContext();
+    const queue = new PlaybackQueue(ctx, {} as AudioNode);
+    queue.play(clip(0.4));
+    sources[0].onended?.();
+    expect(queue.activeSources).toBe(0);
+  });
+
+  it('stops everything on interruption and restarts from the current time', () => {
+    const { ctx, sources } = fakeContext();
+    const queue = new PlaybackQueue(ctx, {} as AudioNode);
+    queue.play(clip(1));
+    queue.play(clip(1));
+    ctx.currentTime = 0.3;
+    queue.stop();
+
+    expect(sources.every(s => s.stopped)).toBe(true);
+    expect(queue.activeSources).toBe(0);
+    expect(queue.queuedDuration()).toBe(0);
+    expect(queue.play(clip(0.5))).toBe(0.3);
+  });
+
+  it('catches up when clips arrive after the queue has drained', () => {
+    const { ctx } = fakeContext();
+    const queue = new PlaybackQueue(ctx, {} as AudioNode);
+    queue.play(clip(0.2));
+    ctx.currentTime = 1.5;
+    expect(queue.play(clip(0.2))).toBe(1.5);
+    expect(queue.queuedDuration()).toBeCloseTo(0.2);
+  });
+});
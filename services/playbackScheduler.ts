@@ -0,0 +1,65 @@
+/**
+ * Gapless scheduling for streamed audio clips: each clip starts where the
+ * previous one ends, or immediately if the queue has already drained.
+ */
+export class PlaybackScheduler {
+  private nextStartTime = 0;
+
+  /** Reserves `duration` seconds and returns the context time the clip should start at. */
+  schedule(currentTime: number, duration: number): number {
+    const start = Math.max(this.nextStartTime, currentTime);
+    this.nextStartTime = start + duration;
+    return start;
+  }
+
+  /** Seconds of audio still queued ahead of `currentTime`. */
+  queuedDuration(currentTime: number): number {
+    return Math.max(0, this.nextStartTime - currentTime);
+  }
+
+  /** Drops the queue, e.g. after an interruption; the next clip plays at once. */
+  reset(currentTime: number = 0) {
+    this.nextStartTime = currentTime;
+  }
+}
+
+type PlaybackContext = Pick<BaseAudioContext, 'currentTime' | 'createBufferSource'>;
+
+/** Plays decoded clips back to back on one destination and can cut them all off. */
+export class PlaybackQueue {
+  private ctx: PlaybackContext;
+  private destination: AudioNode;
+  private scheduler = new PlaybackScheduler();
+  private sources = new Set<AudioBufferSourceNode>();
+
+  constructor(ctx: PlaybackContext, destination: AudioNode) {
+    this.ctx = ctx;
+    this.destination = destination;
+  }
+
+  get activeSources(): number {
+    return this.sources.size;
+  }
+
+  queuedDuration(): number {
+    return this.scheduler.queuedDuration(this.ctx.currentTime);
+  }
+
+  play(buffer: AudioBuffer): number {
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.destination);
+
+    const start = this.scheduler.schedule(this.ctx.currentTime, buffer.duration);
+    source.start(start);
+    this.sources.add(source);
+    source.onended = () => this.sources.delete(source);
+    return start;
+  }
+
+  stop() {
+    this.sources.forEach(s => { try { s.stop(); } catch(e) {} });
+    this.sources.clear();
+    this.scheduler.reset(this.ctx.currentTime);
+  }
+}
@@ -0,0 +1,29 @@
+import { BroadcastChannelRelayTransport } from './broadcastChannelRelay';
+import { RelayConfig, RelayKind, RelayTransport, resolveRelayConfig } from './relayTransport';
+import { SupabaseRelayTransport } from './supabaseRelay';
+import { WebSocketRelayTransport } from './webSocketRelay';
+
+const DEFAULT_WS_URL = 'ws://localhost:8787';
+
+/**
+ * Picks a relay backend. Supabase is used when configured, otherwise the
+ * BroadcastChannel stand-in keeps multi-tab Speaker/Listener flows working offline.
+ */
+export function createRelayTransport(config: RelayConfig = resolveRelayConfig()): RelayTransport | null {
+  const hasSupabase = !!(config.supabaseUrl && config.supabaseKey);
+  const kind = config.kind ?? (hasSupabase ? RelayKind.SUPABASE : RelayKind.BROADCAST_CHANNEL);
+
+  switch (kind) {
+    case RelayKind.SUPABASE:
+      if (!hasSupabase) {
+        console.warn('Relay: Supabase requested but SUPABASE_URL / SUPABASE_ANON_KEY are missing');
+        return null;
+      }
+      return new SupabaseRelayTransport(config.supabaseUrl!, config.supabaseKey!);
+    case RelayKind.WEBSOCKET:
+      return new WebSocketRelayTransport(config.webSocketUrl || DEFAULT_WS_URL);
+    case RelayKind.BROADCAST_CHANNEL:
+      if (typeof BroadcastChannel === 'undefined') return null;
+      return new BroadcastChannelRelayTransport();
+  }
+}
@@ -0,0 +1,95 @@
+import { GlossaryEntry, Room, TranscriptSegment, UserRole } from '../types';
+
+export enum RelayKind {
+  SUPABASE = 'supabase',
+  BROADCAST_CHANNEL = 'broadcast',
+  WEBSOCKET = 'websocket'
+}
+
+/** Whether a Speaker's audio is reaching the room; `paused` while every source is muted or Gemini reconnects. */
+export type SpeakerStatus = 'live' | 'paused';
+
+/** How well a Listener is keeping up with the room. */
+export type ListenerHealth = 'good' | 'lagging' | 'reconnecting';
+
+export interface RelayPresenceState {
+  role: UserRole;
+  /** Speaker: the source language. Listener: every language it interprets into, the one read aloud first. */
+  languages?: string[];
+  status?: SpeakerStatus;
+  health?: ListenerHealth;
+}
+
+export interface RelayPeer extends RelayPresenceState {
+  clientId: string;
+  lastSeen: number;
+}
+
+export interface RelaySubscriptionHandlers {
+  onSegment: (segment: TranscriptSegment) => void;
+  onRoomClosed: () => void;
+  onGlossary?: (glossary: GlossaryEntry[]) => void;
+}
+
+export interface RelayPresenceHandle {
+  update: (state: RelayPresenceState) => void;
+  leave: () => void;
+}
+
+/**
+ * Speaker → Listener link. Implementations own room lifecycle, segment
+ * fan-out and presence for one backend (Supabase, BroadcastChannel, LAN WebSocket).
+ */
+export interface RelayTransport {
+  readonly kind: RelayKind;
+  openRoom(): Promise<Room>;
+  joinRoom(code: string): Promise<Room>;
+  closeRoom(room: Room): Promise<void>;
+  publishSegment(room: Room, segment: TranscriptSegment): Promise<void>;
+  updateGlossary(room: Room, glossary: GlossaryEntry[]): Promise<void>;
+  subscribe(room: Room, handlers: RelaySubscriptionHandlers): () => void;
+  trackPresence(room: Room, state: RelayPresenceState, onSync: (peers: RelayPeer[]) => void): RelayPresenceHandle;
+  close(): Promise<void>;
+}
+
+/**
+ * Messages exchanged by the local transports (BroadcastChannel and the LAN
+ * WebSocket relay share the same envelope).
+ */
+export type RelayEnvelope =
+  | { type: 'segment'; roomId: string; segment: TranscriptSegment }
+  | { type: 'room-closed'; roomId: string }
+  | { type: 'glossary'; roomId: string; glossary: GlossaryEntry[] }
+  | { type: 'presence'; roomId: string; peer: RelayPeer }
+  | { type: 'presence-leave'; roomId: string; clientId: string };
+
+export const PRESENCE_HEARTBEAT_MS = 5000;
+export const PRESENCE_TIMEOUT_MS = 15000;
+
+export function createClientId(): string {
+  return crypto.randomUUID();
+}
+
+export interface RelayConfig {
+  kind?: RelayKind;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  webSocketUrl?: string;
+}
+
+/**
+ * Resolves relay settings from the build env, with `?relay=` / `?relayUrl=`
+ * query overrides so a local stand-in can be picked without rebuilding.
+ */
+export function resolveRelayConfig(): RelayConfig {
+  const params = new URLSearchParams(window.location.search);
+  const requested = (params.get('relay') || process.env.RELAY_TRANSPORT || '').toLowerCase();
+  const kind = Object.values(RelayKind).find(k => k === requested);
+
+  return {
+    kind,
+    supabaseUrl: process.env.SUPABASE_URL,
+    supabaseKey: process.env.SUPABASE_ANON_KEY,
+    webSocketUrl: params.get('relayUrl') || process.env.RELAY_WS_URL,
+  };
+}
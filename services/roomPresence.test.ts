@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { UserRole } from '../types';
+import { RelayPeer } from './relayTransport';
+import { summarizeRoster } from './roomPresence';
+
+const peer = (clientId: string, state: Omit<RelayPeer, 'clientId' | 'lastSeen'>): RelayPeer => ({ ...state, clientId, lastSeen: 0 });
+
+describe('summarizeRoster', () => {
+  it('counts Listeners by language and health', () => {
+    const roster = summarizeRoster([
+      peer('s', { role: UserRole.SPEAKER, languages: ['English'], status: 'live' }),
+      peer('a', { role: UserRole.LISTENER, languages: ['Spanish', 'French'], health: 'good' }),
+      peer('b', { role: UserRole.LISTENER, languages: ['Spanish'], health: 'lagging' }),
+      peer('c', { role: UserRole.LISTENER, languages: ['German'], health: 'reconnecting' }),
+    ]);
+
+    expect(roster.listeners).toBe(3);
+    expect(roster.languages).toEqual([
+      { language: 'Spanish', count: 2 },
+      { language: 'French', count: 1 },
+      { language: 'German', count: 1 },
+    ]);
+    expect(roster.health).toEqual({ good: 1, lagging: 1, reconnecting: 1 });
+    expect(roster.speaker).toBe('live');
+  });
+
+  it('reports a missing or paused Speaker', () => {
+    const listener = peer('a', { role: UserRole.LISTENER });
+    expect(summarizeRoster([listener]).speaker).toBe('offline');
+    expect(summarizeRoster([listener, peer('s', { role: UserRole.SPEAKER, status: 'paused' })]).speaker).toBe('paused');
+  });
+
+  it('treats peers without state as healthy and live', () => {
+    const roster = summarizeRoster([peer('s', { role: UserRole.SPEAKER }), peer('a', { role: UserRole.LISTENER })]);
+    expect(roster).toMatchObject({ listeners: 1, languages: [], health: { good: 1 }, speaker: 'live' });
+  });
+});
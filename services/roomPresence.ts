@@ -0,0 +1,35 @@
+import { UserRole } from '../types';
+import { ListenerHealth, RelayPeer, SpeakerStatus } from './relayTransport';
+
+export interface RoomRoster {
+  listeners: number;
+  /** Listeners per language they interpret into, most common first. */
+  languages: { language: string; count: number }[];
+  health: Record<ListenerHealth, number>;
+  /** `offline` when no Speaker is in the room, e.g. its tab closed without ending the broadcast. */
+  speaker: SpeakerStatus | 'offline';
+}
+
+/**
+ * Summarizes a presence sync for the UI. Peers from older clients carry only
+ * a role; they count as healthy Listeners and a live Speaker.
+ */
+export function summarizeRoster(peers: RelayPeer[]): RoomRoster {
+  const listeners = peers.filter(peer => peer.role === UserRole.LISTENER);
+  const speakers = peers.filter(peer => peer.role === UserRole.SPEAKER);
+
+  const counts = new Map<string, number>();
+  const health: Record<ListenerHealth, number> = { good: 0, lagging: 0, reconnecting: 0 };
+  listeners.forEach(peer => {
+    new Set(peer.languages ?? []).forEach(language => counts.set(language, (counts.get(language) ?? 0) + 1));
+    health[peer.health ?? 'good'] += 1;
+  });
+  const languages = [...counts.entries()]
+    .map(([language, count]) => ({ language, count }))
+    .sort((a, b) => b.count - a.count || a.language.localeCompare(b.language));
+
+  const speaker = speakers.length === 0 ? 'offline'
+    : speakers.some(peer => (peer.status ?? 'live') === 'live') ? 'live' : 'paused';
+
+  return { listeners: listeners.length, languages, health, speaker };
+}
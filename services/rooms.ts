@@ -0,0 +1,47 @@
+import { Room, RoomStatus } from '../types';
+
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+export type RoomErrorReason = 'NOT_FOUND' | 'CLOSED' | 'UNAVAILABLE';
+
+export class RoomError extends Error {
+  reason: RoomErrorReason;
+
+  constructor(reason: RoomErrorReason, message: string) {
+    super(message);
+    this.name = 'RoomError';
+    this.reason = reason;
+  }
+}
+
+export function generateRoomCode(): string {
+  const bytes = new Uint8Array(ROOM_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[bytes[i] % ROOM_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Reads `#room=CODE` from the current URL hash. */
+export function readRoomCodeFromHash(): string {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return normalizeRoomCode(params.get('room') || '');
+}
+
+export function buildRoomLink(code: string): string {
+  return `${window.location.origin}${window.location.pathname}${window.location.search}#room=${code}`;
+}
+
+/** Throws the matching RoomError when a looked-up room cannot be joined. */
+export function assertJoinable(room: Room | null | undefined): Room {
+  if (!room) throw new RoomError('NOT_FOUND', 'Room not found');
+  if (room.status === RoomStatus.CLOSED) throw new RoomError('CLOSED', 'Room is closed');
+  return room;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_SAMPLES, SampleLibrary, parseCues, parsePlainText, parseSampleFile } from './sampleLibrary';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Welcome to the
+<i>opening keynote.</i>
+
+2
+00:00:04,200 --> 00:00:06,000
+Let us begin.
+`;
+
+const VTT = `WEBVTT
+
+NOTE recorded live
+
+intro
+00:01.000 --> 00:02.500 align:start
+Bonjour à tous.
+`;
+
+describe('sample parsing', () => {
+  it('reads SRT and WebVTT cues with their timings', () => {
+    expect(parseCues(SRT)).toEqual([
+      { text: 'Welcome to the opening keynote.', startMs: 1000, endMs: 3500 },
+      { text: 'Let us begin.', startMs: 4200, endMs: 6000 },
+    ]);
+    expect(parseCues(VTT)).toEqual([{ text: 'Bonjour à tous.', startMs: 1000, endMs: 2500 }]);
+  });
+
+  it('splits plain text into sentences', () => {
+    expect(parsePlainText('First point. Second point!\n\n最初です。次です。').map(l => l.text))
+      .toEqual(['First point.', 'Second point!', '最初です。', '次です。']);
+  });
+
+  it('accepts scripts and transcript exports as JSON', () => {
+    const script = parseSampleFile('rehearsal.json', JSON.stringify({ name: 'Town hall', language: 'de-DE', lines: ['Guten Morgen.', { text: 'Wir beginnen.', startMs: 2000 }] }));
+    expect(script).toMatchObject({ name: 'Town hall', language: 'de-DE', lines: [{ text: 'Guten Morgen.' }, { text: 'Wir beginnen.', startMs: 2000 }] });
+
+    const exported = parseSampleFile('criptlator-2026.json', JSON.stringify({
+      records: [
+        { type: 'input', text: 'The session is starting now.', startTime: 100, endTime: 900, offsetMs: 500 },
+        { type: 'output', text: 'La sesión comienza ahora.', startTime: 100, endTime: 900, offsetMs: 500 },
+      ],
+    }));
+    expect(exported).toMatchObject({ name: 'criptlator-2026', language: 'en', lines: [{ text: 'The session is starting now.', startMs: 500, endMs: 1300 }] });
+  });
+
+  it('rejects files without lines', () => {
+    expect(() => parseSampleFile('empty.srt', 'WEBVTT\n')).toThrow('No lines found');
+    expect(() => parseSampleFile('slides.pdf', '')).toThrow('Unsupported sample file');
+  });
+});
+
+describe('SampleLibrary', () => {
+  it('persists imported scripts next to the built-in ones', () => {
+    const items = new Map<string, string>();
+    const storage = { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => { items.set(k, v); } };
+    const library = new SampleLibrary(storage);
+    const script = parseSampleFile('keynote.txt', 'Hello and welcome.');
+    library.add(script);
+    library.remove(BUILT_IN_SAMPLES[0].id);
+
+    const reloaded = new SampleLibrary(storage);
+    expect(reloaded.getSnapshot().samples.map(s => s.name)).toEqual([...BUILT_IN_SAMPLES.map(s => s.name), 'keynote']);
+    reloaded.remove(script.id);
+    expect(new SampleLibrary(storage).getSnapshot().samples).toHaveLength(BUILT_IN_SAMPLES.length);
+  });
+});
@@ -0,0 +1,233 @@
+import { UNDETERMINED_LANGUAGE, detectLanguage } from './languageDetection';
+import { findSentenceBoundary } from './segmentAggregator';
+
+export interface SampleLine {
+  text: string;
+  /** Cue timing from SRT, WebVTT or JSON, relative to the start of the script. */
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface SampleScript {
+  id: string;
+  name: string;
+  /** BCP-47 code, or a bare primary code when detected; `und` if unknown. */
+  language: string;
+  lines: SampleLine[];
+  /** Shipped with the app; cannot be removed. */
+  builtIn?: boolean;
+}
+
+export interface SampleLibrarySnapshot {
+  samples: SampleScript[];
+}
+
+const STORAGE_KEY = 'criptlator_samples';
+
+export const BUILT_IN_SAMPLES: SampleScript[] = [
+  {
+    id: 'sample-1',
+    name: 'Sample 1: Tech Summit (English)',
+    language: 'en-US',
+    builtIn: true,
+    lines: [
+      "Artificial intelligence is transforming the global landscape.",
+      "We are seeing a paradigm shift in how we work and create.",
+      "The integration of neural networks into daily life is accelerating.",
+      "Ethics and safety must remain at the forefront of development.",
+      "Let's explore the future possibilities together in this session."
+    ].map(text => ({ text })),
+  },
+  {
+    id: 'sample-2',
+    name: 'Sample 2: Conferencia (Spanish)',
+    language: 'es-ES',
+    builtIn: true,
+    lines: [
+      "La inteligencia artificial está transformando el panorama global.",
+      "Estamos viendo un cambio de paradigma en cómo trabajamos y creamos.",
+      "La integración de redes neuronales en la vida diaria se está acelerando.",
+      "La ética y la seguridad deben seguir siendo la prioridad del desarrollo.",
+      "Exploremos juntos las posibilidades futuras en esta sesión."
+    ].map(text => ({ text })),
+  },
+  {
+    id: 'sample-3',
+    name: 'Sample 3: サミット (Japanese)',
+    language: 'ja-JP',
+    builtIn: true,
+    lines: [
+      "人工知能はグローバルな展望を変えつつあります。",
+      "仕事や創造のあり方にパラダイムシフトが起きています。",
+      "日常生活へのニューラルネットワークの統合が加速しています。",
+      "開発の最前線には常に倫理と安全性がなければなりません。",
+      "このセッションで、未来の可能性を一緒に探っていきましょう。"
+    ].map(text => ({ text })),
+  },
+];
+
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{3})/;
+
+/** `HH:MM:SS,mmm` or `MM:SS.mmm` to milliseconds. */
+export function parseCueTime(value: string): number {
+  const [clock, millis] = value.split(/[,.]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + Number(millis);
+}
+
+/** Reads SRT or WebVTT cues; markup is stripped and multi-line cues are joined. */
+export function parseCues(text: string): SampleLine[] {
+  return text.replace(/\r\n?/g, '\n').split(/\n{2,}/).flatMap(block => {
+    const rows = block.split('\n');
+    const timingRow = rows.findIndex(row => CUE_TIMING.test(row));
+    if (timingRow < 0) return [];
+    const [, start, end] = rows[timingRow].match(CUE_TIMING)!;
+    const cueText = rows.slice(timingRow + 1).join(' ').replace(/<[^>]*>|\{\\[^}]*\}/g, '').replace(/\s+/g, ' ').trim();
+    return cueText ? [{ text: cueText, startMs: parseCueTime(start), endMs: parseCueTime(end) }] : [];
+  });
+}
+
+/** One line per sentence; paragraphs are split at sentence boundaries. */
+export function parsePlainText(text: string): SampleLine[] {
+  return text.split(/\r?\n/).flatMap(row => {
+    const lines: SampleLine[] = [];
+    let rest = row.trim();
+    let boundary = findSentenceBoundary(rest);
+    while (boundary > 0 && boundary < rest.length) {
+      lines.push({ text: rest.slice(0, boundary).trim() });
+      rest = rest.slice(boundary).trim();
+      boundary = findSentenceBoundary(rest);
+    }
+    if (rest) lines.push({ text: rest });
+    return lines;
+  });
+}
+
+/**
+ * Accepts `{ name?, language?, lines }` or a bare array, where each line is a
+ * string or `{ text, startMs?, endMs? }`, as well as a CriptLator transcript
+ * JSON export (its source lines, at their session offsets).
+ */
+export function parseJsonScript(text: string): { name?: string; language?: string; lines: SampleLine[] } {
+  const doc = JSON.parse(text);
+  if (Array.isArray(doc?.records)) {
+    const lines = doc.records
+      .filter((r: any) => r?.type === 'input' && typeof r.text === 'string')
+      .map((r: any) => ({ text: r.text, startMs: r.offsetMs, endMs: r.offsetMs + (r.endTime - r.startTime) }));
+    return { lines: toLines(lines) };
+  }
+  const rawLines = Array.isArray(doc) ? doc : doc?.lines;
+  if (!Array.isArray(rawLines)) throw new Error('Unrecognized sample JSON');
+  return {
+    name: typeof doc.name === 'string' ? doc.name : undefined,
+    language: typeof doc.language === 'string' ? doc.language : undefined,
+    lines: toLines(rawLines),
+  };
+}
+
+/** Builds a script from an imported file, picking the parser by extension. */
+export function parseSampleFile(fileName: string, text: string): SampleScript {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  let parsed: { name?: string; language?: string; lines: SampleLine[] };
+  switch (extension) {
+    case 'srt':
+    case 'vtt':
+      parsed = { lines: parseCues(text) };
+      break;
+    case 'json':
+      parsed = parseJsonScript(text);
+      break;
+    case 'txt':
+      parsed = { lines: parsePlainText(text) };
+      break;
+    default:
+      throw new Error(`Unsupported sample file: .${extension}`);
+  }
+  if (parsed.lines.length === 0) throw new Error(`No lines found in ${fileName}`);
+  return {
+    id: crypto.randomUUID(),
+    name: parsed.name || baseName,
+    language: parsed.language || detectLanguage(parsed.lines.slice(0, 20).map(l => l.text).join(' ')),
+    lines: parsed.lines,
+  };
+}
+
+/** Whether any line carries cue timing. */
+export function isTimed(script: SampleScript): boolean {
+  return script.lines.some(line => line.startMs !== undefined);
+}
+
+type Listener = () => void;
+
+type SampleStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/** Built-in samples plus the user's imported scripts, which are kept in localStorage. */
+export class SampleLibrary {
+  private snapshot: SampleLibrarySnapshot;
+  private listeners = new Set<Listener>();
+  private storage: SampleStorage | null;
+
+  constructor(storage: SampleStorage | null = defaultStorage()) {
+    this.storage = storage;
+    this.snapshot = { samples: [...BUILT_IN_SAMPLES, ...this.readStored()] };
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  get(id: string): SampleScript | undefined {
+    return this.snapshot.samples.find(s => s.id === id);
+  }
+
+  add(script: SampleScript) {
+    this.commit([...this.snapshot.samples, { ...script, builtIn: false }]);
+  }
+
+  remove(id: string) {
+    this.commit(this.snapshot.samples.filter(s => s.builtIn || s.id !== id));
+  }
+
+  private commit(samples: SampleScript[]) {
+    this.snapshot = { samples };
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(samples.filter(s => !s.builtIn)));
+    } catch (err) {
+      console.warn('Could not save samples', err);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private readStored(): SampleScript[] {
+    try {
+      const raw = JSON.parse(this.storage?.getItem(STORAGE_KEY) || '[]');
+      if (!Array.isArray(raw)) return [];
+      return raw.filter(s => typeof s?.id === 'string' && typeof s.name === 'string' && Array.isArray(s.lines))
+        .map(s => ({ id: s.id, name: s.name, language: typeof s.language === 'string' ? s.language : UNDETERMINED_LANGUAGE, lines: toLines(s.lines) }));
+    } catch {
+      return [];
+    }
+  }
+}
+
+function toLines(raw: unknown[]): SampleLine[] {
+  return raw.flatMap(item => {
+    if (typeof item === 'string') return item.trim() ? [{ text: item.trim() }] : [];
+    if (!item || typeof item !== 'object') return [];
+    const { text, startMs, endMs } = item as Record<string, unknown>;
+    if (typeof text !== 'string' || !text.trim()) return [];
+    const line: SampleLine = { text: text.trim() };
+    if (typeof startMs === 'number' && Number.isFinite(startMs)) line.startMs = Math.max(0, startMs);
+    if (typeof endMs === 'number' && Number.isFinite(endMs)) line.endMs = Math.max(0, endMs);
+    return [line];
+  });
+}
+
+function defaultStorage(): SampleStorage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SampleScript } from './sampleLibrary';
+import { SamplePlayer } from './samplePlayer';
+
+const timed: SampleScript = {
+  id: 'timed',
+  name: 'Timed',
+  language: 'en',
+  lines: [
+    { text: 'One.', startMs: 1000, endMs: 2000 },
+    { text: 'Two.', startMs: 3500, endMs: 4000 },
+    { text: 'Three.', startMs: 4000, endMs: 5000 },
+  ],
+};
+
+describe('SamplePlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('follows cue timings and ends after the last cue', () => {
+    const played: string[] = [];
+    const onEnd = vi.fn();
+    const player = new SamplePlayer(timed, { onLine: line => played.push(line.text), onEnd, pacing: 'original' });
+    player.play();
+    expect(played).toEqual(['One.']);
+    vi.advanceTimersByTime(2499);
+    expect(played).toEqual(['One.']);
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual(['One.', 'Two.']);
+    vi.advanceTimersByTime(500);
+    expect(played).toEqual(['One.', 'Two.', 'Three.']);
+    vi.advanceTimersByTime(1000);
+    expect(onEnd).toHaveBeenCalled();
+    expect(player.getSnapshot()).toMatchObject({ state: 'stopped', index: 0 });
+  });
+
+  it('keeps the remaining delay across a pause and replays a seek on resume', () => {
+    const played: string[] = [];
+    const player = new SamplePlayer(timed, { onLine: line => played.push(line.text), pacing: 'original', loop: true });
+    player.play();
+    vi.advanceTimersByTime(2000);
+    player.pause();
+    vi.advanceTimersByTime(10000);
+    player.play();
+    vi.advanceTimersByTime(499);
+    expect(played).toEqual(['One.']);
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual(['One.', 'Two.']);
+
+    player.pause();
+    player.seek(2);
+    expect(player.getSnapshot()).toMatchObject({ state: 'paused', index: 2 });
+    player.play();
+    vi.advanceTimersByTime(1000);
+    expect(played).toEqual(['One.', 'Two.', 'Three.', 'One.']);
+  });
+
+  it('waits for the interpretation to finish speaking in afterSpeech', () => {
+    const played: string[] = [];
+    const player = new SamplePlayer(timed, { onLine: line => played.push(line.text), pacing: 'afterSpeech', speechGapMs: 500, maxWaitMs: 10000 });
+    player.play();
+    vi.advanceTimersByTime(5000);
+    expect(played).toEqual(['One.']);
+    player.lineFinished(1200);
+    vi.advanceTimersByTime(1699);
+    expect(played).toEqual(['One.']);
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual(['One.', 'Two.']);
+    vi.advanceTimersByTime(10000);
+    expect(played).toEqual(['One.', 'Two.', 'Three.']);
+  });
+});
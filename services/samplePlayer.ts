@@ -0,0 +1,183 @@
+import { SampleLine, SampleScript } from './sampleLibrary';
+
+/**
+ * `original` follows cue timings (untimed lines are spaced evenly);
+ * `afterSpeech` moves on once the previous interpretation has been read out.
+ */
+export type SamplePacing = 'original' | 'afterSpeech';
+
+export const SAMPLE_PACINGS: SamplePacing[] = ['original', 'afterSpeech'];
+
+export type SamplePlayerState = 'playing' | 'paused' | 'stopped';
+
+export interface SamplePlayerSnapshot {
+  state: SamplePlayerState;
+  /** Line on screen, or the one playback starts from while stopped. */
+  index: number;
+  total: number;
+}
+
+export interface SamplePlayerOptions {
+  onLine: (line: SampleLine, index: number) => void;
+  /** Called when the last line has played and looping is off. */
+  onEnd?: () => void;
+  pacing: SamplePacing;
+  loop?: boolean;
+  /** Spacing for lines without cue timings. */
+  untimedGapMs?: number;
+  /** Breathing room after an interpretation finishes, in `afterSpeech`. */
+  speechGapMs?: number;
+  /** `afterSpeech` moves on anyway if no interpretation finishes within this. */
+  maxWaitMs?: number;
+}
+
+type Listener = () => void;
+
+/** Plays a sample script line by line with pause, seek and loop. */
+export class SamplePlayer {
+  private script: SampleScript;
+  private options: SamplePlayerOptions;
+  private pacing: SamplePacing;
+  private loop: boolean;
+  private snapshot: SamplePlayerSnapshot;
+  private listeners = new Set<Listener>();
+  private timer: number | null = null;
+  private dueAt = 0;
+  // Delay left on the pending advance while paused
+  private remainingMs: number | null = null;
+  // A seek while paused replays the chosen line on resume
+  private pendingSeek = false;
+
+  constructor(script: SampleScript, options: SamplePlayerOptions) {
+    this.script = script;
+    this.options = options;
+    this.pacing = options.pacing;
+    this.loop = options.loop ?? false;
+    this.snapshot = { state: 'stopped', index: 0, total: script.lines.length };
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  play() {
+    if (this.snapshot.state === 'playing') return;
+    if (this.snapshot.state === 'paused') {
+      this.update({ state: 'playing' });
+      if (this.pendingSeek) {
+        this.pendingSeek = false;
+        this.emit(this.snapshot.index);
+      } else if (this.remainingMs !== null) {
+        this.schedule(this.remainingMs);
+      }
+      return;
+    }
+    this.update({ state: 'playing' });
+    this.emit(this.snapshot.index);
+  }
+
+  pause() {
+    if (this.snapshot.state !== 'playing') return;
+    if (this.timer !== null) this.remainingMs = Math.max(0, this.dueAt - Date.now());
+    this.clearTimer();
+    this.update({ state: 'paused' });
+  }
+
+  /** Jumps to a line; while playing it is emitted at once, while paused on resume. */
+  seek(index: number) {
+    const target = Math.max(0, Math.min(this.script.lines.length - 1, index));
+    this.clearTimer();
+    if (this.snapshot.state === 'playing') {
+      this.emit(target);
+    } else if (this.snapshot.state === 'paused') {
+      this.update({ index: target });
+      this.pendingSeek = true;
+      this.remainingMs = null;
+    } else {
+      this.update({ index: target });
+    }
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+  }
+
+  setPacing(pacing: SamplePacing) {
+    this.pacing = pacing;
+  }
+
+  /**
+   * In `afterSpeech`, reports that the current line has been interpreted and
+   * `remainingMs` of its audio is still queued.
+   */
+  lineFinished(remainingMs: number = 0) {
+    if (this.pacing !== 'afterSpeech' || this.snapshot.state === 'stopped' || this.pendingSeek) return;
+    this.schedule(remainingMs + (this.options.speechGapMs ?? 800));
+  }
+
+  stop() {
+    this.clearTimer();
+    this.pendingSeek = false;
+    this.remainingMs = null;
+    this.update({ state: 'stopped', index: 0 });
+  }
+
+  private emit(index: number) {
+    this.update({ index });
+    // Scheduled first: `onLine` may report the line finished straight away
+    this.schedule(this.delayAfter(index));
+    this.options.onLine(this.script.lines[index], index);
+  }
+
+  private advance() {
+    const next = this.snapshot.index + 1;
+    if (next < this.script.lines.length) {
+      this.emit(next);
+    } else if (this.loop) {
+      this.emit(0);
+    } else {
+      this.stop();
+      this.options.onEnd?.();
+    }
+  }
+
+  private delayAfter(index: number): number {
+    if (this.pacing === 'afterSpeech') return this.options.maxWaitMs ?? 20000;
+    const untimed = this.options.untimedGapMs ?? 6000;
+    const current = this.script.lines[index];
+    const next = this.script.lines[index + 1];
+    if (current.startMs === undefined) return untimed;
+    if (next?.startMs !== undefined) return Math.max(0, next.startMs - current.startMs);
+    // Last cue: hold it for its own duration before looping or ending
+    return current.endMs !== undefined ? Math.max(0, current.endMs - current.startMs) : untimed;
+  }
+
+  private schedule(delayMs: number) {
+    this.clearTimer();
+    if (this.snapshot.state === 'paused') {
+      this.remainingMs = delayMs;
+      return;
+    }
+    this.remainingMs = null;
+    this.dueAt = Date.now() + delayMs;
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.advance();
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(patch: Partial<SamplePlayerSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { SegmentAggregator, findSentenceBoundary } from './segmentAggregator';
+
+function record(options: { maxSegmentChars?: number } = {}) {
+  const segments: TranscriptSegment[] = [];
+  const aggregator = new SegmentAggregator({ speakerId: 'speaker', sourceLanguage: 'en', onSegment: s => segments.push(s), ...options });
+  const finals = () => segments.filter(s => s.isFinal);
+  return { aggregator, segments, finals };
+}
+
+describe('findSentenceBoundary', () => {
+  it('ends Latin sentences only once whitespace follows', () => {
+    expect(findSentenceBoundary('It costs 3.5 euros')).toBe(-1);
+    expect(findSentenceBoundary('Hello. World')).toBe(7);
+    expect(findSentenceBoundary('He said "stop!" and left')).toBe(16);
+  });
+
+  it('ends CJK sentences at the terminal itself', () => {
+    expect(findSentenceBoundary('こんにちは。元気')).toBe(6);
+  });
+});
+
+describe('SegmentAggregator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('grows a partial per fragment and finalizes it at sentence punctuation', () => {
+    const { aggregator, segments, finals } = record();
+    aggregator.push('Good');
+    aggregator.push(' morning');
+    aggregator.push(' everyone. Today');
+
+    expect(segments.map(s => [s.text, s.isFinal])).toEqual([
+      ['Good', false],
+      ['Good morning', false],
+      ['Good morning everyone.', true],
+      ['Today', false],
+    ]);
+    // Partials and the final of one sentence share its id and seq; the next sentence moves on
+    expect(new Set(segments.slice(0, 3).map(s => s.id)).size).toBe(1);
+    expect(finals()[0].seq).toBe(1);
+    expect(segments[3].seq).toBe(2);
+    expect(segments[3].id).not.toBe(segments[0].id);
+  });
+
+  it('closes several sentences arriving in one fragment', () => {
+    const { aggregator, finals } = record();
+    aggregator.push('One. Two! Three? Four');
+    expect(finals().map(s => [s.text, s.seq])).toEqual([['One.', 1], ['Two!', 2], ['Three?', 3]]);
+  });
+
+  it('numbers sentences without gaps across whitespace-only fragments', () => {
+    const { aggregator, finals } = record();
+    aggregator.push('Hello there. ');
+    aggregator.push(' ');
+    aggregator.push('Next one. ');
+    expect(finals().map(s => [s.text, s.seq])).toEqual([['Hello there.', 1], ['Next one.', 2]]);
+  });
+
+  it('finalizes an unpunctuated sentence after idle time or a requested break', () => {
+    const { aggregator, finals } = record();
+    aggregator.push('no punctuation here');
+    vi.advanceTimersByTime(1499);
+    expect(finals()).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(finals().map(s => s.text)).toEqual(['no punctuation here']);
+
+    aggregator.push('after the pause');
+    aggregator.requestBreak(700);
+    vi.advanceTimersByTime(700);
+    expect(finals().map(s => s.text)).toEqual(['no punctuation here', 'after the pause']);
+  });
+
+  it('breaks run-on speech at the last word boundary', () => {
+    const { aggregator, finals } = record({ maxSegmentChars: 20 });
+    aggregator.push('this sentence keeps going');
+    expect(finals().map(s => s.text)).toEqual(['this sentence keeps']);
+    aggregator.flush();
+    expect(finals().map(s => s.text)).toEqual(['this sentence keeps', 'going']);
+  });
+});
@@ -0,0 +1,133 @@
+import { TranscriptSegment } from '../types';
+
+// Sentence-final punctuation. CJK terminals close a sentence immediately; Latin ones
+// only once whitespace follows, so "3." in "3.5" is not split across fragments.
+const CJK_TERMINAL = /[。！？]/;
+const LATIN_TERMINAL = /[.!?…]["'”’)\]]*\s/;
+
+export interface SegmentAggregatorOptions {
+  speakerId: string;
+  sourceLanguage: string;
+  onSegment: (segment: TranscriptSegment) => void;
+  /** Finalizes the pending sentence after this much silence from the model. */
+  idleFlushMs?: number;
+  /** Forces a break at the last word boundary when a sentence runs on this long. */
+  maxSegmentChars?: number;
+}
+
+/**
+ * Folds Gemini's incremental `inputTranscription` fragments into sentence segments.
+ * Every fragment re-emits the growing sentence as a partial; the sentence is emitted
+ * once more as final when punctuation, idle time or `flush()` closes it.
+ */
+export class SegmentAggregator {
+  private options: Required<SegmentAggregatorOptions>;
+  private buffer = '';
+  private seq = 0;
+  private currentId = '';
+  private startTime = 0;
+  private idleTimer: number | null = null;
+
+  constructor(options: SegmentAggregatorOptions) {
+    this.options = { idleFlushMs: 1500, maxSegmentChars: 280, ...options };
+  }
+
+  setSourceLanguage(language: string) {
+    this.options.sourceLanguage = language;
+  }
+
+  push(fragment: string) {
+    // Whitespace between sentences must not open a segment, or its seq would never be sent
+    if (!fragment || (!fragment.trim() && !this.buffer.trim())) return;
+    const now = Date.now();
+    if (!this.buffer.trim()) this.beginSegment(now);
+    this.buffer += fragment;
+
+    let boundary = findSentenceBoundary(this.buffer);
+    while (boundary > 0) {
+      this.emit(this.buffer.slice(0, boundary), true, now);
+      this.buffer = this.buffer.slice(boundary);
+      if (this.buffer.trim()) this.beginSegment(now);
+      boundary = findSentenceBoundary(this.buffer);
+    }
+
+    if (this.buffer.length > this.options.maxSegmentChars) {
+      const cut = this.buffer.lastIndexOf(' ');
+      if (cut > 0) {
+        this.emit(this.buffer.slice(0, cut), true, now);
+        this.buffer = this.buffer.slice(cut);
+        this.beginSegment(now);
+      }
+    }
+
+    if (this.buffer.trim()) this.emit(this.buffer, false, now);
+    this.scheduleIdleFlush();
+  }
+
+  /**
+   * Marks an utterance boundary (e.g. from VAD). Transcription trails the audio,
+   * so the pending sentence is finalized after `delayMs` rather than immediately.
+   */
+  requestBreak(delayMs = 700) {
+    if (!this.buffer.trim()) return;
+    this.clearIdleTimer();
+    this.idleTimer = window.setTimeout(() => this.flush(), Math.min(delayMs, this.options.idleFlushMs));
+  }
+
+  /** Finalizes whatever is pending, e.g. on turn completion or session stop. */
+  flush() {
+    this.clearIdleTimer();
+    if (this.buffer.trim()) this.emit(this.buffer, true, Date.now());
+    this.buffer = '';
+  }
+
+  dispose() {
+    this.clearIdleTimer();
+    this.buffer = '';
+  }
+
+  private beginSegment(now: number) {
+    this.currentId = crypto.randomUUID();
+    this.startTime = now;
+    this.seq += 1;
+  }
+
+  private emit(text: string, isFinal: boolean, now: number) {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    this.options.onSegment({
+      id: this.currentId,
+      text: trimmed,
+      type: 'input',
+      timestamp: now,
+      seq: this.seq,
+      speakerId: this.options.speakerId,
+      isFinal,
+      startTime: this.startTime,
+      endTime: now,
+      sourceLanguage: this.options.sourceLanguage,
+    });
+  }
+
+  private scheduleIdleFlush() {
+    this.clearIdleTimer();
+    this.idleTimer = window.setTimeout(() => this.flush(), this.options.idleFlushMs);
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer !== null) {
+      window.clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+/** Returns the index just past the first complete sentence, or -1. */
+export function findSentenceBoundary(text: string): number {
+  const cjk = text.search(CJK_TERMINAL);
+  const latin = LATIN_TERMINAL.exec(text);
+  const latinEnd = latin ? latin.index + latin[0].length : -1;
+
+  if (cjk >= 0 && (latinEnd < 0 || cjk < latin!.index)) return cjk + 1;
+  return latinEnd;
+}
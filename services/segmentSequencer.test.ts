@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { SegmentDropReason, SegmentSequencer } from './segmentSequencer';
+
+const segment = (seq: number, isFinal = true, speakerId = 'speaker'): TranscriptSegment => ({
+  id: `${speakerId}-${seq}`,
+  text: `Line ${seq}`,
+  type: 'input',
+  timestamp: seq * 1000,
+  seq,
+  speakerId,
+  isFinal,
+  startTime: seq * 1000,
+  endTime: seq * 1000 + 500,
+  sourceLanguage: 'en',
+});
+
+function record() {
+  const finals: string[] = [];
+  const partials: string[] = [];
+  const drops: [string, SegmentDropReason][] = [];
+  const sequencer = new SegmentSequencer({
+    onPartial: s => partials.push(s.id),
+    onFinal: s => finals.push(s.id),
+    onDrop: (s, reason) => drops.push([s.id, reason]),
+    gapTimeoutMs: 2000,
+  });
+  return { sequencer, finals, partials, drops };
+}
+
+describe('SegmentSequencer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('releases finals in seq order when they arrive out of order', () => {
+    const { sequencer, finals } = record();
+    sequencer.push(segment(1));
+    sequencer.push(segment(3));
+    sequencer.push(segment(4));
+    expect(finals).toEqual(['speaker-1']);
+
+    sequencer.push(segment(2));
+    expect(finals).toEqual(['speaker-1', 'speaker-2', 'speaker-3', 'speaker-4']);
+  });
+
+  it('drops duplicate finals and partials of sentences already released', () => {
+    const { sequencer, finals, partials, drops } = record();
+    sequencer.push(segment(1, false));
+    sequencer.push(segment(1));
+    sequencer.push(segment(1));
+    sequencer.push(segment(1, false));
+    sequencer.push(segment(3));
+    sequencer.push(segment(3));
+
+    expect(partials).toEqual(['speaker-1']);
+    expect(finals).toEqual(['speaker-1']);
+    expect(drops).toEqual([['speaker-1', 'duplicate'], ['speaker-1', 'stale'], ['speaker-3', 'duplicate']]);
+  });
+
+  it('skips a missing seq once the gap has been outstanding long enough', () => {
+    const { sequencer, finals, drops } = record();
+    sequencer.push(segment(5));
+    sequencer.push(segment(7));
+    vi.advanceTimersByTime(1999);
+    expect(finals).toEqual(['speaker-5']);
+
+    vi.advanceTimersByTime(1);
+    expect(finals).toEqual(['speaker-5', 'speaker-7']);
+
+    // The skipped sentence is not released out of order when it finally turns up
+    sequencer.push(segment(6));
+    expect(finals).toHaveLength(2);
+    expect(drops).toEqual([['speaker-6', 'duplicate']]);
+  });
+
+  it('orders each speaker independently', () => {
+    const { sequencer, finals } = record();
+    sequencer.push(segment(1, true, 'a'));
+    sequencer.push(segment(10, true, 'b'));
+    sequencer.push(segment(3, true, 'a'));
+    sequencer.push(segment(11, true, 'b'));
+    expect(finals).toEqual(['a-1', 'b-10', 'b-11']);
+  });
+});
@@ -0,0 +1,96 @@
+import { TranscriptSegment } from '../types';
+
+export type SegmentDropReason = 'duplicate' | 'stale';
+
+export interface SegmentSequencerOptions {
+  onPartial: (segment: TranscriptSegment) => void;
+  onFinal: (segment: TranscriptSegment) => void;
+  onDrop?: (segment: TranscriptSegment, reason: SegmentDropReason) => void;
+  /** How long to hold later finals while waiting for a missing seq. */
+  gapTimeoutMs?: number;
+}
+
+interface SpeakerCursor {
+  nextSeq: number;
+  pending: Map<number, TranscriptSegment>;
+  gapTimer: number | null;
+}
+
+/**
+ * Listener-side ordering for relayed segments: releases finals strictly by seq
+ * per speaker, drops duplicates and stale partials, and skips a gap once it has
+ * been outstanding for `gapTimeoutMs`.
+ */
+export class SegmentSequencer {
+  private options: SegmentSequencerOptions;
+  private gapTimeoutMs: number;
+  private cursors = new Map<string, SpeakerCursor>();
+  private releasedIds = new Set<string>();
+
+  constructor(options: SegmentSequencerOptions) {
+    this.options = options;
+    this.gapTimeoutMs = options.gapTimeoutMs ?? 2000;
+  }
+
+  push(segment: TranscriptSegment) {
+    const cursor = this.cursorFor(segment);
+
+    if (this.releasedIds.has(segment.id) || segment.seq < cursor.nextSeq) {
+      this.options.onDrop?.(segment, segment.isFinal ? 'duplicate' : 'stale');
+      return;
+    }
+
+    if (!segment.isFinal) {
+      this.options.onPartial(segment);
+      return;
+    }
+
+    if (cursor.pending.has(segment.seq)) {
+      this.options.onDrop?.(segment, 'duplicate');
+      return;
+    }
+    cursor.pending.set(segment.seq, segment);
+    this.drain(cursor);
+  }
+
+  dispose() {
+    this.cursors.forEach(cursor => {
+      if (cursor.gapTimer !== null) window.clearTimeout(cursor.gapTimer);
+    });
+    this.cursors.clear();
+    this.releasedIds.clear();
+  }
+
+  private cursorFor(segment: TranscriptSegment): SpeakerCursor {
+    let cursor = this.cursors.get(segment.speakerId);
+    if (!cursor) {
+      // Joining mid-broadcast: start from whatever arrives first
+      cursor = { nextSeq: segment.seq, pending: new Map(), gapTimer: null };
+      this.cursors.set(segment.speakerId, cursor);
+    }
+    return cursor;
+  }
+
+  private drain(cursor: SpeakerCursor) {
+    let next = cursor.pending.get(cursor.nextSeq);
+    while (next) {
+      cursor.pending.delete(cursor.nextSeq);
+      cursor.nextSeq += 1;
+      this.releasedIds.add(next.id);
+      this.options.onFinal(next);
+      next = cursor.pending.get(cursor.nextSeq);
+    }
+
+    if (cursor.gapTimer !== null) {
+      window.clearTimeout(cursor.gapTimer);
+      cursor.gapTimer = null;
+    }
+    if (cursor.pending.size > 0) {
+      cursor.gapTimer = window.setTimeout(() => {
+        cursor.gapTimer = null;
+        cursor.nextSeq = Math.min(...cursor.pending.keys());
+        this.drain(cursor);
+      }, this.gapTimeoutMs);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { audioExtension, buildSessionArchive } from './sessionArchive';
+
+// Reads names and contents back out of a stored zip
+function readZip(zip: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files = new Map<string, Uint8Array>();
+  let at = 0;
+  while (view.getUint32(at, true) === 0x04034b50) {
+    const size = view.getUint32(at + 18, true);
+    const nameLength = view.getUint16(at + 26, true);
+    const name = new TextDecoder().decode(zip.subarray(at + 30, at + 30 + nameLength));
+    files.set(name, zip.subarray(at + 30 + nameLength, at + 30 + nameLength + size));
+    at += 30 + nameLength + size;
+  }
+  return files;
+}
+
+describe('buildSessionArchive', () => {
+  it('bundles transcripts, tracks and a manifest aligned to the session start', async () => {
+    const sessionStart = Date.UTC(2026, 9, 20, 9, 0, 0);
+    const zip = await buildSessionArchive({
+      transcript: {
+        sessionStart,
+        records: [{ id: 's1', text: 'Hello everyone.', type: 'input', timestamp: sessionStart + 1500, startTime: sessionStart + 500, endTime: sessionStart + 1500 }],
+        liveTranslations: [],
+      },
+      tracks: [{ kind: 'source', mimeType: 'audio/webm;codecs=opus', blob: new Blob([new Uint8Array([7, 7, 7])]), startedAt: sessionStart + 250, endedAt: sessionStart + 4250 }],
+      details: { role: 'Speaker (Broadcast)', room: 'ABC123' },
+    });
+
+    const files = readZip(zip);
+    expect([...files.keys()]).toEqual(['session.json', 'transcript.srt', 'transcript.vtt', 'transcript.txt', 'transcript.json', 'audio/source.webm']);
+    expect([...files.get('audio/source.webm')!]).toEqual([7, 7, 7]);
+    expect(new TextDecoder().decode(files.get('transcript.srt'))).toContain('00:00:00,500 --> 00:00:01,500');
+
+    const manifest = JSON.parse(new TextDecoder().decode(files.get('session.json')));
+    expect(manifest).toMatchObject({ room: 'ABC123', sessionStart: '2026-10-20T09:00:00.000Z' });
+    expect(manifest.tracks).toEqual([{ file: 'audio/source.webm', kind: 'source', mimeType: 'audio/webm;codecs=opus', offsetMs: 250, durationMs: 4000 }]);
+  });
+
+  it('names audio files by container', () => {
+    expect(audioExtension('audio/mp4')).toBe('m4a');
+    expect(audioExtension('audio/ogg; codecs=opus')).toBe('ogg');
+  });
+});
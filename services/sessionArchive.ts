@@ -0,0 +1,70 @@
+import { RecordedTrack } from './sessionRecorder';
+import { TranscriptExportFormat, exportTranscript } from './transcriptExport';
+import { TranscriptSnapshot } from './transcriptStore';
+import { createZip } from './zipArchive';
+
+export interface SessionArchiveInput {
+  transcript: TranscriptSnapshot;
+  tracks: RecordedTrack[];
+  /** Session details written to `session.json`, e.g. role, room code and languages. */
+  details: Record<string, unknown>;
+}
+
+const TRANSCRIPT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+};
+
+export function audioExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(';')[0].trim()] ?? 'bin';
+}
+
+/**
+ * Bundles the transcript in every export format, the recorded tracks and a
+ * `session.json` manifest. Track offsets are relative to the transcript's
+ * session start, so the audio lines up with the cue timings.
+ */
+export async function buildSessionArchive({ transcript, tracks, details }: SessionArchiveInput): Promise<Uint8Array> {
+  const audio = await Promise.all(tracks.map(async track => ({
+    track,
+    name: `audio/${track.kind}.${audioExtension(track.mimeType)}`,
+    data: new Uint8Array(await track.blob.arrayBuffer()),
+  })));
+
+  const manifest = {
+    app: 'CriptLator',
+    sessionStart: new Date(transcript.sessionStart).toISOString(),
+    exportedAt: new Date().toISOString(),
+    ...details,
+    transcripts: TRANSCRIPT_FORMATS.map(format => `transcript.${format}`),
+    tracks: audio.map(({ track, name }) => ({
+      file: name,
+      kind: track.kind,
+      mimeType: track.mimeType,
+      offsetMs: track.startedAt - transcript.sessionStart,
+      durationMs: track.endedAt - track.startedAt,
+    })),
+  };
+
+  return createZip([
+    { name: 'session.json', data: JSON.stringify(manifest, null, 2) },
+    ...TRANSCRIPT_FORMATS.map(format => ({ name: `transcript.${format}`, data: exportTranscript(transcript, format) })),
+    ...audio.map(({ name, data }) => ({ name, data })),
+  ], new Date(transcript.sessionStart));
+}
+
+export async function downloadSessionArchive(input: SessionArchiveInput) {
+  const zip = await buildSessionArchive(input);
+  const stamp = new Date(input.transcript.sessionStart).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const blob = new Blob([zip], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `criptlator-session-${stamp}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
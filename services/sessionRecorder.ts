@@ -0,0 +1,78 @@
+export type RecordedTrackKind = 'source' | 'interpretation';
+
+export interface RecordedTrack {
+  kind: RecordedTrackKind;
+  mimeType: string;
+  blob: Blob;
+  /** Wall clock when recording began; subtract the transcript's `sessionStart` to align. */
+  startedAt: number;
+  endedAt: number;
+}
+
+// First one the browser can encode wins; Safari only offers MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Recorded data is collected in slices so a session that ends abruptly keeps all but the last second
+const TIMESLICE_MS = 1000;
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined';
+}
+
+/**
+ * Records whatever flows through `source` by tapping it into a MediaStream
+ * destination. The node keeps its existing connections, so the recording never
+ * changes what is heard or sent.
+ */
+export class TrackRecorder {
+  readonly kind: RecordedTrackKind;
+  private source: AudioNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  constructor(source: AudioNode, kind: RecordedTrackKind) {
+    this.kind = kind;
+    this.source = source;
+    this.destination = (source.context as AudioContext).createMediaStreamDestination();
+    source.connect(this.destination);
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.destination.stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+  }
+
+  start() {
+    this.startedAt = Date.now();
+    this.recorder.start(TIMESLICE_MS);
+  }
+
+  /** Resolves once the recorder has flushed its last slice. */
+  stop(): Promise<RecordedTrack> {
+    return new Promise(resolve => {
+      const finish = () => {
+        try {
+          this.source.disconnect(this.destination);
+        } catch {
+          // The graph may already be torn down
+        }
+        const mimeType = this.recorder.mimeType || this.chunks[0]?.type || 'audio/webm';
+        resolve({
+          kind: this.kind,
+          mimeType,
+          blob: new Blob(this.chunks, { type: mimeType }),
+          startedAt: this.startedAt,
+          endedAt: Date.now(),
+        });
+      };
+      if (this.recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      this.recorder.onstop = finish;
+      this.recorder.stop();
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { ListenerOutputMode, PrebuiltVoice, SourceType, SupportLanguage, UserRole } from '../types';
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, SettingsStore, buildSettingsLink, migrateSettings, readSettingsOverrides } from './settingsStore';
+
+const memoryStorage = (initial?: unknown) => {
+  const items = new Map<string, string>();
+  if (initial !== undefined) items.set('criptlator_settings', JSON.stringify(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    stored: () => JSON.parse(items.get('criptlator_settings') || 'null'),
+  };
+};
+
+describe('settings migration', () => {
+  it('upgrades an unversioned settings object and drops invalid fields', () => {
+    const doc = migrateSettings({ targetLanguage: SupportLanguage.JAPANESE, selectedVoice: 'Nobody', volume: 4, vadMarginDb: 2 });
+    expect(doc.version).toBe(SETTINGS_VERSION);
+    expect(doc.presets).toEqual([]);
+    expect(doc.settings).toEqual({ ...DEFAULT_SETTINGS, targetLanguage: SupportLanguage.JAPANESE, volume: 1, vadMarginDb: 4 });
+  });
+
+  it('falls back to defaults for unreadable input', () => {
+    expect(migrateSettings(null).settings).toEqual(DEFAULT_SETTINGS);
+    expect(migrateSettings([1, 2]).settings).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe('settings overrides', () => {
+  it('reads a pre-configured link', () => {
+    const overrides = readSettingsOverrides('?preset=Keynote&role=listener&lang=es-MX&voice=puck&volume=60&also=fr,de&output=captions&vad=off');
+    expect(overrides.presetName).toBe('Keynote');
+    expect(overrides.settings).toEqual({
+      role: UserRole.LISTENER,
+      targetLanguage: SupportLanguage.SPANISH_MX,
+      selectedVoice: PrebuiltVoice.PUCK,
+      volume: 0.6,
+      extraLanguages: [SupportLanguage.FRENCH_FR, SupportLanguage.GERMAN],
+      outputMode: ListenerOutputMode.CAPTIONS_ONLY,
+      vadEnabled: false,
+    });
+  });
+
+  it('round-trips through a settings link', () => {
+    const settings = { ...DEFAULT_SETTINGS, role: UserRole.LISTENER, sourceLanguage: SupportLanguage.ENGLISH_UK, targetLanguage: SupportLanguage.JAPANESE, volume: 0.45, sourceType: SourceType.MIC };
+    const link = new URL(buildSettingsLink(settings, 'https://example.com/app#room=ABC123'));
+    expect(link.hash).toBe('');
+    expect({ ...DEFAULT_SETTINGS, ...readSettingsOverrides(link.search).settings }).toEqual(settings);
+  });
+
+  it('reads a conversation desk link', () => {
+    expect(readSettingsOverrides('?role=conversation&pair=en-GB,ja&ptt=on').settings).toEqual({
+      role: UserRole.CONVERSATION,
+      conversationLanguages: [SupportLanguage.ENGLISH_UK, SupportLanguage.JAPANESE],
+      pushToTalk: true,
+    });
+    expect(readSettingsOverrides('?pair=en,en-US').settings).toEqual({});
+  });
+
+  it('reads a moderated speaker link', () => {
+    expect(readSettingsOverrides('?moderate=on&approve=0').settings).toEqual({ moderation: true, autoApproveMs: 0 });
+    expect(readSettingsOverrides('?approve=90').settings).toEqual({ autoApproveMs: 60000 });
+  });
+
+  it('reads a latency budget link', () => {
+    expect(readSettingsOverrides('?lag=5&catchup=summary').settings).toEqual({ maxLagMs: 5000, catchUpPolicy: 'summarize' });
+    expect(readSettingsOverrides('?lag=0&catchup=rewind').settings).toEqual({ maxLagMs: 0 });
+  });
+});
+
+describe('SettingsStore', () => {
+  it('applies URL overrides on top of stored settings without persisting them', () => {
+    const storage = memoryStorage({ version: 1, settings: { ...DEFAULT_SETTINGS, volume: 0.3 }, presets: [] });
+    const store = new SettingsStore({ settings: { selectedVoice: PrebuiltVoice.ZEPHYR } }, storage);
+    expect(store.getSnapshot().settings.volume).toBe(0.3);
+    expect(store.getSnapshot().settings.selectedVoice).toBe(PrebuiltVoice.ZEPHYR);
+    expect(storage.stored().settings.selectedVoice).toBe(PrebuiltVoice.KORE);
+
+    store.set('volume', v => v + 0.2);
+    expect(storage.stored().settings).toMatchObject({ volume: 0.5, selectedVoice: PrebuiltVoice.ZEPHYR });
+  });
+
+  it('never saves session-only overrides unless they are set', () => {
+    const storage = memoryStorage({ version: 1, settings: DEFAULT_SETTINGS, presets: [] });
+    const store = new SettingsStore({ settings: { role: UserRole.CONVERSATION }, sessionOnly: { role: UserRole.LISTENER } }, storage);
+    expect(store.getSnapshot().settings.role).toBe(UserRole.LISTENER);
+
+    store.set('volume', 0.4);
+    expect(storage.stored().settings).toMatchObject({ volume: 0.4, role: UserRole.CONVERSATION });
+
+    store.set('role', UserRole.SPEAKER);
+    store.set('role', UserRole.LISTENER);
+    expect(storage.stored().settings.role).toBe(UserRole.LISTENER);
+  });
+
+  it('saves, replaces and applies presets by name', () => {
+    const store = new SettingsStore(undefined, memoryStorage());
+    store.update({ targetLanguage: SupportLanguage.SPANISH_MX, selectedVoice: PrebuiltVoice.PUCK, volume: 0.6, micDeviceId: 'usb-1', outputDeviceId: 'cable-in', originalDeviceId: 'booth' });
+    const preset = store.savePreset('Spanish keynote');
+    expect(preset.settings).not.toHaveProperty('micDeviceId');
+    expect(preset.settings).not.toHaveProperty('outputDeviceId');
+    expect(preset.settings).not.toHaveProperty('originalDeviceId');
+    store.update({ volume: 0.9 });
+    expect(store.savePreset(' spanish KEYNOTE ').id).toBe(preset.id);
+    expect(store.getSnapshot().presets).toHaveLength(1);
+
+    store.reset();
+    store.applyPreset(preset.id);
+    expect(store.getSnapshot().settings).toMatchObject({ targetLanguage: SupportLanguage.SPANISH_MX, selectedVoice: PrebuiltVoice.PUCK, volume: 0.9 });
+
+    const linked = new SettingsStore({ presetName: 'spanish keynote', settings: { volume: 0.2 } }, memoryStorage(JSON.parse(store.exportJson())));
+    expect(linked.getSnapshot().settings).toMatchObject({ selectedVoice: PrebuiltVoice.PUCK, volume: 0.2 });
+  });
+
+  it('imports exported JSON, merging presets by name', () => {
+    const source = new SettingsStore(undefined, memoryStorage());
+    source.update({ outputMode: ListenerOutputMode.AUDIO_ONLY });
+    source.savePreset('Audio');
+    const target = new SettingsStore(undefined, memoryStorage());
+    target.savePreset('Default');
+    target.savePreset('audio');
+
+    target.importJson(source.exportJson());
+    expect(target.getSnapshot().settings.outputMode).toBe(ListenerOutputMode.AUDIO_ONLY);
+    expect(target.getSnapshot().presets.map(p => p.name)).toEqual(['Default', 'Audio']);
+    expect(() => target.importJson('not json')).toThrow('Not a settings file');
+  });
+});
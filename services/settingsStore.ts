@@ -0,0 +1,433 @@
+import { LANGUAGE_CODES, ListenerOutputMode, PrebuiltVoice, SourceType, SupportLanguage, UserRole, findLanguage } from '../types';
+import { SAMPLE_PACINGS, SamplePacing } from './samplePlayer';
+import { CATCH_UP_POLICIES, CatchUpPolicy } from './latencyBudget';
+
+export const SETTINGS_VERSION = 1;
+
+const STORAGE_KEY = 'criptlator_settings';
+
+// Each extra language is a full Live session; keep the fan-out small
+export const MAX_EXTRA_LANGUAGES = 3;
+
+export interface UserSettings {
+  role: UserRole;
+  /** What the Speaker talks in; `AUTO` detects it from the transcription. */
+  sourceLanguage: SupportLanguage;
+  targetLanguage: SupportLanguage;
+  selectedVoice: PrebuiltVoice;
+  /** Read Aloud gain, 0..1. */
+  volume: number;
+  /** Id of the Listener's sample stream, '' for none. */
+  sampleId: string;
+  samplePacing: SamplePacing;
+  sampleLoop: boolean;
+  extraLanguages: SupportLanguage[];
+  outputMode: ListenerOutputMode;
+  sourceType: SourceType;
+  micDeviceId: string;
+  vadEnabled: boolean;
+  vadMarginDb: number;
+  vadHangoverMs: number;
+  /** The two sides of a conversation; the device owner's language first. */
+  conversationLanguages: [SupportLanguage, SupportLanguage];
+  /** Conversation turns are taken with a per-side talk button instead of detection. */
+  pushToTalk: boolean;
+  /** Speaker finals wait in the moderation queue until approved. */
+  moderation: boolean;
+  /** Untouched queue items approve themselves after this long; 0 waits for the operator. */
+  autoApproveMs: number;
+  /** Keep the source (Speaker) and interpretation (Listener) audio for the session archive. */
+  recordAudio: boolean;
+  /** Read Aloud queued beyond this triggers `catchUpPolicy`; 0 lets it fall behind. */
+  maxLagMs: number;
+  catchUpPolicy: CatchUpPolicy;
+  /** Where Read Aloud plays; '' is the system default. */
+  outputDeviceId: string;
+  /** The Speaker's source is also played out, e.g. into a virtual cable for another app. */
+  monitorOriginal: boolean;
+  /** Where the monitored source plays; '' is the system default. */
+  originalDeviceId: string;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  /** Device ids are machine specific and never stored in presets. */
+  settings: Partial<UserSettings>;
+}
+
+/** What is written to localStorage and exported as JSON. */
+export interface SettingsDocument {
+  version: number;
+  settings: UserSettings;
+  presets: SettingsPreset[];
+}
+
+export interface SettingsSnapshot {
+  settings: UserSettings;
+  presets: SettingsPreset[];
+}
+
+export interface SettingsOverrides {
+  /** Preset applied before the individual overrides. */
+  presetName?: string;
+  settings: Partial<UserSettings>;
+  /** Applied last and never saved unless the user sets them; e.g. the Listener role a room link implies. */
+  sessionOnly?: Partial<UserSettings>;
+}
+
+type SettingsStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  role: UserRole.SPEAKER,
+  sourceLanguage: SupportLanguage.AUTO,
+  targetLanguage: SupportLanguage.AUTO,
+  selectedVoice: PrebuiltVoice.KORE,
+  volume: 0.8,
+  sampleId: '',
+  samplePacing: 'original',
+  sampleLoop: false,
+  extraLanguages: [],
+  outputMode: ListenerOutputMode.CAPTIONS_AND_AUDIO,
+  sourceType: SourceType.BOTH,
+  micDeviceId: '',
+  vadEnabled: true,
+  vadMarginDb: 10,
+  vadHangoverMs: 500,
+  conversationLanguages: [SupportLanguage.ENGLISH_US, SupportLanguage.SPANISH_MX],
+  pushToTalk: false,
+  moderation: false,
+  autoApproveMs: 8000,
+  recordAudio: false,
+  maxLagMs: 10000,
+  catchUpPolicy: 'speedUp',
+  outputDeviceId: '',
+  monitorOriginal: false,
+  originalDeviceId: '',
+};
+
+/**
+ * Upgrades a document from version N to N + 1. Version 0 is anything without
+ * a version field, such as a hand-written file holding just the settings.
+ */
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  0: (doc) => ({ version: 1, settings: doc, presets: [] }),
+};
+
+/** Brings any stored or imported document up to the current schema, dropping invalid fields. */
+export function migrateSettings(raw: unknown): SettingsDocument {
+  let doc: any = isObject(raw) ? raw : {};
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+    doc = migrate(doc);
+    version += 1;
+  }
+  return {
+    version: SETTINGS_VERSION,
+    settings: { ...DEFAULT_SETTINGS, ...pickValidSettings(doc.settings) },
+    presets: Array.isArray(doc.presets) ? doc.presets.flatMap(toPreset) : [],
+  };
+}
+
+/** Keeps only the known fields whose values are valid for the current schema. */
+export function pickValidSettings(raw: unknown): Partial<UserSettings> {
+  if (!isObject(raw)) return {};
+  const picked: Partial<UserSettings> = {};
+  const role = oneOf(UserRole, raw.role);
+  if (role) picked.role = role;
+  const sourceLanguage = oneOf(SupportLanguage, raw.sourceLanguage);
+  if (sourceLanguage) picked.sourceLanguage = sourceLanguage;
+  const targetLanguage = oneOf(SupportLanguage, raw.targetLanguage);
+  if (targetLanguage) picked.targetLanguage = targetLanguage;
+  const selectedVoice = oneOf(PrebuiltVoice, raw.selectedVoice);
+  if (selectedVoice) picked.selectedVoice = selectedVoice;
+  if (typeof raw.volume === 'number' && Number.isFinite(raw.volume)) picked.volume = clamp(raw.volume, 0, 1);
+  if (typeof raw.sampleId === 'string') picked.sampleId = raw.sampleId;
+  if (SAMPLE_PACINGS.includes(raw.samplePacing)) picked.samplePacing = raw.samplePacing;
+  if (typeof raw.sampleLoop === 'boolean') picked.sampleLoop = raw.sampleLoop;
+  if (Array.isArray(raw.extraLanguages)) {
+    const languages = raw.extraLanguages
+      .map((l: unknown) => oneOf(SupportLanguage, l))
+      .filter((l: SupportLanguage | null): l is SupportLanguage => !!l && l !== SupportLanguage.AUTO);
+    picked.extraLanguages = [...new Set(languages)].slice(0, MAX_EXTRA_LANGUAGES);
+  }
+  const outputMode = oneOf(ListenerOutputMode, raw.outputMode);
+  if (outputMode) picked.outputMode = outputMode;
+  const sourceType = oneOf(SourceType, raw.sourceType);
+  if (sourceType) picked.sourceType = sourceType;
+  if (typeof raw.micDeviceId === 'string') picked.micDeviceId = raw.micDeviceId;
+  if (typeof raw.vadEnabled === 'boolean') picked.vadEnabled = raw.vadEnabled;
+  if (typeof raw.vadMarginDb === 'number' && Number.isFinite(raw.vadMarginDb)) picked.vadMarginDb = clamp(Math.round(raw.vadMarginDb), 4, 24);
+  if (typeof raw.vadHangoverMs === 'number' && Number.isFinite(raw.vadHangoverMs)) picked.vadHangoverMs = clamp(Math.round(raw.vadHangoverMs), 150, 1500);
+  if (Array.isArray(raw.conversationLanguages)) {
+    const [a, b] = raw.conversationLanguages.map((l: unknown) => oneOf(SupportLanguage, l));
+    if (a && b && a !== b && a !== SupportLanguage.AUTO && b !== SupportLanguage.AUTO) picked.conversationLanguages = [a, b];
+  }
+  if (typeof raw.pushToTalk === 'boolean') picked.pushToTalk = raw.pushToTalk;
+  if (typeof raw.moderation === 'boolean') picked.moderation = raw.moderation;
+  if (typeof raw.autoApproveMs === 'number' && Number.isFinite(raw.autoApproveMs)) picked.autoApproveMs = clamp(Math.round(raw.autoApproveMs), 0, 60000);
+  if (typeof raw.recordAudio === 'boolean') picked.recordAudio = raw.recordAudio;
+  if (typeof raw.maxLagMs === 'number' && Number.isFinite(raw.maxLagMs)) picked.maxLagMs = clamp(Math.round(raw.maxLagMs), 0, 120000);
+  if (CATCH_UP_POLICIES.includes(raw.catchUpPolicy)) picked.catchUpPolicy = raw.catchUpPolicy;
+  if (typeof raw.outputDeviceId === 'string') picked.outputDeviceId = raw.outputDeviceId;
+  if (typeof raw.monitorOriginal === 'boolean') picked.monitorOriginal = raw.monitorOriginal;
+  if (typeof raw.originalDeviceId === 'string') picked.originalDeviceId = raw.originalDeviceId;
+  return picked;
+}
+
+const ROLE_PARAMS: Record<string, UserRole> = {
+  speaker: UserRole.SPEAKER,
+  listener: UserRole.LISTENER,
+  conversation: UserRole.CONVERSATION,
+};
+
+const OUTPUT_PARAMS: Record<string, ListenerOutputMode> = {
+  both: ListenerOutputMode.CAPTIONS_AND_AUDIO,
+  captions: ListenerOutputMode.CAPTIONS_ONLY,
+  audio: ListenerOutputMode.AUDIO_ONLY,
+};
+
+const CATCH_UP_PARAMS: Record<string, CatchUpPolicy> = { speed: 'speedUp', skip: 'skip', summary: 'summarize' };
+
+const SOURCE_PARAMS: Record<string, SourceType> = { mic: SourceType.MIC, system: SourceType.SYSTEM, both: SourceType.BOTH, file: SourceType.FILE };
+
+/**
+ * Reads pre-configured link parameters: `preset` (by name), `role`
+ * (speaker|listener|conversation), `from` and `lang` (name or code, or `auto`),
+ * `voice`, `volume` (0-100), `sample`, `also` (comma-separated codes), `output`
+ * (both|captions|audio), `source` (mic|system|both|file), `vad` (on|off), `pair`
+ * (two conversation languages, comma-separated), `ptt` (on|off), `moderate`
+ * (on|off), `approve` (auto-approve seconds, 0 for manual), `record` (on|off),
+ * `lag` (Read Aloud budget in seconds, 0 for none) and `catchup` (speed|skip|summary).
+ */
+export function readSettingsOverrides(search: string = window.location.search): SettingsOverrides {
+  const params = new URLSearchParams(search);
+  const settings: Partial<UserSettings> = {};
+  const get = (name: string) => params.get(name)?.trim().toLowerCase() || '';
+
+  const role = ROLE_PARAMS[get('role')];
+  if (role) settings.role = role;
+  const readLanguage = (name: string) => get(name) === 'auto' ? SupportLanguage.AUTO : findLanguage(get(name));
+  const sourceLanguage = readLanguage('from');
+  if (sourceLanguage) settings.sourceLanguage = sourceLanguage;
+  const language = readLanguage('lang');
+  if (language) settings.targetLanguage = language;
+  const voice = Object.values(PrebuiltVoice).find(v => v.toLowerCase() === get('voice'));
+  if (voice) settings.selectedVoice = voice;
+  const volume = Number(get('volume'));
+  if (get('volume') && Number.isFinite(volume)) settings.volume = clamp(volume / 100, 0, 1);
+  if (params.get('sample')) settings.sampleId = params.get('sample')!.trim();
+  if (get('also')) {
+    const extra = get('also').split(',').map(findLanguage).filter((l): l is SupportLanguage => !!l);
+    settings.extraLanguages = [...new Set(extra)].slice(0, MAX_EXTRA_LANGUAGES);
+  }
+  const outputMode = OUTPUT_PARAMS[get('output')];
+  if (outputMode) settings.outputMode = outputMode;
+  const sourceType = SOURCE_PARAMS[get('source')];
+  if (sourceType) settings.sourceType = sourceType;
+  if (get('vad') === 'on' || get('vad') === 'off') settings.vadEnabled = get('vad') === 'on';
+  const pair = get('pair').split(',').map(findLanguage);
+  if (pair.length === 2 && pair[0] && pair[1] && pair[0] !== pair[1]) settings.conversationLanguages = [pair[0], pair[1]];
+  if (get('ptt') === 'on' || get('ptt') === 'off') settings.pushToTalk = get('ptt') === 'on';
+  if (get('moderate') === 'on' || get('moderate') === 'off') settings.moderation = get('moderate') === 'on';
+  const approve = Number(get('approve'));
+  if (get('approve') && Number.isFinite(approve)) settings.autoApproveMs = clamp(Math.round(approve * 1000), 0, 60000);
+  if (get('record') === 'on' || get('record') === 'off') settings.recordAudio = get('record') === 'on';
+  const lag = Number(get('lag'));
+  if (get('lag') && Number.isFinite(lag)) settings.maxLagMs = clamp(Math.round(lag * 1000), 0, 120000);
+  const catchUpPolicy = CATCH_UP_PARAMS[get('catchup')];
+  if (catchUpPolicy) settings.catchUpPolicy = catchUpPolicy;
+
+  return { presetName: params.get('preset')?.trim() || undefined, settings };
+}
+
+/** A link that opens the app with these settings; only values that differ from the defaults are included. */
+export function buildSettingsLink(settings: UserSettings, href: string = window.location.href): string {
+  const params = new URLSearchParams();
+  const findKey = <T>(map: Record<string, T>, value: T) => Object.keys(map).find(k => map[k] === value)!;
+
+  if (settings.role !== DEFAULT_SETTINGS.role) params.set('role', findKey(ROLE_PARAMS, settings.role));
+  if (settings.sourceLanguage !== DEFAULT_SETTINGS.sourceLanguage) params.set('from', LANGUAGE_CODES[settings.sourceLanguage] ?? settings.sourceLanguage);
+  if (settings.targetLanguage !== DEFAULT_SETTINGS.targetLanguage) params.set('lang', LANGUAGE_CODES[settings.targetLanguage] ?? settings.targetLanguage);
+  if (settings.selectedVoice !== DEFAULT_SETTINGS.selectedVoice) params.set('voice', settings.selectedVoice);
+  if (settings.volume !== DEFAULT_SETTINGS.volume) params.set('volume', String(Math.round(settings.volume * 100)));
+  if (settings.sampleId) params.set('sample', settings.sampleId);
+  if (settings.extraLanguages.length > 0) params.set('also', settings.extraLanguages.map(l => LANGUAGE_CODES[l] ?? l).join(','));
+  if (settings.outputMode !== DEFAULT_SETTINGS.outputMode) params.set('output', findKey(OUTPUT_PARAMS, settings.outputMode));
+  if (settings.sourceType !== DEFAULT_SETTINGS.sourceType) params.set('source', findKey(SOURCE_PARAMS, settings.sourceType));
+  if (settings.vadEnabled !== DEFAULT_SETTINGS.vadEnabled) params.set('vad', settings.vadEnabled ? 'on' : 'off');
+  if (settings.conversationLanguages.some((l, i) => l !== DEFAULT_SETTINGS.conversationLanguages[i])) {
+    params.set('pair', settings.conversationLanguages.map(l => LANGUAGE_CODES[l] ?? l).join(','));
+  }
+  if (settings.pushToTalk !== DEFAULT_SETTINGS.pushToTalk) params.set('ptt', settings.pushToTalk ? 'on' : 'off');
+  if (settings.moderation !== DEFAULT_SETTINGS.moderation) params.set('moderate', settings.moderation ? 'on' : 'off');
+  if (settings.autoApproveMs !== DEFAULT_SETTINGS.autoApproveMs) params.set('approve', String(settings.autoApproveMs / 1000));
+  if (settings.recordAudio !== DEFAULT_SETTINGS.recordAudio) params.set('record', settings.recordAudio ? 'on' : 'off');
+  if (settings.maxLagMs !== DEFAULT_SETTINGS.maxLagMs) params.set('lag', String(settings.maxLagMs / 1000));
+  if (settings.catchUpPolicy !== DEFAULT_SETTINGS.catchUpPolicy) params.set('catchup', findKey(CATCH_UP_PARAMS, settings.catchUpPolicy));
+
+  const url = new URL(href);
+  url.hash = '';
+  url.search = params.toString();
+  return url.toString();
+}
+
+type Listener = () => void;
+
+/**
+ * User settings and named presets, persisted to localStorage.
+ * URL overrides apply on top of the stored settings for this page load and
+ * are only written back once the user changes something.
+ */
+export class SettingsStore {
+  private snapshot: SettingsSnapshot;
+  private listeners = new Set<Listener>();
+  private storage: SettingsStorage | null;
+  // What session-only overrides cover; saved in their place until the user sets those fields
+  private covered: Partial<UserSettings>;
+
+  constructor(overrides: SettingsOverrides = { settings: {} }, storage: SettingsStorage | null = defaultStorage()) {
+    this.storage = storage;
+    const stored = migrateSettings(this.readStored());
+    let settings = stored.settings;
+    const preset = overrides.presetName ? findPreset(stored.presets, overrides.presetName) : undefined;
+    if (preset) settings = { ...settings, ...pickValidSettings(preset.settings) };
+    settings = { ...settings, ...pickValidSettings(overrides.settings) };
+    const sessionOnly = pickValidSettings(overrides.sessionOnly);
+    this.covered = Object.fromEntries(Object.keys(sessionOnly).map(key => [key, settings[key as keyof UserSettings]]));
+    this.snapshot = { settings: { ...settings, ...sessionOnly }, presets: stored.presets };
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /** Sets one field; accepts an updater like React's `setState`. */
+  set<K extends keyof UserSettings>(key: K, value: UserSettings[K] | ((prev: UserSettings[K]) => UserSettings[K])) {
+    const prev = this.snapshot.settings[key];
+    const next = typeof value === 'function' ? (value as (prev: UserSettings[K]) => UserSettings[K])(prev) : value;
+    if (next === prev) return;
+    this.update({ [key]: next } as Partial<UserSettings>);
+  }
+
+  update(patch: Partial<UserSettings>) {
+    this.uncover(Object.keys(patch));
+    this.commit({ ...this.snapshot, settings: { ...this.snapshot.settings, ...pickValidSettings(patch) } });
+  }
+
+  /** Back to the defaults; presets are kept. */
+  reset() {
+    this.covered = {};
+    this.commit({ ...this.snapshot, settings: DEFAULT_SETTINGS });
+  }
+
+  /** Saves the current settings under `name`, replacing a preset of the same name. */
+  savePreset(name: string): SettingsPreset {
+    const settings = withoutDeviceIds(this.snapshot.settings);
+    const existing = findPreset(this.snapshot.presets, name);
+    const preset: SettingsPreset = { id: existing?.id ?? crypto.randomUUID(), name: name.trim(), settings };
+    const presets = existing
+      ? this.snapshot.presets.map(p => p.id === existing.id ? preset : p)
+      : [...this.snapshot.presets, preset];
+    this.commit({ ...this.snapshot, presets });
+    return preset;
+  }
+
+  applyPreset(id: string) {
+    const preset = this.snapshot.presets.find(p => p.id === id);
+    if (preset) this.update(preset.settings);
+  }
+
+  deletePreset(id: string) {
+    this.commit({ ...this.snapshot, presets: this.snapshot.presets.filter(p => p.id !== id) });
+  }
+
+  exportJson(): string {
+    const doc: SettingsDocument = { version: SETTINGS_VERSION, ...this.snapshot };
+    return JSON.stringify(doc, null, 2);
+  }
+
+  /** Replaces the settings with the file's and merges its presets by name. */
+  importJson(text: string) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('Not a settings file');
+    }
+    if (!isObject(raw)) throw new Error('Not a settings file');
+    const imported = migrateSettings(raw);
+    const presets = this.snapshot.presets.filter(p => !findPreset(imported.presets, p.name));
+    this.covered = {};
+    this.commit({ settings: imported.settings, presets: [...presets, ...imported.presets] });
+  }
+
+  private readStored(): unknown {
+    try {
+      return JSON.parse(this.storage?.getItem(STORAGE_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  private uncover(keys: string[]) {
+    this.covered = Object.fromEntries(Object.entries(this.covered).filter(([key]) => !keys.includes(key)));
+  }
+
+  private commit(snapshot: SettingsSnapshot) {
+    this.snapshot = snapshot;
+    try {
+      const doc: SettingsDocument = { version: SETTINGS_VERSION, ...snapshot, settings: { ...snapshot.settings, ...this.covered } };
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(doc));
+    } catch {
+      // Private mode or quota; settings still apply for this page load
+    }
+    this.listeners.forEach(l => l());
+  }
+}
+
+export function downloadSettings(json: string) {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'criptlator-settings.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function findPreset(presets: SettingsPreset[], name: string): SettingsPreset | undefined {
+  const wanted = name.trim().toLowerCase();
+  return presets.find(p => p.name.toLowerCase() === wanted);
+}
+
+function toPreset(raw: unknown): SettingsPreset[] {
+  if (!isObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) return [];
+  const settings = withoutDeviceIds(pickValidSettings(raw.settings));
+  return [{ id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(), name: raw.name.trim(), settings }];
+}
+
+function withoutDeviceIds({ micDeviceId, outputDeviceId, originalDeviceId, ...settings }: Partial<UserSettings>): Partial<UserSettings> {
+  return settings;
+}
+
+function oneOf<T extends string>(values: Record<string, T>, value: unknown): T | null {
+  return Object.values(values).find(v => v === value) ?? null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function defaultStorage(): SettingsStorage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
@@ -0,0 +1,160 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@^2.45.0';
+import { GlossaryEntry, Room, RoomStatus, TranscriptSegment } from '../types';
+import { RoomError, assertJoinable, generateRoomCode, normalizeRoomCode } from './rooms';
+import {
+  RelayKind,
+  RelayPeer,
+  RelayPresenceHandle,
+  RelayPresenceState,
+  RelaySubscriptionHandlers,
+  RelayTransport,
+  createClientId
+} from './relayTransport';
+
+/**
+ * Supabase Realtime relay.
+ * Expects a `rooms` table (id, code, status, created_at, closed_at, glossary jsonb) and
+ * `room_id` + `segment` (jsonb) columns on `transcriptions`. Final segments are
+ * persisted as rows; partials only travel as Realtime broadcasts.
+ */
+export class SupabaseRelayTransport implements RelayTransport {
+  readonly kind = RelayKind.SUPABASE;
+  private client: any;
+  private clientId = createClientId();
+  private broadcastChannels = new Map<string, any>();
+
+  constructor(url: string, anonKey: string) {
+    this.client = createClient(url, anonKey);
+  }
+
+  async openRoom(): Promise<Room> {
+    // Retry a couple of times in case the generated code collides with an existing room
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data, error } = await this.client
+        .from('rooms')
+        .insert([{ code: generateRoomCode(), status: RoomStatus.OPEN }])
+        .select()
+        .single();
+
+      if (!error && data) return toRoom(data);
+      if (error?.code !== '23505') {
+        throw new RoomError('UNAVAILABLE', error?.message || 'Could not create room');
+      }
+    }
+    throw new RoomError('UNAVAILABLE', 'Could not allocate a room code');
+  }
+
+  async joinRoom(code: string): Promise<Room> {
+    const normalized = normalizeRoomCode(code);
+    if (!normalized) throw new RoomError('NOT_FOUND', 'Room not found');
+
+    const { data, error } = await this.client
+      .from('rooms')
+      .select('*')
+      .eq('code', normalized)
+      .maybeSingle();
+
+    if (error) throw new RoomError('UNAVAILABLE', error.message || 'Room lookup failed');
+    return assertJoinable(data ? toRoom(data) : null);
+  }
+
+  async closeRoom(room: Room): Promise<void> {
+    await this.client
+      .from('rooms')
+      .update({ status: RoomStatus.CLOSED, closed_at: new Date().toISOString() })
+      .eq('id', room.id);
+
+    const channel = this.broadcastChannels.get(room.id);
+    if (channel) {
+      this.broadcastChannels.delete(room.id);
+      this.client.removeChannel(channel);
+    }
+  }
+
+  async publishSegment(room: Room, segment: TranscriptSegment): Promise<void> {
+    if (!segment.isFinal) {
+      await this.broadcastChannel(room).send({ type: 'broadcast', event: 'partial', payload: segment });
+      return;
+    }
+    const { error } = await this.client.from('transcriptions').insert([{ text: segment.text, room_id: room.id, segment }]);
+    if (error) console.warn('Supabase relay: publish failed', error);
+  }
+
+  async updateGlossary(room: Room, glossary: GlossaryEntry[]): Promise<void> {
+    const { error } = await this.client.from('rooms').update({ glossary }).eq('id', room.id);
+    if (error) console.warn('Supabase relay: glossary update failed', error);
+  }
+
+  subscribe(room: Room, handlers: RelaySubscriptionHandlers): () => void {
+    const channel = this.client
+      .channel(`criptlator_room_${room.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'transcriptions', filter: `room_id=eq.${room.id}` }, (payload: any) => {
+        if (payload.new?.segment) handlers.onSegment(payload.new.segment);
+      })
+      .on('broadcast', { event: 'partial' }, ({ payload }: any) => {
+        if (payload) handlers.onSegment(payload);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'rooms', filter: `id=eq.${room.id}` }, (payload: any) => {
+        if (payload.new?.status === RoomStatus.CLOSED) handlers.onRoomClosed();
+        else if (Array.isArray(payload.new?.glossary)) handlers.onGlossary?.(payload.new.glossary);
+      })
+      .subscribe();
+
+    return () => { this.client.removeChannel(channel); };
+  }
+
+  trackPresence(room: Room, state: RelayPresenceState, onSync: (peers: RelayPeer[]) => void): RelayPresenceHandle {
+    const channel = this.client.channel(`criptlator_presence_${room.id}`, {
+      config: { presence: { key: this.clientId } },
+    });
+    let current = state;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const presenceState = channel.presenceState() as Record<string, any[]>;
+        const peers = Object.entries(presenceState).map(([clientId, metas]) => ({
+          ...metas[metas.length - 1],
+          clientId,
+        }));
+        onSync(peers);
+      })
+      .subscribe((status: string) => {
+        if (status === 'SUBSCRIBED') channel.track({ ...current, lastSeen: Date.now() });
+      });
+
+    return {
+      update: (next) => {
+        current = next;
+        channel.track({ ...current, lastSeen: Date.now() });
+      },
+      leave: () => {
+        channel.untrack().finally(() => this.client.removeChannel(channel));
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    this.broadcastChannels.clear();
+    await this.client.removeAllChannels();
+  }
+
+  // Speakers keep one joined channel per room for sending partial broadcasts
+  private broadcastChannel(room: Room) {
+    let channel = this.broadcastChannels.get(room.id);
+    if (!channel) {
+      channel = this.client.channel(`criptlator_room_${room.id}`).subscribe();
+      this.broadcastChannels.set(room.id, channel);
+    }
+    return channel;
+  }
+}
+
+function toRoom(row: any): Room {
+  return {
+    id: row.id,
+    code: row.code,
+    status: row.status === RoomStatus.CLOSED ? RoomStatus.CLOSED : RoomStatus.OPEN,
+    createdAt: row.created_at ? Date.parse(row.created_at) : Date.now(),
+    glossary: Array.isArray(row.glossary) ? row.glossary : undefined,
+  };
+}
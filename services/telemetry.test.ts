@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SessionTelemetry, summarize } from './telemetry';
+
+describe('summarize', () => {
+  it('uses nearest-rank percentiles', () => {
+    const samples = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(summarize(samples)).toEqual({ count: 100, p50: 50, p95: 95, max: 100 });
+  });
+
+  it('reports zeros for no samples', () => {
+    expect(summarize([])).toEqual({ count: 0, p50: 0, p95: 0, max: 0 });
+  });
+});
+
+describe('SessionTelemetry', () => {
+  it('times capture to the next transcription fragment', () => {
+    const telemetry = new SessionTelemetry();
+    telemetry.audioSent(1000);
+    telemetry.audioSent(1256);
+    telemetry.inputTranscribed(1700);
+    telemetry.inputTranscribed(1800);
+
+    const snapshot = telemetry.getSnapshot();
+    expect(snapshot.counters.chunksSent).toBe(2);
+    expect(snapshot.latencies.captureToTranscript).toMatchObject({ count: 1, max: 700 });
+  });
+
+  it('pairs interpretation turns per language in order', () => {
+    const telemetry = new SessionTelemetry();
+    telemetry.segmentReceived({ id: 'a', sentAt: 900 }, 950);
+    telemetry.segmentReceived({ id: 'b', sentAt: 2900 }, 2950);
+    telemetry.interpretIssued('es', 'a', 1000);
+    telemetry.interpretIssued('fr', 'a', 1000);
+    telemetry.interpretIssued('es', 'b', 3000);
+
+    telemetry.outputText('es', 1400);
+    telemetry.outputText('es', 1450);
+    telemetry.outputAudio('es', 1500);
+    telemetry.playbackScheduled('es', 50, 1520);
+    telemetry.turnEnded('es');
+    telemetry.outputText('fr', 1600);
+    telemetry.outputText('es', 3200);
+
+    const { latencies, crossClock } = telemetry.getSnapshot();
+    expect(latencies.textToFirstCaption).toMatchObject({ count: 3, p50: 400, max: 600 });
+    expect(latencies.textToFirstAudio).toMatchObject({ count: 1, max: 500 });
+    expect(latencies.audioToPlayback).toMatchObject({ count: 1, max: 50 });
+    expect(crossClock.endToEnd).toMatchObject({ count: 1, max: 670 });
+  });
+
+  it('times relayed segments from arrival to sendText, counting the first delivery', () => {
+    const telemetry = new SessionTelemetry();
+    telemetry.segmentReceived({ id: 'a', sentAt: 900 }, 1000);
+    telemetry.segmentReceived({ id: 'a', sentAt: 900 }, 1100);
+    telemetry.interpretIssued('es', 'a', 1250);
+    // Lines that never came through the relay, e.g. sample playback
+    telemetry.interpretIssued('es', 'local', 1300);
+    telemetry.interpretIssued('es', undefined, 1300);
+
+    const snapshot = telemetry.getSnapshot();
+    expect(snapshot.counters.segmentsReceived).toBe(2);
+    expect(snapshot.latencies.receiveToSend).toMatchObject({ count: 1, max: 250 });
+  });
+
+  it('keeps Speaker-clock stages apart, including negative skew', () => {
+    const telemetry = new SessionTelemetry();
+    telemetry.segmentReceived({ id: 'a', sentAt: 1300 }, 1000);
+    telemetry.recordLatency('audioToPlayback', -5);
+
+    const snapshot = telemetry.getSnapshot();
+    expect(snapshot.crossClock.segmentRelay).toMatchObject({ count: 1, max: -300 });
+    expect(snapshot.latencies).not.toHaveProperty('segmentRelay');
+    expect(snapshot.latencies.audioToPlayback.count).toBe(0);
+  });
+
+  it('clears everything on a new session', () => {
+    const telemetry = new SessionTelemetry();
+    telemetry.increment('reconnectAttempts');
+    telemetry.sampleQueueDepth(1.5);
+    telemetry.startSession(5000);
+
+    const snapshot = telemetry.getSnapshot();
+    expect(snapshot.sessionStart).toBe(5000);
+    expect(snapshot.counters.reconnectAttempts).toBe(0);
+    expect(snapshot.queueDepth).toEqual({ current: 0, max: 0 });
+  });
+});
@@ -0,0 +1,274 @@
+/** Stages timed start to end on this device's clock. */
+export type LocalLatencyMetric =
+  | 'captureToTranscript'
+  | 'receiveToSend'
+  | 'textToFirstCaption'
+  | 'textToFirstAudio'
+  | 'audioToPlayback';
+
+/**
+ * Stages timed from a Speaker timestamp to this device's clock. Any skew
+ * between the two machines is part of the figure, which can even be negative.
+ */
+export type CrossClockMetric = 'segmentRelay' | 'endToEnd';
+
+export type LatencyMetric = LocalLatencyMetric | CrossClockMetric;
+
+export type TelemetryCounter =
+  | 'chunksSent'
+  | 'segmentsPublished'
+  | 'segmentsReceived'
+  | 'duplicateSegments'
+  | 'staleSegments'
+  | 'reconnectAttempts'
+  | 'skippedTurns'
+  | 'summarizedLines';
+
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface TelemetrySnapshot {
+  sessionStart: number;
+  latencies: Record<LocalLatencyMetric, LatencyStats>;
+  /** Kept apart from `latencies`: only meaningful when the two clocks agree. */
+  crossClock: Record<CrossClockMetric, LatencyStats>;
+  counters: Record<TelemetryCounter, number>;
+  /** Seconds of Read Aloud audio scheduled ahead of the playback clock. */
+  queueDepth: { current: number; max: number };
+}
+
+export const LATENCY_METRICS: LocalLatencyMetric[] = [
+  'captureToTranscript',
+  'receiveToSend',
+  'textToFirstCaption',
+  'textToFirstAudio',
+  'audioToPlayback',
+];
+
+export const CROSS_CLOCK_METRICS: CrossClockMetric[] = ['segmentRelay', 'endToEnd'];
+
+const COUNTERS: TelemetryCounter[] = [
+  'chunksSent',
+  'segmentsPublished',
+  'segmentsReceived',
+  'duplicateSegments',
+  'staleSegments',
+  'reconnectAttempts',
+  'skippedTurns',
+  'summarizedLines',
+];
+
+// Percentiles are computed over the most recent samples only
+const MAX_SAMPLES = 500;
+
+interface ReceivedSegment {
+  sentAt?: number;
+  receivedAt: number;
+}
+
+interface PendingTurn {
+  issuedAt: number;
+  segmentSentAt?: number;
+}
+
+interface ActiveTurn extends PendingTurn {
+  hasText: boolean;
+  hasAudio: boolean;
+  hasPlayback: boolean;
+}
+
+type Listener = () => void;
+
+/**
+ * Per-session pipeline timings and counters. The widget reports events as they
+ * happen (chunk sent, segment relayed, `sendText`, first caption / audio,
+ * playback start) and this pairs them into latencies per interpreted line.
+ * Snapshots are immutable so the store plugs straight into `useSyncExternalStore`.
+ */
+export class SessionTelemetry {
+  private samples = new Map<LatencyMetric, number[]>();
+  private counters = emptyCounters();
+  private queueDepth = { current: 0, max: 0 };
+  private sessionStart = Date.now();
+  private snapshot: TelemetrySnapshot = this.buildSnapshot();
+  private listeners = new Set<Listener>();
+  // Speaker: oldest capture chunk not yet reflected in a transcription fragment
+  private awaitingTranscriptSince: number | null = null;
+  // Listener: when each relayed segment arrived, until its line is sent for interpretation
+  private receivedSegments = new Map<string, ReceivedSegment>();
+  private pendingTurns = new Map<string, PendingTurn[]>();
+  private activeTurns = new Map<string, ActiveTurn>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  startSession(startedAt: number = Date.now()) {
+    this.samples.clear();
+    this.counters = emptyCounters();
+    this.queueDepth = { current: 0, max: 0 };
+    this.sessionStart = startedAt;
+    this.awaitingTranscriptSince = null;
+    this.receivedSegments.clear();
+    this.pendingTurns.clear();
+    this.activeTurns.clear();
+    this.publish();
+  }
+
+  recordLatency(metric: LatencyMetric, ms: number) {
+    // Skew can push cross-clock samples below zero; dropping them would hide it
+    if (!Number.isFinite(ms) || (ms < 0 && !isCrossClock(metric))) return;
+    const list = this.samples.get(metric) ?? [];
+    list.push(ms);
+    if (list.length > MAX_SAMPLES) list.shift();
+    this.samples.set(metric, list);
+    this.publish();
+  }
+
+  increment(counter: TelemetryCounter, by: number = 1) {
+    this.counters = { ...this.counters, [counter]: this.counters[counter] + by };
+    this.publish();
+  }
+
+  sampleQueueDepth(seconds: number) {
+    this.queueDepth = { current: seconds, max: Math.max(this.queueDepth.max, seconds) };
+    this.publish();
+  }
+
+  // --- Speaker ---
+
+  audioSent(now: number = Date.now()) {
+    if (this.awaitingTranscriptSince === null) this.awaitingTranscriptSince = now;
+    this.increment('chunksSent');
+  }
+
+  inputTranscribed(now: number = Date.now()) {
+    if (this.awaitingTranscriptSince === null) return;
+    const since = this.awaitingTranscriptSince;
+    this.awaitingTranscriptSince = null;
+    this.recordLatency('captureToTranscript', now - since);
+  }
+
+  // --- Listener ---
+
+  segmentReceived(segment: { id: string; sentAt?: number }, now: number = Date.now()) {
+    // A duplicate delivery must not restart the wait of the first one
+    if (!this.receivedSegments.has(segment.id)) {
+      this.receivedSegments.set(segment.id, { sentAt: segment.sentAt, receivedAt: now });
+      if (this.receivedSegments.size > MAX_SAMPLES) this.receivedSegments.delete(this.receivedSegments.keys().next().value!);
+    }
+    this.counters = { ...this.counters, segmentsReceived: this.counters.segmentsReceived + 1 };
+    if (segment.sentAt === undefined) this.publish();
+    else this.recordLatency('segmentRelay', now - segment.sentAt);
+  }
+
+  /**
+   * A line was handed to the interpretation session for `language`. Relayed
+   * lines pass their segment id, so the wait since it arrived is timed too.
+   */
+  interpretIssued(language: string, segmentId?: string, now: number = Date.now()) {
+    const segment = segmentId ? this.receivedSegments.get(segmentId) : undefined;
+    if (segment) this.recordLatency('receiveToSend', now - segment.receivedAt);
+    const queue = this.pendingTurns.get(language) ?? [];
+    queue.push({ issuedAt: now, segmentSentAt: segment?.sentAt });
+    this.pendingTurns.set(language, queue);
+  }
+
+  outputText(language: string, now: number = Date.now()) {
+    const turn = this.turnFor(language);
+    if (!turn || turn.hasText) return;
+    turn.hasText = true;
+    this.recordLatency('textToFirstCaption', now - turn.issuedAt);
+  }
+
+  outputAudio(language: string, now: number = Date.now()) {
+    const turn = this.turnFor(language);
+    if (!turn || turn.hasAudio) return;
+    turn.hasAudio = true;
+    this.recordLatency('textToFirstAudio', now - turn.issuedAt);
+  }
+
+  /** The first audio of the current turn was scheduled `delayMs` after it arrived. */
+  playbackScheduled(language: string, delayMs: number, now: number = Date.now()) {
+    const turn = this.activeTurns.get(language);
+    if (!turn || turn.hasPlayback) return;
+    turn.hasPlayback = true;
+    this.recordLatency('audioToPlayback', delayMs);
+    if (turn.segmentSentAt !== undefined) this.recordLatency('endToEnd', now + delayMs - turn.segmentSentAt);
+  }
+
+  turnEnded(language: string) {
+    this.activeTurns.delete(language);
+  }
+
+  private turnFor(language: string): ActiveTurn | undefined {
+    const active = this.activeTurns.get(language);
+    if (active) return active;
+    const next = this.pendingTurns.get(language)?.shift();
+    if (!next) return undefined;
+    const turn = { ...next, hasText: false, hasAudio: false, hasPlayback: false };
+    this.activeTurns.set(language, turn);
+    return turn;
+  }
+
+  private buildSnapshot(): TelemetrySnapshot {
+    const stats = <M extends LatencyMetric>(metrics: M[]) => Object.fromEntries(
+      metrics.map(metric => [metric, summarize(this.samples.get(metric) ?? [])])
+    ) as Record<M, LatencyStats>;
+    return {
+      sessionStart: this.sessionStart,
+      latencies: stats(LATENCY_METRICS),
+      crossClock: stats(CROSS_CLOCK_METRICS),
+      counters: this.counters,
+      queueDepth: this.queueDepth,
+    };
+  }
+
+  private publish() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function isCrossClock(metric: LatencyMetric): metric is CrossClockMetric {
+  return (CROSS_CLOCK_METRICS as LatencyMetric[]).includes(metric);
+}
+
+function emptyCounters(): Record<TelemetryCounter, number> {
+  return Object.fromEntries(COUNTERS.map(counter => [counter, 0])) as Record<TelemetryCounter, number>;
+}
+
+/** Nearest-rank percentiles. */
+export function summarize(samples: number[]): LatencyStats {
+  if (samples.length === 0) return { count: 0, p50: 0, p95: 0, max: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    count: sorted.length,
+    p50: rank(0.5),
+    p95: rank(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function downloadTelemetry(snapshot: TelemetrySnapshot) {
+  const stamp = new Date(snapshot.sessionStart).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const body = JSON.stringify({
+    ...snapshot,
+    crossClockNote: 'Speaker timestamps measured against this device; includes any clock skew between the two machines',
+    exportedAt: Date.now(),
+  }, null, 2);
+  const url = URL.createObjectURL(new Blob([body], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `criptlator-diagnostics-${stamp}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { TimeStretcher } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (hz: number, samples: number) =>
+  Float32Array.from({ length: samples }, (_, i) => Math.sin(2 * Math.PI * hz * i / SAMPLE_RATE));
+
+// Streams in uneven chunks, as Read Aloud audio arrives
+function stretch(input: Float32Array, rate: number): Float32Array {
+  const stretcher = new TimeStretcher({ sampleRate: SAMPLE_RATE });
+  stretcher.setRate(rate);
+  const parts: number[] = [];
+  for (let i = 0; i < input.length; i += 1237) parts.push(...stretcher.process(input.subarray(i, i + 1237)));
+  parts.push(...stretcher.flush());
+  return Float32Array.from(parts);
+}
+
+function risingZeroCrossings(samples: Float32Array): number {
+  let count = 0;
+  for (let i = 1; i < samples.length; i++) if (samples[i - 1] < 0 && samples[i] >= 0) count++;
+  return count;
+}
+
+describe('TimeStretcher', () => {
+  it('shortens audio by the rate while keeping its pitch', () => {
+    const input = sine(220, SAMPLE_RATE);
+    const output = stretch(input, 1.5);
+    expect(output.length).toBeGreaterThan(SAMPLE_RATE / 1.5 - 200);
+    expect(output.length).toBeLessThan(SAMPLE_RATE / 1.5 + 800);
+    const hz = risingZeroCrossings(output) / (output.length / SAMPLE_RATE);
+    expect(hz).toBeGreaterThan(210);
+    expect(hz).toBeLessThan(230);
+  });
+
+  it('splices frames without clicks', () => {
+    const output = stretch(sine(220, SAMPLE_RATE), 1.25);
+    // A 220 Hz sine never moves more than this between samples
+    const maxStep = 2 * Math.PI * 220 / SAMPLE_RATE;
+    for (let i = 1; i < output.length; i++) expect(Math.abs(output[i] - output[i - 1])).toBeLessThan(maxStep * 1.5);
+  });
+
+  it('passes audio straight through at rate 1 when idle', () => {
+    const stretcher = new TimeStretcher({ sampleRate: SAMPLE_RATE });
+    const chunk = sine(440, 960);
+    expect(stretcher.process(chunk)).toBe(chunk);
+    expect(stretcher.isIdle).toBe(true);
+  });
+
+  it('holds back input shorter than a frame until flushed', () => {
+    const stretcher = new TimeStretcher({ sampleRate: SAMPLE_RATE });
+    stretcher.setRate(1.25);
+    const chunk = sine(440, 200);
+    expect(stretcher.process(chunk)).toHaveLength(0);
+    expect(stretcher.isIdle).toBe(false);
+    expect(Array.from(stretcher.flush())).toEqual(Array.from(chunk));
+    expect(stretcher.isIdle).toBe(true);
+  });
+});
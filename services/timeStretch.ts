@@ -0,0 +1,152 @@
+export interface TimeStretcherOptions {
+  sampleRate: number;
+  /** Analysis frame; half of it is the output hop. */
+  frameMs?: number;
+  /** How far a frame may shift to line up with the previous one. */
+  toleranceMs?: number;
+}
+
+/**
+ * Streaming WSOLA time-stretch: plays speech faster (or slower) without
+ * changing its pitch. Each output frame is taken from near its nominal input
+ * position, shifted to the offset whose waveform best continues the previous
+ * frame, and overlap-added with a Hann window.
+ *
+ * Up to one frame is held back between calls; `flush()` releases it at the
+ * end of an utterance.
+ */
+export class TimeStretcher {
+  private rate = 1;
+  private frame: number;
+  private hop: number;
+  private tolerance: number;
+  private window: Float32Array;
+  // Input not yet consumed, starting at absolute sample `inputStart`
+  private input = new Float32Array(0);
+  private inputStart = 0;
+  // Nominal position of the next frame, and where the previous one was actually taken
+  private nominal = 0;
+  private previous = -1;
+  // Falling half of the previous windowed frame, waiting for its overlap
+  private tail: Float32Array;
+
+  constructor(options: TimeStretcherOptions) {
+    const { sampleRate, frameMs = 30, toleranceMs = 5 } = options;
+    this.hop = Math.round(sampleRate * frameMs / 2000);
+    this.frame = this.hop * 2;
+    this.tolerance = Math.round(sampleRate * toleranceMs / 1000);
+    this.tail = new Float32Array(this.hop);
+    // Periodic Hann: overlapping halves sum to exactly one
+    this.window = new Float32Array(this.frame);
+    for (let i = 0; i < this.frame; i++) this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frame);
+  }
+
+  /** Input samples consumed per output sample; 1.25 plays a quarter faster. */
+  setRate(rate: number) {
+    this.rate = rate;
+  }
+
+  /** Whether audio is held back; a stretcher left idle at rate 1 passes input straight through. */
+  get isIdle() {
+    return this.previous < 0 && this.input.length === 0;
+  }
+
+  process(chunk: Float32Array): Float32Array {
+    if (this.rate === 1 && this.isIdle) return chunk;
+    this.append(chunk);
+
+    const out: Float32Array[] = [];
+    for (;;) {
+      const natural = this.previous + this.hop;
+      const searchStart = this.previous < 0 ? this.nominal : Math.max(this.inputStart, Math.round(this.nominal) - this.tolerance);
+      const searchEnd = this.previous < 0 ? this.nominal : Math.round(this.nominal) + this.tolerance;
+      const available = this.inputStart + this.input.length;
+      if (searchEnd + this.frame > available || (this.previous >= 0 && natural + this.hop > available)) break;
+
+      const position = this.previous < 0 ? Math.round(this.nominal) : this.bestOffset(natural, searchStart, searchEnd);
+      const at = position - this.inputStart;
+      const hopOut = new Float32Array(this.hop);
+      for (let i = 0; i < this.hop; i++) {
+        // The first frame has nothing to overlap with, so its rising half is taken as is
+        hopOut[i] = this.previous < 0 ? this.input[at + i] : this.tail[i] + this.input[at + i] * this.window[i];
+      }
+      for (let i = 0; i < this.hop; i++) this.tail[i] = this.input[at + this.hop + i] * this.window[this.hop + i];
+      out.push(hopOut);
+
+      this.previous = position;
+      this.nominal += this.hop * this.rate;
+      this.trim();
+    }
+    return concat(out);
+  }
+
+  /** Releases everything held back, continuing the last frame naturally. */
+  flush(): Float32Array {
+    let out: Float32Array;
+    if (this.previous < 0) {
+      out = this.input.slice();
+    } else {
+      const from = this.previous + this.hop - this.inputStart;
+      const rest = this.input.subarray(Math.min(from, this.input.length));
+      out = new Float32Array(Math.max(rest.length, this.hop));
+      out.set(this.tail);
+      for (let i = 0; i < rest.length; i++) out[i] += i < this.hop ? rest[i] * this.window[i] : rest[i];
+      // Without enough input left the tail fades out on its own
+      if (rest.length < this.hop) out = out.subarray(0, this.hop);
+    }
+    this.reset();
+    return out;
+  }
+
+  reset() {
+    this.input = new Float32Array(0);
+    this.inputStart = 0;
+    this.nominal = 0;
+    this.previous = -1;
+    this.tail.fill(0);
+  }
+
+  // Cross-correlates the overlap region against the natural continuation of the previous frame
+  private bestOffset(natural: number, searchStart: number, searchEnd: number): number {
+    const reference = natural - this.inputStart;
+    let best = searchStart;
+    let bestScore = -Infinity;
+    for (let candidate = searchStart; candidate <= searchEnd; candidate++) {
+      const at = candidate - this.inputStart;
+      let score = 0;
+      for (let i = 0; i < this.hop; i++) score += this.input[reference + i] * this.input[at + i];
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  private append(chunk: Float32Array) {
+    const next = new Float32Array(this.input.length + chunk.length);
+    next.set(this.input);
+    next.set(chunk, this.input.length);
+    this.input = next;
+  }
+
+  // Drops input no future frame or search window can reach
+  private trim() {
+    const keepFrom = Math.min(this.previous + this.hop, Math.round(this.nominal) - this.tolerance);
+    const drop = keepFrom - this.inputStart;
+    if (drop <= 0) return;
+    this.input = this.input.slice(drop);
+    this.inputStart = keepFrom;
+  }
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  if (parts.length === 1) return parts[0];
+  const out = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptRecord } from '../types';
+import { TranscriptSnapshot } from './transcriptStore';
+import { formatCueTime, toJson, toSrt, toTxt, toVtt } from './transcriptExport';
+
+const SESSION_START = 1_700_000_000_000;
+
+const record = (id: string, type: 'input' | 'output', text: string, start: number, end: number, extra: Partial<TranscriptRecord> = {}): TranscriptRecord =>
+  ({ id, type, text, timestamp: SESSION_START + end, startTime: SESSION_START + start, endTime: SESSION_START + end, ...extra });
+
+const snapshot = (records: TranscriptRecord[]): TranscriptSnapshot => ({ sessionStart: SESSION_START, records, liveTranslations: [] });
+
+describe('formatCueTime', () => {
+  it('formats hours, minutes, seconds and milliseconds', () => {
+    expect(formatCueTime(3723004, ',')).toBe('01:02:03,004');
+    expect(formatCueTime(3723004, '.')).toBe('01:02:03.004');
+  });
+
+  it('rounds to the millisecond and clamps offsets before the session', () => {
+    expect(formatCueTime(1500.6, ',')).toBe('00:00:01,501');
+    expect(formatCueTime(-250, '.')).toBe('00:00:00.000');
+  });
+});
+
+describe('subtitle export', () => {
+  const records = [
+    record('a', 'input', 'Hello there', 1000, 3500),
+    record('t1', 'output', 'Bonjour', 2000, 4200, { sourceId: 'a', language: 'fr' }),
+    record('b', 'input', 'Yes', 6000, 6200),
+  ];
+
+  it('numbers SRT cues and spans each source with its translations', () => {
+    expect(toSrt(snapshot(records))).toBe([
+      '1\n00:00:01,000 --> 00:00:04,200\nHello there\nBonjour\n',
+      '2\n00:00:06,000 --> 00:00:07,000\nYes\n',
+    ].join('\n'));
+  });
+
+  it('writes the same cues as WebVTT', () => {
+    expect(toVtt(snapshot(records))).toBe([
+      'WEBVTT\n',
+      '00:00:01.000 --> 00:00:04.200\nHello there\nBonjour\n',
+      '00:00:06.000 --> 00:00:07.000\nYes\n',
+    ].join('\n'));
+  });
+
+  it('gives translations without a source their own cue', () => {
+    const srt = toSrt(snapshot([record('t', 'output', 'Orphan', 500, 2500, { language: 'fr' })]));
+    expect(srt).toBe('1\n00:00:00,500 --> 00:00:02,500\nOrphan\n');
+  });
+});
+
+describe('toTxt', () => {
+  it('labels translations only when there is more than one language', () => {
+    const single = [
+      record('a', 'input', 'Hello', 65000, 66000),
+      record('t1', 'output', 'Bonjour', 65500, 66500, { sourceId: 'a', language: 'fr' }),
+    ];
+    expect(toTxt(snapshot(single))).toBe('[00:01:05] Hello\n           → Bonjour\n');
+
+    const multi = [...single, record('t2', 'output', 'Hallo', 65600, 66600, { sourceId: 'a', language: 'de' })];
+    expect(toTxt(snapshot(multi))).toBe('[00:01:05] Hello\n           → [fr] Bonjour\n           → [de] Hallo\n');
+  });
+
+  it('stamps translations without a source', () => {
+    expect(toTxt(snapshot([record('t', 'output', 'Orphan', 2000, 3000, { language: 'fr' })]))).toBe('[00:00:02] → Orphan\n');
+  });
+});
+
+describe('toJson', () => {
+  it('adds each record offset from the session start', () => {
+    const parsed = JSON.parse(toJson(snapshot([record('a', 'input', 'Hello', 1234, 2000)])));
+    expect(parsed.sessionStart).toBe(new Date(SESSION_START).toISOString());
+    expect(parsed.records[0]).toMatchObject({ id: 'a', text: 'Hello', offsetMs: 1234 });
+  });
+});
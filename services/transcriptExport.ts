@@ -0,0 +1,99 @@
+import { TranscriptPair, TranscriptRecord } from '../types';
+import { TranscriptSnapshot, pairTranscript } from './transcriptStore';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+const MIN_CUE_MS = 1000;
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+  json: 'application/json',
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Formats a session-relative offset as `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT). */
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function buildCues(pairs: TranscriptPair[], sessionStart: number): Cue[] {
+  return pairs.map(pair => {
+    const records = pair.source ? [pair.source, ...pair.translations] : pair.translations;
+    const start = records[0].startTime - sessionStart;
+    const end = Math.max(...records.map(r => r.endTime)) - sessionStart;
+    return {
+      start,
+      end: Math.max(end, start + MIN_CUE_MS),
+      lines: records.map(r => r.text),
+    };
+  });
+}
+
+export function toSrt(snapshot: TranscriptSnapshot): string {
+  return buildCues(pairTranscript(snapshot.records), snapshot.sessionStart)
+    .map((cue, idx) => `${idx + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+export function toVtt(snapshot: TranscriptSnapshot): string {
+  const cues = buildCues(pairTranscript(snapshot.records), snapshot.sessionStart)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.lines.join('\n')}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toTxt(snapshot: TranscriptSnapshot): string {
+  const languages = new Set(snapshot.records.filter(r => r.type === 'output').map(r => r.language));
+  const label = (record: TranscriptRecord) => languages.size > 1 && record.language ? `[${record.language}] ` : '';
+
+  return pairTranscript(snapshot.records).map(pair => {
+    const first = pair.source ?? pair.translations[0];
+    const stamp = formatCueTime(first.startTime - snapshot.sessionStart, '.').slice(0, 8);
+    const lines = pair.source ? [`[${stamp}] ${pair.source.text}`] : [];
+    pair.translations.forEach(t => lines.push(pair.source ? `           → ${label(t)}${t.text}` : `[${stamp}] → ${label(t)}${t.text}`));
+    return lines.join('\n');
+  }).join('\n') + '\n';
+}
+
+export function toJson(snapshot: TranscriptSnapshot): string {
+  return JSON.stringify({
+    sessionStart: new Date(snapshot.sessionStart).toISOString(),
+    exportedAt: new Date().toISOString(),
+    records: snapshot.records.map((r: TranscriptRecord) => ({
+      ...r,
+      offsetMs: r.startTime - snapshot.sessionStart,
+    })),
+  }, null, 2);
+}
+
+export function exportTranscript(snapshot: TranscriptSnapshot, format: TranscriptExportFormat): string {
+  switch (format) {
+    case 'srt': return toSrt(snapshot);
+    case 'vtt': return toVtt(snapshot);
+    case 'txt': return toTxt(snapshot);
+    case 'json': return toJson(snapshot);
+  }
+}
+
+export function downloadTranscript(snapshot: TranscriptSnapshot, format: TranscriptExportFormat) {
+  const stamp = new Date(snapshot.sessionStart).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const blob = new Blob([exportTranscript(snapshot, format)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `criptlator-${stamp}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
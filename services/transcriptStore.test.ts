@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptStore, pairTranscript } from './transcriptStore';
+
+const source = (id: string, text: string, startTime: number, endTime = startTime + 1000) =>
+  ({ id, text, timestamp: endTime, startTime, endTime });
+
+describe('TranscriptStore', () => {
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new TranscriptStore();
+    store.startSession(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const translate = (text: string, language: string) => {
+    text.split(' ').forEach((word, i) => {
+      vi.advanceTimersByTime(100);
+      store.appendTranslation(i === 0 ? word : ` ${word}`, language);
+    });
+    return store.completeTranslation(language);
+  };
+
+  it('pairs streamed translations with their source lines in order', () => {
+    store.addSource(source('a', 'Hello', 0));
+    store.addSource(source('b', 'Goodbye', 1000));
+    store.expectTranslation('a', ['fr']);
+    store.expectTranslation('b', ['fr']);
+
+    expect(translate('Bonjour', 'fr')?.sourceId).toBe('a');
+    expect(translate('Au revoir', 'fr')).toMatchObject({ sourceId: 'b', text: 'Au revoir', language: 'fr' });
+  });
+
+  it('keeps a queue per language', () => {
+    store.addSource(source('a', 'Hello', 0));
+    store.expectTranslation('a', ['fr', 'de']);
+
+    expect(translate('Hallo', 'de')?.sourceId).toBe('a');
+    expect(translate('Bonjour', 'fr')?.sourceId).toBe('a');
+  });
+
+  it('drops the source line of a turn that ends without output', () => {
+    store.addSource(source('a', 'Hello', 0));
+    store.addSource(source('b', 'Goodbye', 1000));
+    store.expectTranslation('a', ['fr']);
+    store.expectTranslation('b', ['fr']);
+
+    // Interrupted before the model said anything
+    expect(store.completeTranslation('fr')).toBeUndefined();
+    expect(translate('Au revoir', 'fr')?.sourceId).toBe('b');
+  });
+
+  it('uses up the source line of a whitespace-only translation', () => {
+    store.addSource(source('a', 'Hello', 0));
+    store.addSource(source('b', 'Goodbye', 1000));
+    store.expectTranslation('a', ['fr']);
+    store.expectTranslation('b', ['fr']);
+
+    expect(translate(' ', 'fr')).toBeUndefined();
+    expect(translate('Au revoir', 'fr')?.sourceId).toBe('b');
+    expect(store.getSnapshot().records.filter(r => r.type === 'output')).toHaveLength(1);
+  });
+
+  it('forgets pending lines when a new session starts', () => {
+    store.expectTranslation('a', ['fr']);
+    store.startSession(5000);
+    expect(translate('Bonjour', 'fr')?.sourceId).toBeUndefined();
+  });
+
+  it('records the original as the rendering in the source language', () => {
+    store.addSource(source('a', 'Hello', 200, 900));
+    store.addOriginal('a', 'en');
+    const [, original] = store.getSnapshot().records;
+    expect(original).toMatchObject({ type: 'output', text: 'Hello', sourceId: 'a', language: 'en', startTime: 200, endTime: 900 });
+  });
+});
+
+describe('pairTranscript', () => {
+  it('groups translations under their source and keeps orphans as their own rows', () => {
+    const records = [
+      { ...source('a', 'Hello', 0), type: 'input' as const },
+      { ...source('t1', 'Bonjour', 500), type: 'output' as const, sourceId: 'a', language: 'fr' },
+      { ...source('t2', 'Salut', 900), type: 'output' as const, language: 'fr' },
+    ];
+    const live = [{ ...source('t3', 'Hal', 600), type: 'output' as const, sourceId: 'a', language: 'de' }];
+
+    const pairs = pairTranscript(records, live);
+    expect(pairs).toHaveLength(2);
+    expect(pairs[0].source?.id).toBe('a');
+    expect(pairs[0].translations.map(t => t.id)).toEqual(['t1', 't3']);
+    expect(pairs[1]).toEqual({ translations: [records[2]] });
+  });
+});
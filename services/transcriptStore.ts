@@ -0,0 +1,149 @@
+import { TranscriptPair, TranscriptRecord } from '../types';
+
+export interface TranscriptSnapshot {
+  sessionStart: number;
+  records: TranscriptRecord[];
+  /** Translations still being streamed by the model, one per target language. */
+  liveTranslations: TranscriptRecord[];
+}
+
+const DEFAULT_LANGUAGE = 'default';
+
+type Listener = () => void;
+
+/**
+ * Session-scoped log of every source line and its translation.
+ * Snapshots are immutable so the store plugs straight into `useSyncExternalStore`.
+ */
+export class TranscriptStore {
+  private snapshot: TranscriptSnapshot = { sessionStart: Date.now(), records: [], liveTranslations: [] };
+  private listeners = new Set<Listener>();
+  private pendingSourceIds = new Map<string, string[]>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  startSession(startedAt: number = Date.now()) {
+    this.pendingSourceIds.clear();
+    this.update({ sessionStart: startedAt, records: [], liveTranslations: [] });
+  }
+
+  /** Records (or replaces, by id) a final source line. */
+  addSource(record: Omit<TranscriptRecord, 'type'>) {
+    const next: TranscriptRecord = { ...record, type: 'input' };
+    const records = this.snapshot.records.filter(r => r.id !== next.id);
+    records.push(next);
+    this.update({ ...this.snapshot, records });
+  }
+
+  /**
+   * Marks a source line as sent for interpretation so the next translation in
+   * each of the given languages pairs with it.
+   */
+  expectTranslation(sourceId: string, languages: string[] = [DEFAULT_LANGUAGE]) {
+    languages.forEach(language => {
+      const queue = this.pendingSourceIds.get(language) ?? [];
+      queue.push(sourceId);
+      this.pendingSourceIds.set(language, queue);
+    });
+  }
+
+  /** Appends an `outputTranscription` fragment to the translation being streamed in `language`. */
+  appendTranslation(fragment: string, language: string = DEFAULT_LANGUAGE) {
+    if (!fragment) return;
+    const now = Date.now();
+    const live = this.getLiveTranslation(language);
+    const next: TranscriptRecord = live
+      ? { ...live, text: live.text + fragment, endTime: now, timestamp: now }
+      : {
+          id: crypto.randomUUID(),
+          text: fragment,
+          type: 'output',
+          timestamp: now,
+          startTime: now,
+          endTime: now,
+          sourceId: this.pendingSourceIds.get(language)?.shift(),
+          language,
+        };
+    const liveTranslations = [...this.snapshot.liveTranslations.filter(r => r.language !== language), next];
+    this.update({ ...this.snapshot, liveTranslations });
+  }
+
+  /**
+   * Closes the streamed translation in `language`, e.g. on turn completion or interruption.
+   * A turn that ends without any output still uses up the source line it was answering.
+   */
+  completeTranslation(language: string = DEFAULT_LANGUAGE): TranscriptRecord | undefined {
+    const live = this.getLiveTranslation(language);
+    if (!live) {
+      this.pendingSourceIds.get(language)?.shift();
+      return undefined;
+    }
+    const completed = live.text.trim() ? { ...live, text: live.text.trim() } : undefined;
+    const records = completed ? [...this.snapshot.records, completed] : this.snapshot.records;
+    const liveTranslations = this.snapshot.liveTranslations.filter(r => r !== live);
+    this.update({ ...this.snapshot, records, liveTranslations });
+    return completed;
+  }
+
+  /** Records the source line itself as the rendering in `language`, when no interpretation is needed. */
+  addOriginal(sourceId: string, language: string = DEFAULT_LANGUAGE) {
+    const source = this.getRecord(sourceId);
+    if (!source) return;
+    const original: TranscriptRecord = {
+      id: crypto.randomUUID(),
+      text: source.text,
+      type: 'output',
+      timestamp: Date.now(),
+      startTime: source.startTime,
+      endTime: source.endTime,
+      sourceId,
+      language,
+    };
+    this.update({ ...this.snapshot, records: [...this.snapshot.records, original] });
+  }
+
+  getRecord(id: string): TranscriptRecord | undefined {
+    return this.snapshot.records.find(r => r.id === id);
+  }
+
+  /** Attaches extra details (e.g. glossary violations) to a finished record. */
+  annotate(id: string, patch: Partial<Omit<TranscriptRecord, 'id' | 'type'>>) {
+    if (!this.getRecord(id)) return;
+    const records = this.snapshot.records.map(r => r.id === id ? { ...r, ...patch } : r);
+    this.update({ ...this.snapshot, records });
+  }
+
+  getLiveTranslation(language: string = DEFAULT_LANGUAGE): TranscriptRecord | undefined {
+    return this.snapshot.liveTranslations.find(r => r.language === language);
+  }
+
+  private update(snapshot: TranscriptSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/** Groups records into source → translations rows, in source order. */
+export function pairTranscript(records: TranscriptRecord[], liveTranslations: TranscriptRecord[] = []): TranscriptPair[] {
+  const all = [...records, ...liveTranslations];
+  const pairs: TranscriptPair[] = [];
+  const bySourceId = new Map<string, TranscriptPair>();
+
+  all.forEach(record => {
+    if (record.type === 'input') {
+      const pair = { source: record, translations: [] };
+      bySourceId.set(record.id, pair);
+      pairs.push(pair);
+      return;
+    }
+    const owner = record.sourceId ? bySourceId.get(record.sourceId) : undefined;
+    if (owner) owner.translations.push(record);
+    else pairs.push({ translations: [record] });
+  });
+  return pairs;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechGate, VoiceActivityDetector, analyzeFrame } from './voiceActivityDetector';
+
+const SAMPLE_RATE = 16000;
+// The capture worklet's chunk size: 256 ms at 16 kHz
+const CHUNK = 4096;
+
+// Deterministic noise so thresholds are tested against the same signal every run
+function noise(samples: number, amplitude: number, seed = 1): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length: samples }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return (state / 2 ** 32 * 2 - 1) * amplitude;
+  });
+}
+
+const tone = (hz: number, samples: number, amplitude = 0.3) =>
+  Float32Array.from({ length: samples }, (_, i) => Math.sin(2 * Math.PI * hz * i / SAMPLE_RATE) * amplitude);
+
+// Voiced speech stand-in: a 150 Hz fundamental with falling harmonics over a little breath noise
+function voiced(samples: number): Float32Array {
+  const breath = noise(samples, 0.01, 7);
+  return Float32Array.from({ length: samples }, (_, i) => {
+    let value = breath[i];
+    for (let h = 1; h <= 8; h++) value += Math.sin(2 * Math.PI * 150 * h * i / SAMPLE_RATE) * 0.15 / h;
+    return value;
+  });
+}
+
+const pcm16 = (samples: Float32Array) => Int16Array.from(samples, s => Math.round(s * 32767));
+const chunks = (samples: Float32Array) =>
+  Array.from({ length: Math.floor(samples.length / CHUNK) }, (_, i) => pcm16(samples.subarray(i * CHUNK, (i + 1) * CHUNK)));
+const hann = Float32Array.from({ length: 512 }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / 511));
+
+describe('analyzeFrame', () => {
+  it('reads silence as the lowest energy', () => {
+    expect(analyzeFrame(new Float32Array(512), hann, SAMPLE_RATE).energyDb).toBe(-100);
+  });
+
+  it('tells a tone from white noise by flatness and zero crossings', () => {
+    const sine = analyzeFrame(tone(440, 512), hann, SAMPLE_RATE);
+    expect(sine.energyDb).toBeCloseTo(20 * Math.log10(0.3 / Math.SQRT2), 0);
+    expect(sine.flatness).toBeLessThan(0.05);
+    expect(sine.zeroCrossingRate).toBeCloseTo(2 * 440 / SAMPLE_RATE, 2);
+
+    const white = analyzeFrame(noise(512, 0.3), hann, SAMPLE_RATE);
+    expect(white.flatness).toBeGreaterThan(0.45);
+    expect(white.zeroCrossingRate).toBeGreaterThan(0.35);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('opens on speech, holds through the hangover and closes after the pause', () => {
+    const vad = new VoiceActivityDetector({ hangoverMs: 500 });
+    const room = chunks(noise(CHUNK * 4, 0.002));
+    expect(room.map(c => vad.process(c))).toEqual([false, false, false, false]);
+
+    expect(vad.process(chunks(voiced(CHUNK))[0])).toBe(true);
+    expect(vad.isSpeaking).toBe(true);
+
+    // 256 ms chunks: still inside the hangover after the first, closed by the end of the third
+    const pause = chunks(noise(CHUNK * 3, 0.002, 3)).map(c => vad.process(c));
+    expect(pause[0]).toBe(true);
+    expect(pause[2]).toBe(false);
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('ignores loud white noise', () => {
+    const vad = new VoiceActivityDetector();
+    expect(chunks(noise(CHUNK * 4, 0.3)).some(c => vad.process(c))).toBe(false);
+  });
+
+  it('needs more than a single frame of sound to open', () => {
+    const vad = new VoiceActivityDetector({ minSpeechMs: 64 });
+    const click = new Float32Array(CHUNK);
+    click.set(voiced(512));
+    expect(vad.process(pcm16(click))).toBe(false);
+  });
+});
+
+describe('SpeechGate', () => {
+  function record(enabled = true) {
+    const sent: Int16Array[] = [];
+    const events: string[] = [];
+    const gate = new SpeechGate({
+      onSend: pcm => sent.push(pcm),
+      onSpeechStart: () => events.push('start'),
+      onSpeechEnd: () => events.push('end'),
+    }, { hangoverMs: 300 });
+    gate.setEnabled(enabled);
+    return { gate, sent, events };
+  }
+
+  const silence = chunks(noise(CHUNK * 4, 0.002));
+  const speech = chunks(voiced(CHUNK * 2));
+
+  it('holds silence back and replays the pre-roll chunk when speech starts', () => {
+    const { gate, sent, events } = record();
+    silence.slice(0, 3).forEach(c => gate.push(c));
+    expect(sent).toHaveLength(0);
+
+    speech.forEach(c => gate.push(c));
+    expect(events).toEqual(['start']);
+    expect(sent).toEqual([silence[2], ...speech]);
+
+    // The chunk the hangover runs out in still goes out; the gate closes on the next
+    gate.push(silence[3]);
+    gate.push(silence[0]);
+    expect(events).toEqual(['start']);
+    gate.push(silence[1]);
+    expect(events).toEqual(['start', 'end']);
+    expect(gate.isOpen).toBe(false);
+  });
+
+  it('passes everything through when disabled but still reports pauses', () => {
+    const { gate, sent, events } = record(false);
+    [...silence.slice(0, 2), ...speech, ...silence.slice(1)].forEach(c => gate.push(c));
+    expect(sent).toHaveLength(7);
+    expect(events).toEqual(['start', 'end']);
+    expect(gate.isEnabled).toBe(false);
+  });
+});
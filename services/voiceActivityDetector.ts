@@ -0,0 +1,269 @@
+export interface VadOptions {
+  sampleRate?: number;
+  /** Speech must exceed the adaptive noise floor by this much. */
+  energyMarginDb?: number;
+  /** Absolute floor below which nothing counts as speech. */
+  minEnergyDb?: number;
+  /** Spectral flatness above this (0 = tonal, 1 = white noise) reads as noise. */
+  maxFlatness?: number;
+  /** Zero-crossing rate window typical of voiced and unvoiced speech. */
+  minZeroCrossingRate?: number;
+  maxZeroCrossingRate?: number;
+  /** Speech needed before the gate opens. */
+  minSpeechMs?: number;
+  /** Silence tolerated before the gate closes. */
+  hangoverMs?: number;
+}
+
+export interface VadFrameFeatures {
+  energyDb: number;
+  flatness: number;
+  zeroCrossingRate: number;
+}
+
+const FRAME_SIZE = 512;
+const BAND_LOW_HZ = 300;
+const BAND_HIGH_HZ = 4000;
+
+const DEFAULT_VAD_OPTIONS: Required<VadOptions> = {
+  sampleRate: 16000,
+  energyMarginDb: 10,
+  minEnergyDb: -55,
+  maxFlatness: 0.45,
+  minZeroCrossingRate: 0.01,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 64,
+  hangoverMs: 500,
+};
+
+/**
+ * Frame-level voice activity detector for 16 kHz PCM16.
+ * Combines energy against an adaptive noise floor with spectral flatness and
+ * zero-crossing rate, then applies attack (`minSpeechMs`) and hangover.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VadOptions>;
+  private carry = new Float32Array(0);
+  private noiseFloorDb = -70;
+  private speechRunMs = 0;
+  private silenceRunMs = 0;
+  private speaking = false;
+  private window = hannWindow(FRAME_SIZE);
+
+  constructor(options: VadOptions = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  updateOptions(options: VadOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Feeds a chunk; returns whether any part of it was inside an utterance. */
+  process(pcm: Int16Array): boolean {
+    const samples = new Float32Array(this.carry.length + pcm.length);
+    samples.set(this.carry);
+    for (let i = 0; i < pcm.length; i++) samples[this.carry.length + i] = pcm[i] / 32768;
+
+    const frameMs = FRAME_SIZE / this.options.sampleRate * 1000;
+    let active = this.speaking;
+    let offset = 0;
+    for (; offset + FRAME_SIZE <= samples.length; offset += FRAME_SIZE) {
+      const isSpeech = this.classify(analyzeFrame(samples.subarray(offset, offset + FRAME_SIZE), this.window, this.options.sampleRate));
+      this.advance(isSpeech, frameMs);
+      active = active || this.speaking;
+    }
+    this.carry = samples.slice(offset);
+    return active;
+  }
+
+  reset() {
+    this.carry = new Float32Array(0);
+    this.noiseFloorDb = -70;
+    this.speechRunMs = 0;
+    this.silenceRunMs = 0;
+    this.speaking = false;
+  }
+
+  private classify(features: VadFrameFeatures): boolean {
+    const o = this.options;
+    const loudEnough = features.energyDb > o.minEnergyDb && features.energyDb > this.noiseFloorDb + o.energyMarginDb;
+    const spectralVotes =
+      (features.flatness < o.maxFlatness ? 1 : 0) +
+      (features.zeroCrossingRate >= o.minZeroCrossingRate && features.zeroCrossingRate <= o.maxZeroCrossingRate ? 1 : 0);
+    const isSpeech = loudEnough && spectralVotes >= 1;
+
+    // Noise floor follows quiet frames quickly and creeps up slowly otherwise,
+    // so sustained speech does not get absorbed into the floor
+    if (!isSpeech) {
+      const rate = features.energyDb < this.noiseFloorDb ? 0.3 : 0.05;
+      this.noiseFloorDb += (features.energyDb - this.noiseFloorDb) * rate;
+    } else {
+      this.noiseFloorDb += 0.002 * (features.energyDb - this.noiseFloorDb);
+    }
+    return isSpeech;
+  }
+
+  private advance(isSpeech: boolean, frameMs: number) {
+    if (isSpeech) {
+      this.speechRunMs += frameMs;
+      this.silenceRunMs = 0;
+      if (!this.speaking && this.speechRunMs >= this.options.minSpeechMs) this.speaking = true;
+    } else {
+      this.silenceRunMs += frameMs;
+      this.speechRunMs = 0;
+      if (this.speaking && this.silenceRunMs >= this.options.hangoverMs) this.speaking = false;
+    }
+  }
+}
+
+export function analyzeFrame(frame: Float32Array, window: Float32Array, sampleRate: number): VadFrameFeatures {
+  let energy = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    energy += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+  }
+  const rms = Math.sqrt(energy / frame.length);
+
+  const re = new Float32Array(frame.length);
+  const im = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) re[i] = frame[i] * window[i];
+  fft(re, im);
+
+  // Spectral flatness over the speech band: geometric / arithmetic mean of power
+  const binHz = sampleRate / frame.length;
+  const lo = Math.max(1, Math.floor(BAND_LOW_HZ / binHz));
+  const hi = Math.min(frame.length / 2, Math.ceil(BAND_HIGH_HZ / binHz));
+  let logSum = 0;
+  let sum = 0;
+  for (let k = lo; k < hi; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  const bins = hi - lo;
+  const flatness = Math.exp(logSum / bins) / (sum / bins);
+
+  return {
+    energyDb: rms > 0 ? 20 * Math.log10(rms) : -100,
+    flatness,
+    zeroCrossingRate: crossings / frame.length,
+  };
+}
+
+function hannWindow(size: number): Float32Array {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1));
+  return w;
+}
+
+/** In-place iterative radix-2 FFT. */
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = -2 * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+export interface SpeechGateCallbacks {
+  onSend: (pcm: Int16Array) => void;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+/**
+ * Holds back silent chunks. Keeps a short pre-roll so word onsets are not
+ * clipped, and reports utterance boundaries as the gate opens and closes.
+ */
+export class SpeechGate {
+  private detector: VoiceActivityDetector;
+  private callbacks: SpeechGateCallbacks;
+  private preRoll: Int16Array[] = [];
+  private preRollChunks: number;
+  private open = false;
+  private enabled = true;
+
+  constructor(callbacks: SpeechGateCallbacks, options: VadOptions = {}, preRollChunks = 1) {
+    this.detector = new VoiceActivityDetector(options);
+    this.callbacks = callbacks;
+    this.preRollChunks = preRollChunks;
+  }
+
+  get isOpen() {
+    return this.open;
+  }
+
+  updateOptions(options: VadOptions) {
+    this.detector.updateOptions(options);
+  }
+
+  get isEnabled() {
+    return this.enabled;
+  }
+
+  /** A disabled gate passes everything through but keeps reporting activity. */
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+  }
+
+  push(pcm: Int16Array) {
+    const active = this.detector.process(pcm);
+
+    if (active && !this.open) {
+      this.open = true;
+      this.callbacks.onSpeechStart?.();
+      if (this.enabled) this.preRoll.forEach(chunk => this.callbacks.onSend(chunk));
+      this.preRoll = [];
+    }
+
+    if (active || !this.enabled) {
+      this.callbacks.onSend(pcm);
+    } else {
+      this.preRoll.push(pcm);
+      if (this.preRoll.length > this.preRollChunks) this.preRoll.shift();
+    }
+
+    if (!active && this.open) {
+      this.open = false;
+      this.callbacks.onSpeechEnd?.();
+    }
+  }
+
+  reset() {
+    this.detector.reset();
+    this.preRoll = [];
+    this.open = false;
+  }
+}
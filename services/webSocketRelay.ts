@@ -0,0 +1,222 @@
+import { GlossaryEntry, Room, TranscriptSegment } from '../types';
+import { RoomError, RoomErrorReason, normalizeRoomCode } from './rooms';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  RelayEnvelope,
+  RelayKind,
+  RelayPeer,
+  RelayPresenceHandle,
+  RelayPresenceState,
+  RelaySubscriptionHandlers,
+  RelayTransport,
+  createClientId
+} from './relayTransport';
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+/** Client → server frames understood by `server/relayServer.js`. */
+type RelayRequest =
+  | { type: 'open-room'; requestId: string }
+  | { type: 'join-room'; requestId: string; code: string }
+  | { type: 'close-room'; requestId: string; roomId: string }
+  | { type: 'subscribe'; roomId: string }
+  | { type: 'unsubscribe'; roomId: string }
+  | RelayEnvelope;
+
+/** Server → client frames. */
+type RelayResponse =
+  | { type: 'reply'; requestId: string; room?: Room; error?: { reason: RoomErrorReason; message: string } }
+  | { type: 'presence-sync'; roomId: string; peers: RelayPeer[] }
+  | RelayEnvelope;
+
+interface PendingRequest {
+  resolve: (room: Room | undefined) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+/**
+ * LAN relay over a plain WebSocket server (`npm run relay`).
+ * Subscriptions are re-sent after a reconnect so a server restart does not
+ * strand Listeners.
+ */
+export class WebSocketRelayTransport implements RelayTransport {
+  readonly kind = RelayKind.WEBSOCKET;
+  private url: string;
+  private socket: WebSocket | null = null;
+  private openPromise: Promise<WebSocket> | null = null;
+  private clientId = createClientId();
+  private pending = new Map<string, PendingRequest>();
+  private listeners = new Set<(message: RelayResponse) => void>();
+  private subscribedRooms = new Map<string, number>();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async openRoom(): Promise<Room> {
+    const room = await this.request({ type: 'open-room', requestId: createClientId() });
+    if (!room) throw new RoomError('UNAVAILABLE', 'Could not create room');
+    return room;
+  }
+
+  async joinRoom(code: string): Promise<Room> {
+    const normalized = normalizeRoomCode(code);
+    if (!normalized) throw new RoomError('NOT_FOUND', 'Room not found');
+    const room = await this.request({ type: 'join-room', requestId: createClientId(), code: normalized });
+    if (!room) throw new RoomError('NOT_FOUND', 'Room not found');
+    return room;
+  }
+
+  async closeRoom(room: Room): Promise<void> {
+    await this.request({ type: 'close-room', requestId: createClientId(), roomId: room.id });
+  }
+
+  async publishSegment(room: Room, segment: TranscriptSegment): Promise<void> {
+    await this.send({ type: 'segment', roomId: room.id, segment });
+  }
+
+  async updateGlossary(room: Room, glossary: GlossaryEntry[]): Promise<void> {
+    await this.send({ type: 'glossary', roomId: room.id, glossary });
+  }
+
+  subscribe(room: Room, handlers: RelaySubscriptionHandlers): () => void {
+    const listener = (message: RelayResponse) => {
+      if (!('roomId' in message) || message.roomId !== room.id) return;
+      if (message.type === 'segment') handlers.onSegment(message.segment);
+      if (message.type === 'room-closed') handlers.onRoomClosed();
+      if (message.type === 'glossary') handlers.onGlossary?.(message.glossary);
+    };
+    this.listeners.add(listener);
+    this.retainRoom(room.id);
+
+    return () => {
+      this.listeners.delete(listener);
+      this.releaseRoom(room.id);
+    };
+  }
+
+  trackPresence(room: Room, state: RelayPresenceState, onSync: (peers: RelayPeer[]) => void): RelayPresenceHandle {
+    let current = state;
+    const announce = () => {
+      this.send({ type: 'presence', roomId: room.id, peer: { ...current, clientId: this.clientId, lastSeen: Date.now() } }).catch(() => {});
+    };
+    const listener = (message: RelayResponse) => {
+      if (message.type === 'presence-sync' && message.roomId === room.id) onSync(message.peers);
+    };
+    this.listeners.add(listener);
+    this.retainRoom(room.id);
+    announce();
+    const heartbeat = window.setInterval(announce, PRESENCE_HEARTBEAT_MS);
+
+    return {
+      update: (next) => {
+        current = next;
+        announce();
+      },
+      leave: () => {
+        window.clearInterval(heartbeat);
+        this.send({ type: 'presence-leave', roomId: room.id, clientId: this.clientId }).catch(() => {});
+        this.listeners.delete(listener);
+        this.releaseRoom(room.id);
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    this.pending.forEach(p => {
+      window.clearTimeout(p.timer);
+      p.reject(new RoomError('UNAVAILABLE', 'Relay closed'));
+    });
+    this.pending.clear();
+    this.listeners.clear();
+    this.subscribedRooms.clear();
+    this.socket?.close();
+    this.socket = null;
+    this.openPromise = null;
+  }
+
+  private retainRoom(roomId: string) {
+    const count = this.subscribedRooms.get(roomId) || 0;
+    this.subscribedRooms.set(roomId, count + 1);
+    if (count === 0) this.send({ type: 'subscribe', roomId }).catch(() => {});
+  }
+
+  private releaseRoom(roomId: string) {
+    const count = (this.subscribedRooms.get(roomId) || 0) - 1;
+    if (count > 0) {
+      this.subscribedRooms.set(roomId, count);
+      return;
+    }
+    this.subscribedRooms.delete(roomId);
+    this.send({ type: 'unsubscribe', roomId }).catch(() => {});
+  }
+
+  private request(message: Extract<RelayRequest, { requestId: string }>): Promise<Room | undefined> {
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(message.requestId);
+        reject(new RoomError('UNAVAILABLE', 'Relay did not respond'));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(message.requestId, { resolve, reject, timer });
+      this.send(message).catch((err) => {
+        window.clearTimeout(timer);
+        this.pending.delete(message.requestId);
+        reject(err);
+      });
+    });
+  }
+
+  private async send(message: RelayRequest) {
+    const socket = await this.connect();
+    socket.send(JSON.stringify(message));
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.openPromise) return this.openPromise;
+
+    this.openPromise = new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.onopen = () => {
+        this.socket = socket;
+        this.subscribedRooms.forEach((_, roomId) => socket.send(JSON.stringify({ type: 'subscribe', roomId })));
+        resolve(socket);
+      };
+      socket.onerror = () => reject(new RoomError('UNAVAILABLE', `Relay unreachable at ${this.url}`));
+      socket.onclose = () => {
+        this.socket = null;
+        this.openPromise = null;
+      };
+      socket.onmessage = (event) => {
+        const message = parseFrame(event.data);
+        if (message) this.handleMessage(message);
+      };
+    });
+    return this.openPromise;
+  }
+
+  private handleMessage(message: RelayResponse) {
+    if (message.type === 'reply') {
+      const pending = this.pending.get(message.requestId);
+      if (!pending) return;
+      window.clearTimeout(pending.timer);
+      this.pending.delete(message.requestId);
+      if (message.error) pending.reject(new RoomError(message.error.reason, message.error.message));
+      else pending.resolve(message.room);
+      return;
+    }
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+/** Frames that are not JSON relay messages (another service on the port, a proxy banner) are logged and skipped. */
+function parseFrame(data: unknown): RelayResponse | null {
+  try {
+    const message = typeof data === 'string' ? JSON.parse(data) : null;
+    if (message && typeof message.type === 'string') return message;
+  } catch {
+    // Reported below
+  }
+  console.warn('Relay: ignored a frame that is not a relay message', data);
+  return null;
+}
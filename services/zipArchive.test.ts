@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zipArchive';
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores entries with a central directory pointing back at them', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'dir/b.bin', data: new Uint8Array([1, 2, 3]) }]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralStart = view.getUint32(end + 16, true);
+    const secondCentral = centralStart + 46 + 'a.txt'.length;
+    expect(text(zip.subarray(secondCentral + 46, secondCentral + 46 + 9))).toBe('dir/b.bin');
+    const secondLocal = view.getUint32(secondCentral + 42, true);
+    expect(view.getUint32(secondLocal, true)).toBe(0x04034b50);
+    expect([...zip.subarray(secondLocal + 30 + 9, secondLocal + 30 + 12)]).toEqual([1, 2, 3]);
+    expect(text(zip.subarray(30 + 5, 30 + 10))).toBe('hello');
+  });
+});
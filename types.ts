@@ -6,9 +6,65 @@ export interface TranscriptionEntry {
   timestamp: number;
 }
 
+/**
+ * A sentence-level unit of the Speaker's transcription as it travels over the relay.
+ * Partials share `id` and `seq` with the final they grow into.
+ */
+export interface TranscriptSegment extends TranscriptionEntry {
+  seq: number;
+  speakerId: string;
+  isFinal: boolean;
+  startTime: number;
+  endTime: number;
+  sourceLanguage: string;
+  /** Speaker wall clock at publish time, for relay latency. */
+  sentAt?: number;
+}
+
+/** A finished line of the session transcript; translations point back at their source. */
+export interface TranscriptRecord extends TranscriptionEntry {
+  startTime: number;
+  endTime: number;
+  sourceId?: string;
+  language?: string;
+  /** Glossary renderings the translation should have contained but did not. */
+  glossaryViolations?: string[];
+  /** The transcription as heard, when a moderator corrected it before broadcast. */
+  originalText?: string;
+}
+
+export interface TranscriptPair {
+  source?: TranscriptRecord;
+  translations: TranscriptRecord[];
+}
+
 export enum UserRole {
   SPEAKER = 'Speaker (Broadcast)',
-  LISTENER = 'Listener (Translate)'
+  LISTENER = 'Listener (Translate)',
+  CONVERSATION = 'Conversation (Two-Way)'
+}
+
+export enum RoomStatus {
+  OPEN = 'open',
+  CLOSED = 'closed'
+}
+
+export interface Room {
+  id: string;
+  code: string;
+  status: RoomStatus;
+  createdAt: number;
+  glossary?: GlossaryEntry[];
+}
+
+/** A fixed rendering for a term, or a term that must be kept as-is. */
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  doNotTranslate: boolean;
+  /** BCP-47 code of the language `target` is written in; applies to every language when empty. */
+  targetLanguage?: string;
 }
 
 export enum PrebuiltVoice {
@@ -22,7 +78,15 @@ export enum PrebuiltVoice {
 export enum SourceType {
   MIC = 'Microphone',
   SYSTEM = 'Internal Speaker',
-  BOTH = 'Mic + Internal'
+  BOTH = 'Mic + Internal',
+  FILE = 'Audio File'
+}
+
+/** What a Listener receives from interpretation. */
+export enum ListenerOutputMode {
+  CAPTIONS_AND_AUDIO = 'Captions + Audio',
+  CAPTIONS_ONLY = 'Captions Only',
+  AUDIO_ONLY = 'Audio Only'
 }
 
 export enum SupportLanguage {
@@ -195,3 +259,14 @@ export function resolveAutoLanguage(): SupportLanguage {
   };
   return map[browserLang] || SupportLanguage.ENGLISH_US;
 }
+
+/** Looks a language up by its display name or BCP-47 code (exact, then primary subtag). */
+export function findLanguage(query: string): SupportLanguage | null {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return null;
+  const languages = Object.values(SupportLanguage).filter(l => l !== SupportLanguage.AUTO);
+  return languages.find(l => l.toLowerCase() === wanted)
+    ?? languages.find(l => LANGUAGE_CODES[l]?.toLowerCase() === wanted)
+    ?? languages.find(l => LANGUAGE_CODES[l]?.toLowerCase().split('-')[0] === wanted.split('-')[0])
+    ?? null;
+}
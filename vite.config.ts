@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+        'process.env.RELAY_TRANSPORT': JSON.stringify(env.RELAY_TRANSPORT),
+        'process.env.RELAY_WS_URL': JSON.stringify(env.RELAY_WS_URL),
+        'process.env.LIVE_BACKEND': JSON.stringify(env.LIVE_BACKEND),
+        'process.env.MOCK_LIVE_FAULTS': JSON.stringify(env.MOCK_LIVE_FAULTS)
       },
       resolve: {
         alias: {